@@ -0,0 +1,22 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { AuthUser, readHeaderIdentityConfig, resolveHeaderIdentity } from '../shared/auth';
+
+// Vercel functions keep no accounts or sessions: the caller is whoever the identity header
+// (AUTH_USER_HEADER) names, so deploy them behind a proxy or protection that sets it.
+const headerIdentity = readHeaderIdentityConfig(process.env);
+
+export const getRequestUser = (req: VercelRequest): AuthUser | null =>
+  headerIdentity ? resolveHeaderIdentity(req.headers, headerIdentity) : null;
+
+// Credentials are only allowed for the origins listed in CORS_ORIGIN, never for "*"
+export const setCorsHeaders = (req: VercelRequest, res: VercelResponse, methods: string) => {
+  const origins = (process.env.CORS_ORIGIN || '').split(',').map((origin) => origin.trim()).filter(Boolean);
+  const origin = String(req.headers.origin || '');
+  if (origins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Methods', methods);
+  res.setHeader('Access-Control-Allow-Headers', 'X-Requested-With, Accept, Content-Length, Content-Type, Authorization');
+};
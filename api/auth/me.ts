@@ -0,0 +1,22 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getRequestUser, setCorsHeaders } from '../_auth';
+
+// The caller as named by the identity header
+export default function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res, 'GET,OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+  res.json(user);
+}
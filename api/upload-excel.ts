@@ -0,0 +1,88 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import multiparty from 'multiparty';
+import fs from 'fs';
+import { ALLOWED_MIME_TYPES, MAX_UPLOAD_BYTES, SheetNotFoundError, parseExcelFile } from '../shared/parser';
+import { hasRole } from '../shared/auth';
+import { errorMessage, isObject } from '../shared/validation';
+import { getRequestUser, setCorsHeaders } from './_auth';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res, 'POST,OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const user = getRequestUser(req);
+  if (!user) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+  if (!hasRole(user, 'uploader')) {
+    return res.status(403).json({ error: 'Not allowed', details: `This needs the uploader role; ${user.username} is a ${user.role}` });
+  }
+
+  try {
+    const form = new multiparty.Form({ maxFilesSize: MAX_UPLOAD_BYTES });
+
+    const parsePromise = new Promise<{ sheet?: string; files?: multiparty.File[] }>((resolve, reject) => {
+      form.parse(req, (err, fields, files) => {
+        if (err) reject(err);
+        else resolve({ sheet: fields.sheet?.[0], files: files.excel });
+      });
+    });
+
+    let sheet: string | undefined;
+    let files: multiparty.File[] | undefined;
+    try {
+      ({ sheet, files } = await parsePromise);
+    } catch (error) {
+      // multiparty flags a file over maxFilesSize with statusCode 413
+      if (isObject(error) && error.statusCode === 413) {
+        return res.status(400).json({ error: `File too large. Maximum size is ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB.` });
+      }
+      throw error;
+    }
+
+    if (!files || !files[0]) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const file = files[0];
+    const filePath = file.path;
+
+    // Validate file type
+    if (!ALLOWED_MIME_TYPES.includes(file.headers['content-type'])) {
+      fs.unlinkSync(filePath);
+      return res.status(400).json({ error: 'Invalid file type. Only Excel and CSV files are allowed.' });
+    }
+
+    try {
+      const { response } = parseExcelFile(filePath, {
+        fileName: file.originalFilename,
+        sheet: sheet || undefined
+      });
+      res.json(response);
+    } catch (error) {
+      if (error instanceof SheetNotFoundError) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    } finally {
+      // Clean up the uploaded file
+      fs.unlinkSync(filePath);
+    }
+
+  } catch (error) {
+    console.error('Error processing Excel file:', error);
+
+    res.status(500).json({
+      error: 'Failed to process Excel file',
+      details: errorMessage(error)
+    });
+  }
+}
@@ -1,24 +1,231 @@
-import { useState, useRef } from 'react';
-import { Layout, Typography, Space, Row, Col, Upload, Button, Spin, Alert } from 'antd';
-import { InboxOutlined, PictureOutlined } from '@ant-design/icons';
-import { useMutation } from '@tanstack/react-query';
-import html2canvas from 'html2canvas';
-import { uploadExcelFile } from './services/api';
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { Layout, Typography, Space, Row, Col, Upload, Button, Spin, Alert, Tabs, Dropdown, Select, message, notification } from 'antd';
+import { InboxOutlined, PictureOutlined, FilePdfOutlined, DownloadOutlined, SettingOutlined, ApartmentOutlined, FieldTimeOutlined, TeamOutlined, LogoutOutlined, BellOutlined, ShareAltOutlined, PrinterOutlined } from '@ant-design/icons';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Navigate, Route, Routes, useMatch, useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  uploadExcelFile,
+  getReport,
+  getReportRows,
+  getReportDiff,
+  editReportRow,
+  listReportEdits,
+  listReports,
+  getCurrentUser,
+  logout,
+  listMappingProfiles,
+  renderReport,
+  exportReport,
+  RenderFormat,
+  ExportFormat,
+  FileDownload,
+} from './services/api';
+import { onServerEvent } from './services/events';
 import DataGrid from './components/DataGrid';
-import { ExcelRow, UploadInfo } from './types';
+import StatusRulesDrawer from './components/StatusRulesDrawer';
+import MappingProfilesDrawer from './components/MappingProfilesDrawer';
+import SlaTargetsDrawer from './components/SlaTargetsDrawer';
+import UsersDrawer from './components/UsersDrawer';
+import AlertRulesDrawer from './components/AlertRulesDrawer';
+import ShareLinksDrawer from './components/ShareLinksDrawer';
+import SavedViewsBar from './components/SavedViewsBar';
+import ThemeMenu from './components/ThemeMenu';
+import ReportHistory from './components/ReportHistory';
+import DiffToolbar from './components/DiffToolbar';
+import SummaryPanel from './components/SummaryPanel';
+import ImportIssues from './components/ImportIssues';
+import JobHistoryPage from './components/JobHistoryPage';
+import { ApiError, ColumnLayout, ExcelRow, GridFilters, ReportSummary, SheetData, UploadInfo, UploadResponse } from './types';
+import { filtersFromSearchParams, writeFiltersToSearchParams } from '../../shared/gridFilters';
+import { replaceCachedRow, reportRowsKey } from './utils/reportRows';
+import { DEFAULT_MAPPING_PROFILE_ID } from '../../shared/mapping';
+import { hasRole } from '../../shared/auth';
 
-const { Header, Content } = Layout;
+const { Header, Content, Sider } = Layout;
 const { Title, Text } = Typography;
 const { Dragger } = Upload;
 
+// Routes:
+//   /                           upload, or a report the server didn't save
+//   /reports/:id                a saved report
+//   /reports/:id/diff/:otherId  the report compared with an older one
+//   /jobs/:name                 one job's history across reports
+// The sheet (?sheet=), saved column view (?view=) and grid filters are query parameters, so every view can be bookmarked.
+const reportPath = (id: string, compareWith?: string | null) =>
+  `/reports/${id}${compareWith ? `/diff/${compareWith}` : ''}`;
+
+const withoutParam = (params: URLSearchParams, name: string) => {
+  const next = new URLSearchParams(params);
+  next.delete(name);
+  return next.toString();
+};
+
 function App() {
-  const [excelData, setExcelData] = useState<ExcelRow[]>([]);
-  const [uploadInfo, setUploadInfo] = useState<UploadInfo | null>(null);
-  const [isGeneratingImage, setIsGeneratingImage] = useState(false);
-  const tableRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const homeMatch = useMatch('/');
+  const reportMatch = useMatch('/reports/:id/*');
+  const diffMatch = useMatch('/reports/:id/diff/:otherId');
+  const selectedReportId = reportMatch?.params.id ?? null;
+  const compareWith = diffMatch?.params.otherId ?? null;
+  const activeSheet = searchParams.get('sheet') || '';
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
+  // Bookmarks from before routing point at /?report=<id>
+  const legacyReportId = homeMatch ? searchParams.get('report') : null;
+  // Uploads the server did not save (e.g. the Vercel function) only live here
+  const [unsavedReport, setUnsavedReport] = useState<UploadResponse | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [mappingsOpen, setMappingsOpen] = useState(false);
+  const [slaOpen, setSlaOpen] = useState(false);
+  const [usersOpen, setUsersOpen] = useState(false);
+  const [alertsOpen, setAlertsOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [mappingProfile, setMappingProfile] = useState(DEFAULT_MAPPING_PROFILE_ID);
+  // Columns as arranged on screen; SavedViewsBar loads the ?view= layout into it
+  const [columnLayout, setColumnLayout] = useState<ColumnLayout>({});
+  const viewId = searchParams.get('view');
+  // Latest report saved by someone else or the watched folder since this page was opened
+  const [newReport, setNewReport] = useState<ReportSummary | null>(null);
+
+  useEffect(() => onServerEvent((event) => {
+    if (event.type === 'report-created') setNewReport(event.report);
+    if (event.type === 'alert') {
+      notification.warning({
+        message: event.entry.ruleName,
+        description: `${event.entry.summary} in ${event.entry.fileName}`,
+      });
+    }
+  }), []);
+
+  // Signed in by AuthGate, which owns this query
+  const meQuery = useQuery({
+    queryKey: ['me'],
+    queryFn: getCurrentUser,
+    staleTime: Infinity,
+  });
+  const currentUser = meQuery.data;
+  const canUpload = hasRole(currentUser, 'uploader');
+  const isAdmin = hasRole(currentUser, 'admin');
+
+  const profilesQuery = useQuery({
+    queryKey: ['mapping-profiles'],
+    queryFn: listMappingProfiles,
+  });
+
+  const reportsQuery = useQuery({
+    queryKey: ['reports'],
+    queryFn: listReports,
+  });
+
+  // With nothing chosen yet, open the newest report from the watched folder (once per visit)
+  const autoOpened = useRef(false);
+  useEffect(() => {
+    if (autoOpened.current || !reportsQuery.data) return;
+    autoOpened.current = true;
+    if (!homeMatch || unsavedReport || legacyReportId) return;
 
-  const uploadMutation = useMutation({
-    mutationFn: uploadExcelFile,
+    const latestWatched = reportsQuery.data.find((summary) => summary.source === 'watch');
+    if (latestWatched) navigate(reportPath(latestWatched.id), { replace: true });
+  }, [reportsQuery.data, homeMatch, unsavedReport, legacyReportId, navigate]);
+
+  const reportQuery = useQuery({
+    queryKey: ['report', selectedReportId],
+    queryFn: () => getReport(selectedReportId as string),
+    enabled: !!selectedReportId,
+  });
+
+  const report = selectedReportId ? reportQuery.data : homeMatch ? unsavedReport : null;
+
+  // Typing in the search box replaces the history entry rather than adding one per key
+  const setFilters = (next: GridFilters) => {
+    setSearchParams((params) => writeFiltersToSearchParams(new URLSearchParams(params), next), { replace: true });
+  };
+
+  const setActiveSheet = (sheet: string) => {
+    setSearchParams((params) => {
+      const next = new URLSearchParams(params);
+      next.set('sheet', sheet);
+      return next;
+    });
+  };
+
+  const setViewId = useCallback((id: string | null) => {
+    setSearchParams((params) => {
+      const next = new URLSearchParams(params);
+      if (id) next.set('view', id);
+      else next.delete('view');
+      return next;
+    });
+  }, [setSearchParams]);
+
+  // Keeps the sheet and filters
+  const setCompareWith = (otherId: string | null) => {
+    if (!selectedReportId) return;
+    navigate({ pathname: reportPath(selectedReportId, otherId), search: searchParams.toString() });
+  };
+
+  // Older responses only carry the first sheet's rows
+  const sheets: SheetData[] = useMemo(() => {
+    if (!report) return [];
+    if (report.sheets?.length) return report.sheets;
+    return [{ name: report.sheetName || 'Sheet1', data: report.data || [], totalRows: report.totalRows || 0 }];
+  }, [report]);
+
+  const currentSheet = sheets.find((sheet) => sheet.name === activeSheet)
+    || sheets.find((sheet) => sheet.name === report?.sheetName)
+    || sheets[0];
+  const currentSheetName = currentSheet?.name || '';
+
+  // Saved reports come without rows; the open sheet's rows are fetched page after page so a big
+  // sheet shows as soon as the first page arrives. Edits swap single rows into these pages
+  // (replaceCachedRow) rather than refetching them all.
+  const rowsQuery = useInfiniteQuery({
+    queryKey: reportRowsKey(selectedReportId, currentSheetName),
+    queryFn: ({ pageParam }) => getReportRows(selectedReportId as string, currentSheetName, pageParam || undefined),
+    initialPageParam: '',
+    getNextPageParam: (page) => page.nextCursor ?? undefined,
+    enabled: !!selectedReportId && !!reportQuery.data,
+  });
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = rowsQuery;
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const excelData = useMemo(
+    () => (selectedReportId ? rowsQuery.data?.pages.flatMap((page) => page.rows) || [] : currentSheet?.data || []),
+    [selectedReportId, rowsQuery.data, currentSheet]
+  );
+  const sheetRowCount = currentSheet?.totalRows ?? excelData.length;
+
+  // Only worth mentioning when the header wasn't simply the first row
+  const headerRows = currentSheet?.headerRows || [];
+  const headerRowsLabel = headerRows.length > 1
+    ? `Header on rows ${headerRows[0]}–${headerRows[headerRows.length - 1]}`
+    : headerRows[0] > 1 ? `Header on row ${headerRows[0]}` : '';
+
+  const diffQuery = useQuery({
+    queryKey: ['diff', selectedReportId, compareWith, currentSheetName],
+    queryFn: () => getReportDiff(selectedReportId as string, compareWith as string, currentSheetName),
+    enabled: !!selectedReportId && !!compareWith,
+  });
+
+  const editsQuery = useQuery({
+    queryKey: ['edits', selectedReportId, currentSheetName],
+    queryFn: () => listReportEdits(selectedReportId as string, currentSheetName),
+    enabled: !!selectedReportId && !!currentSheetName,
+  });
+
+  const uploadInfo: UploadInfo | null = report ? {
+    fileName: report.fileName,
+    uploadDate: report.uploadDate,
+    totalRows: sheets.reduce((total, sheet) => total + sheet.totalRows, 0)
+  } : null;
+
+  const uploadMutation = useMutation<UploadResponse, ApiError, File>({
+    mutationFn: (file: File) => uploadExcelFile(file, undefined, mappingProfile),
     onError: (error) => {
       console.error('Upload error:', error);
     }
@@ -28,12 +235,16 @@ function App() {
     uploadMutation.mutate(file, {
       onSuccess: (response) => {
         console.log('Upload successful:', response);
-        setExcelData(response.data || response); // Handle both old and new response formats
-        setUploadInfo({
-          fileName: response.fileName || file.name,
-          uploadDate: response.uploadDate || new Date().toISOString(),
-          totalRows: response.totalRows || (response.data || response).length
-        });
+        if (response.reportId) {
+          // The server announces our own upload too
+          setNewReport((current) => (current?.id === response.reportId ? null : current));
+          queryClient.setQueryData(['report', response.reportId], response);
+          queryClient.invalidateQueries({ queryKey: ['reports'] });
+          navigate(reportPath(response.reportId));
+        } else {
+          setUnsavedReport({ ...response, fileName: response.fileName || file.name });
+          navigate('/');
+        }
       },
       onError: (error) => {
         console.error('Upload failed:', error);
@@ -42,267 +253,442 @@ function App() {
     return false; // Prevent default upload behavior
   };
 
-  const downloadAsImage = async () => {
-    if (!tableRef.current) return;
+  const openReport = (id: string) => {
+    setNewReport((current) => (current?.id === id ? null : current));
+    navigate(reportPath(id));
+  };
 
-    setIsGeneratingImage(true);
+  // Saves one cell; the editor stays open when this throws
+  const editCell = async (row: ExcelRow, column: string, value: string) => {
+    if (!selectedReportId) return;
+    let updated: ExcelRow;
     try {
-      // Get the table scroll container (the actual table without header info)
-      const scrollContainer = tableRef.current.querySelector('.table-scroll-container') as HTMLElement;
-      const tableElement = tableRef.current.querySelector('.ant-table-container') as HTMLElement;
-      const tableBody = tableRef.current.querySelector('.ant-table-body') as HTMLElement;
-      const antTable = tableRef.current.querySelector('.ant-table') as HTMLElement;
-      
-      if (!scrollContainer || !tableElement) {
-        alert('Table not found. Please try again.');
-        return;
-      }
-
-      // Store original styles
-      const originalScrollStyle = scrollContainer.style.cssText;
-      const originalTableStyle = tableElement.style.cssText;
-      const originalBodyStyle = tableBody?.style.cssText || '';
-      const originalAntTableStyle = antTable?.style.cssText || '';
-
-      // Temporarily modify styles to show all content
-      scrollContainer.style.height = 'auto';
-      scrollContainer.style.maxHeight = 'none';
-      scrollContainer.style.overflow = 'visible';
-      scrollContainer.style.width = 'auto';
-      scrollContainer.style.minWidth = '1400px'; /* Set minimum width for image capture */
-      scrollContainer.classList.add('image-capture-mode');
-      
-      tableElement.style.height = 'auto';
-      tableElement.style.maxHeight = 'none';
-      tableElement.style.overflow = 'visible';
-      tableElement.style.width = 'auto';
-      tableElement.style.minWidth = '1400px'; /* Ensure table is wide enough for capture */
-      
-      if (tableBody) {
-        tableBody.style.height = 'auto';
-        tableBody.style.maxHeight = 'none';
-        tableBody.style.overflow = 'visible';
-        tableBody.style.width = 'auto';
-      }
-
-      if (antTable) {
-        antTable.style.width = 'auto';
-        antTable.style.minWidth = '100%';
-      }
-
-      // Wait longer for the layout to fully update
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Get the actual dimensions after layout update
-      const rect = scrollContainer.getBoundingClientRect();
-      const captureWidth = Math.max(rect.width, scrollContainer.scrollWidth, 1400); // Match compact layout
-      
-      // Calculate minimum height based on row count (header + data rows)
-      const minHeightForRows = 25 + (excelData.length * 20); // 25px header + 20px per data row
-      const captureHeight = Math.max(rect.height, scrollContainer.scrollHeight, minHeightForRows);
-
-      // Debug logging
-      console.log('Capture dimensions:', {
-        rectWidth: rect.width,
-        rectHeight: rect.height,
-        scrollWidth: scrollContainer.scrollWidth,
-        scrollHeight: scrollContainer.scrollHeight,
-        captureWidth,
-        captureHeight,
-        dataRows: excelData.length,
-        minHeightForRows
+      const response = await editReportRow(selectedReportId, String(row.id), {
+        sheet: currentSheetName,
+        cells: { [column]: value },
       });
+      updated = response.row;
+    } catch (error) {
+      message.error((error as ApiError).details || (error as ApiError).error || 'Saving the change failed');
+      throw error;
+    }
+    replaceCachedRow(queryClient, selectedReportId, currentSheetName, updated);
+    queryClient.invalidateQueries({ queryKey: ['edits', selectedReportId] });
+  };
 
-      // Capture only the table container with expanded dimensions
-      const canvas = await html2canvas(scrollContainer, {
-        backgroundColor: '#ffffff',
-        scale: 2, // Higher quality
-        useCORS: true,
-        allowTaint: true,
-        height: captureHeight,
-        width: captureWidth,
-        scrollX: 0,
-        scrollY: 0,
-        removeContainer: false,
-        logging: false,
-        windowWidth: captureWidth,
-        windowHeight: captureHeight,
-        x: 0,
-        y: 0
-      });
+  const startNewUpload = () => {
+    setUnsavedReport(null);
+    navigate('/');
+  };
 
-      // Restore original styles
-      scrollContainer.style.cssText = originalScrollStyle;
-      scrollContainer.classList.remove('image-capture-mode');
-      tableElement.style.cssText = originalTableStyle;
-      if (tableBody) {
-        tableBody.style.cssText = originalBodyStyle;
-      }
-      if (antTable) {
-        antTable.style.cssText = originalAntTableStyle;
-      }
+  const signOut = async () => {
+    try {
+      await logout();
+    } catch (error) {
+      message.error((error as ApiError).error || 'Sign out failed');
+      return;
+    }
+    queryClient.clear();
+    queryClient.setQueryData(['me'], null);
+  };
 
-      // Convert to blob and download
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const url = URL.createObjectURL(blob);
-          const link = document.createElement('a');
-          link.href = url;
-          link.download = `${uploadInfo?.fileName || 'excel-data'}-${new Date().toISOString().split('T')[0]}.png`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(url);
-        }
-      }, 'image/png');
+  // `key` identifies the button that started the download so only it shows a spinner
+  const downloadFile = async (key: string, fetchFile: () => Promise<FileDownload>) => {
+    setDownloading(key);
+    try {
+      const { blob, fileName } = await fetchFile();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
     } catch (error) {
-      console.error('Error generating image:', error);
-      alert('Failed to generate image. Please try again.');
+      console.error('Download failed:', error);
+      message.error((error as ApiError).details || (error as ApiError).error || 'Download failed');
     } finally {
-      setIsGeneratingImage(false);
+      setDownloading(null);
     }
   };
 
-  const hasData = excelData && excelData.length > 0;
+  const downloadRender = (format: RenderFormat) => {
+    if (!selectedReportId) return;
+    downloadFile(format, () => renderReport(selectedReportId, format, currentSheetName, columnLayout));
+  };
+
+  // XLSX keeps every sheet; CSV and JSON export the sheet on screen
+  const downloadExport = (format: ExportFormat) => {
+    if (!selectedReportId) return;
+    downloadFile(format, () =>
+      exportReport(selectedReportId, format, format === 'xlsx' ? undefined : currentSheetName, columnLayout));
+  };
+
+  const hasData = sheets.some((sheet) => sheet.totalRows > 0);
+
+  // Home shows the upload area until there is a report; saved reports load from the API
+  const reportView = (
+    selectedReportId && reportQuery.isLoading ? (
+      <Row justify="center" align="middle" style={{ minHeight: '400px' }}>
+        <Spin size="large" />
+      </Row>
+    ) : selectedReportId && (reportQuery.isError || rowsQuery.isError) ? (
+      <Alert
+        message="Report could not be loaded"
+        description="It may have been removed from the server."
+        type="error"
+        showIcon
+      />
+    ) : !report ? (
+      <Row justify="center" align="middle" style={{ flex: 1, minHeight: '400px' }}>
+        <Col span={12}>
+          <div className="app-card" style={{ padding: '48px', borderRadius: '12px', textAlign: 'center' }}>
+            <Title level={2} className="app-heading" style={{ marginBottom: '24px' }}>
+              Welcome to Excel Data Viewer
+            </Title>
+            <Text type="secondary" style={{ fontSize: '16px', display: 'block', marginBottom: '32px' }}>
+              Upload your Excel file to view and analyze your data in a beautiful, interactive table format.
+            </Text>
+
+            {canUpload ? (
+              <>
+                <Space style={{ marginBottom: '16px' }}>
+                  <Text type="secondary">Column mapping:</Text>
+                  <Select
+                    value={mappingProfile}
+                    onChange={setMappingProfile}
+                    loading={profilesQuery.isLoading}
+                    options={(profilesQuery.data || []).map((profile) => ({ value: profile.id, label: profile.name }))}
+                    style={{ minWidth: '200px', textAlign: 'left' }}
+                  />
+                </Space>
+
+                <Dragger
+                  name="excel"
+                  beforeUpload={handleFileUpload}
+                  accept=".xlsx,.xls,.csv"
+                  className="app-upload"
+                >
+                  <div style={{ padding: '20px' }}>
+                    <InboxOutlined style={{ fontSize: '48px', color: 'var(--app-heading)', marginBottom: '16px' }} />
+                    <Title level={4} className="app-heading" style={{ marginBottom: '8px' }}>
+                      Drop your Excel file here or click to browse
+                    </Title>
+                    <Text type="secondary">
+                      Supports .xlsx, .xls, and .csv files
+                    </Text>
+                  </div>
+                </Dragger>
+              </>
+            ) : (
+              <Alert
+                type="info"
+                showIcon
+                message="Your account can open saved reports but not upload new ones"
+                description="Pick a report from the history, or ask an admin for the uploader role."
+                style={{ textAlign: 'left' }}
+              />
+            )}
+
+            {uploadMutation.isPending && (
+              <div style={{ marginTop: '24px' }}>
+                <Spin size="large" />
+                <Text type="secondary" style={{ display: 'block', marginTop: '12px' }}>
+                  Processing your Excel file...
+                </Text>
+              </div>
+            )}
+
+            {uploadMutation.isError && (
+              <Alert
+                message="Upload Failed"
+                description={uploadMutation.error.details || uploadMutation.error.error || 'Please check your file format and try again.'}
+                type="error"
+                style={{ marginTop: '24px' }}
+                showIcon
+              />
+            )}
+          </div>
+        </Col>
+      </Row>
+    ) : (
+      <div className="app-card" style={{ padding: '20px', overflow: 'hidden' }}>
+        <div className="app-report-title">
+          <Title level={4} className="app-heading" style={{ margin: 0 }}>
+            📈 {uploadInfo?.fileName}
+          </Title>
+          <Text type="secondary">
+            {sheets.length > 1 && `${currentSheetName} • `}
+            {excelData.length < sheetRowCount
+              ? `Loading rows: ${excelData.length} of ${sheetRowCount}`
+              : `${excelData.length} rows`} • Uploaded on {new Date(uploadInfo?.uploadDate || '').toLocaleDateString()}
+            {headerRowsLabel && ` • ${headerRowsLabel}`}
+          </Text>
+        </div>
+
+        {sheets.length > 1 && (
+          <Tabs
+            activeKey={currentSheetName}
+            onChange={setActiveSheet}
+            size="small"
+            style={{ marginBottom: '8px' }}
+            items={sheets.map((sheet) => ({
+              key: sheet.name,
+              label: `${sheet.name} (${sheet.totalRows})`
+            }))}
+          />
+        )}
+
+        <ImportIssues issues={report?.issues || []} />
+
+        <SummaryPanel data={excelData} columns={currentSheet?.columns} />
+
+        {selectedReportId && (
+          <DiffToolbar
+            reportId={selectedReportId}
+            compareWith={compareWith}
+            onCompareWithChange={setCompareWith}
+            summary={compareWith ? diffQuery.data?.summary : undefined}
+            loading={diffQuery.isFetching}
+          />
+        )}
+
+        <SavedViewsBar
+          layout={columnLayout}
+          onLayoutChange={setColumnLayout}
+          viewId={viewId}
+          onViewChange={setViewId}
+          currentUser={currentUser}
+        />
+
+        <DataGrid
+          data={excelData}
+          columns={currentSheet?.columns}
+          loading={uploadMutation.isPending || rowsQuery.isLoading}
+          diff={compareWith ? diffQuery.data : undefined}
+          filters={filters}
+          onFiltersChange={setFilters}
+          onJobClick={selectedReportId ? (job) => navigate(`/jobs/${encodeURIComponent(job)}`) : undefined}
+          edits={selectedReportId ? editsQuery.data : undefined}
+          onCellEdit={selectedReportId && canUpload && !compareWith ? editCell : undefined}
+          layout={columnLayout}
+          onLayoutChange={setColumnLayout}
+        />
+      </div>
+    )
+  );
 
   return (
-    <Layout style={{ minHeight: '100vh', background: '#f5f5f5' }}>
-      <Header style={{ 
-        background: '#2C3E50', 
-        padding: '0 24px',
-        boxShadow: '0 2px 8px rgba(0,0,0,0.1)'
-      }}>
+    <Layout className="app-layout">
+      <Header className="app-header">
         <Row justify="space-between" align="middle" style={{ height: '100%' }}>
           <Col>
-            <Title level={3} style={{ color: 'white', margin: 0, fontSize: '20px' }}>
+            <Title level={3} className="app-header-title">
               📊 Excel Data Viewer
             </Title>
           </Col>
-          {uploadInfo && (
-            <Col>
-              <Space>
-                <Text style={{ color: 'white', fontSize: '14px' }}>
+          <Col>
+            <Space>
+              <Button
+                icon={<SettingOutlined />}
+                onClick={() => setRulesOpen(true)}
+                size="middle"
+              >
+                Status Rules
+              </Button>
+              <Button
+                icon={<ApartmentOutlined />}
+                onClick={() => setMappingsOpen(true)}
+                size="middle"
+              >
+                Column Mappings
+              </Button>
+              <Button
+                icon={<FieldTimeOutlined />}
+                onClick={() => setSlaOpen(true)}
+                size="middle"
+              >
+                SLA Targets
+              </Button>
+              <Button
+                icon={<BellOutlined />}
+                onClick={() => setAlertsOpen(true)}
+                size="middle"
+              >
+                Alerts
+              </Button>
+              {isAdmin && (
+                <Button
+                  icon={<TeamOutlined />}
+                  onClick={() => setUsersOpen(true)}
+                  size="middle"
+                >
+                  Users
+                </Button>
+              )}
+              {uploadInfo && (
+                <Text className="app-header-text">
                   {uploadInfo.fileName} • {uploadInfo.totalRows} rows
                 </Text>
-                {hasData && (
+              )}
+              {hasData && (
+                <>
+                  {/* PNG/PDF and exports come from the server's copy; reports from the Vercel functions have none */}
+                  {selectedReportId && (
+                    <>
+                      <Button
+                        icon={<PictureOutlined />}
+                        onClick={() => downloadRender('png')}
+                        loading={downloading === 'png'}
+                        disabled={!!downloading}
+                        className="app-header-button"
+                        size="middle"
+                      >
+                        Download PNG
+                      </Button>
+                      <Button
+                        icon={<FilePdfOutlined />}
+                        onClick={() => downloadRender('pdf')}
+                        loading={downloading === 'pdf'}
+                        disabled={!!downloading}
+                        className="app-header-button"
+                        size="middle"
+                      >
+                        Download PDF
+                      </Button>
+                    </>
+                  )}
+                  {selectedReportId && (
+                    <Dropdown
+                      disabled={!!downloading}
+                      menu={{
+                        items: [
+                          { key: 'xlsx', label: 'Excel workbook (.xlsx)' },
+                          { key: 'csv', label: 'CSV, current sheet (.csv)' },
+                          { key: 'json', label: 'JSON, current sheet (.json)' },
+                        ],
+                        onClick: ({ key }) => downloadExport(key as ExportFormat),
+                      }}
+                    >
+                      <Button
+                        icon={<DownloadOutlined />}
+                        loading={['xlsx', 'csv', 'json'].includes(downloading || '')}
+                        className="app-header-button"
+                        size="middle"
+                      >
+                        Export
+                      </Button>
+                    </Dropdown>
+                  )}
+                  {selectedReportId && (
+                    <Button
+                      icon={<ShareAltOutlined />}
+                      onClick={() => setShareOpen(true)}
+                      className="app-header-button"
+                      size="middle"
+                    >
+                      Share
+                    </Button>
+                  )}
                   <Button
-                    type="primary"
-                    icon={<PictureOutlined />}
-                    onClick={downloadAsImage}
-                    loading={isGeneratingImage}
-                    disabled={isGeneratingImage}
-                    style={{
-                      background: '#ffffff',
-                      borderColor: '#ffffff',
-                      color: '#2C3E50'
-                    }}
+                    icon={<PrinterOutlined />}
+                    onClick={() => window.print()}
+                    className="app-header-button"
                     size="middle"
                   >
-                    {isGeneratingImage ? 'Generating...' : 'Download as Image'}
+                    Print
                   </Button>
-                )}
-              </Space>
-            </Col>
-          )}
+                </>
+              )}
+              <ThemeMenu />
+              {currentUser && (
+                <Text className="app-header-text">
+                  {currentUser.displayName || currentUser.username} ({currentUser.role})
+                </Text>
+              )}
+              {currentUser?.provider === 'local' && (
+                <Button icon={<LogoutOutlined />} onClick={signOut} size="middle">
+                  Sign out
+                </Button>
+              )}
+            </Space>
+          </Col>
         </Row>
       </Header>
 
-      <Content style={{ padding: '20px', maxWidth: '100%', width: '100%' }}>
-        <div style={{ 
-          background: '#fff', 
-          padding: '24px', 
-          borderRadius: '8px',
-          boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
-          width: '100%',
-          maxWidth: '100%', /* Ensure it doesn't exceed viewport */
-          /* Remove minWidth to prevent horizontal scrollbars */
-          overflowX: 'auto' /* Allow horizontal scrolling if needed */
-        }}>
-          {!hasData ? (
-            <Row justify="center" align="middle" style={{ flex: 1, minHeight: '400px' }}>
-              <Col span={12}>
-                <div style={{
-                  background: 'white',
-                  padding: '48px',
-                  borderRadius: '12px',
-                  boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
-                  textAlign: 'center'
-                }}>
-                  <Title level={2} style={{ color: '#2C3E50', marginBottom: '24px' }}>
-                    Welcome to Excel Data Viewer
-                  </Title>
-                  <Text style={{ fontSize: '16px', color: '#666', display: 'block', marginBottom: '32px' }}>
-                    Upload your Excel file to view and analyze your data in a beautiful, interactive table format.
-                  </Text>
-                  
-                  <Dragger
-                    name="excel"
-                    beforeUpload={handleFileUpload}
-                    accept=".xlsx,.xls,.csv"
-                    style={{
-                      padding: '20px',
-                      border: '2px dashed #2C3E50',
-                      borderRadius: '8px',
-                      background: '#f8f9ff'
-                    }}
-                  >
-                    <div style={{ padding: '20px' }}>
-                      <InboxOutlined style={{ fontSize: '48px', color: '#2C3E50', marginBottom: '16px' }} />
-                      <Title level={4} style={{ color: '#2C3E50', marginBottom: '8px' }}>
-                        Drop your Excel file here or click to browse
-                      </Title>
-                      <Text style={{ color: '#666' }}>
-                        Supports .xlsx, .xls, and .csv files
-                      </Text>
-                    </div>
-                  </Dragger>
-
-                  {uploadMutation.isPending && (
-                    <div style={{ marginTop: '24px' }}>
-                      <Spin size="large" />
-                      <Text style={{ display: 'block', marginTop: '12px', color: '#666' }}>
-                        Processing your Excel file...
-                      </Text>
-                    </div>
-                  )}
+      <StatusRulesDrawer open={rulesOpen} onClose={() => setRulesOpen(false)} readOnly={!isAdmin} />
+      <MappingProfilesDrawer open={mappingsOpen} onClose={() => setMappingsOpen(false)} readOnly={!isAdmin} />
+      <SlaTargetsDrawer open={slaOpen} onClose={() => setSlaOpen(false)} readOnly={!isAdmin} />
+      <AlertRulesDrawer open={alertsOpen} onClose={() => setAlertsOpen(false)} readOnly={!isAdmin} />
+      {selectedReportId && (
+        <ShareLinksDrawer
+          open={shareOpen}
+          onClose={() => setShareOpen(false)}
+          reportId={selectedReportId}
+          sheet={currentSheetName}
+          filters={filters}
+          currentUser={currentUser}
+        />
+      )}
+      {currentUser && isAdmin && (
+        <UsersDrawer open={usersOpen} onClose={() => setUsersOpen(false)} currentUser={currentUser} />
+      )}
 
-                  {uploadMutation.isError && (
-                    <Alert
-                      message="Upload Failed"
-                      description="Please check your file format and try again."
-                      type="error"
-                      style={{ marginTop: '24px' }}
-                      showIcon
-                    />
-                  )}
-                </div>
-              </Col>
-            </Row>
-          ) : (
-            <div 
-              ref={tableRef}
-              style={{ 
-                background: 'white', 
-                borderRadius: '8px', 
-                padding: '20px',
-                boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
-                overflow: 'hidden'
-              }}
-            >
-              <div style={{ marginBottom: '16px', borderBottom: '2px solid #2C3E50', paddingBottom: '16px' }}>
-                <Title level={4} style={{ margin: 0, color: '#2C3E50' }}>
-                  📈 {uploadInfo?.fileName}
-                </Title>
-                <Text style={{ color: '#666' }}>
-                  {uploadInfo?.totalRows} rows • Uploaded on {new Date(uploadInfo?.uploadDate || '').toLocaleDateString()}
-                </Text>
-              </div>
-              
-              <DataGrid data={excelData} loading={uploadMutation.isPending} />
-            </div>
+      <Layout>
+        <Sider
+          width={260}
+          theme="light"
+          breakpoint="lg"
+          collapsedWidth={0}
+          className="app-sider"
+        >
+          <ReportHistory
+            selectedId={selectedReportId}
+            onSelect={openReport}
+            onNewUpload={canUpload ? startNewUpload : undefined}
+          />
+        </Sider>
+
+        <Content className="app-content" style={{ padding: '20px', maxWidth: '100%', width: '100%', minWidth: 0 }}>
+          {newReport && newReport.id !== selectedReportId && (
+            <Alert
+              type="info"
+              showIcon
+              closable
+              onClose={() => setNewReport(null)}
+              message={`New report available: ${newReport.fileName}`}
+              description={`${newReport.source === 'watch' ? 'Picked up from the watched folder' : 'Uploaded'} at ${new Date(newReport.uploadDate).toLocaleTimeString()} • ${newReport.totalRows} rows`}
+              action={
+                <Button size="small" type="primary" onClick={() => openReport(newReport.id)}>
+                  Open
+                </Button>
+              }
+              style={{ marginBottom: '16px' }}
+            />
           )}
-        </div>
-      </Content>
+          <div className="app-card" style={{
+            padding: '24px',
+            width: '100%',
+            maxWidth: '100%', /* Ensure it doesn't exceed viewport */
+            /* Remove minWidth to prevent horizontal scrollbars */
+            overflowX: 'auto' /* Allow horizontal scrolling if needed */
+          }}>
+            <Routes>
+              <Route
+                path="/"
+                element={legacyReportId
+                  ? <Navigate replace to={{ pathname: reportPath(legacyReportId), search: withoutParam(searchParams, 'report') }} />
+                  : reportView}
+              />
+              <Route path="/reports/:id" element={reportView} />
+              <Route path="/reports/:id/diff/:otherId" element={reportView} />
+              <Route path="/jobs/:name" element={<JobHistoryPage />} />
+              <Route path="*" element={<Navigate replace to="/" />} />
+            </Routes>
+          </div>
+        </Content>
+      </Layout>
     </Layout>
   );
 }
@@ -0,0 +1,302 @@
+import React, { useEffect, useState } from 'react';
+import { Drawer, Table, Tag, Button, Space, Input, Alert, Typography, Switch, Dropdown, Popconfirm, Tooltip, message } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { listAlertRules, saveAlertRule, deleteAlertRule, snoozeAlertRule, getAlerts } from '../services/api';
+import { AlertLogEntry, AlertRule, AlertRuleInput, ApiError } from '../types';
+import { isSnoozed } from '../../../shared/alerts';
+
+const { Text, Title } = Typography;
+
+interface AlertRulesDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  // Rules and sent alerts are listed, but rules can't be changed or snoozed without the admin role
+  readOnly?: boolean;
+}
+
+const NEW_RULE_TEMPLATE: AlertRuleInput = {
+  name: 'Failures',
+  trigger: 'status',
+  status: 'FAILED',
+  job: '',
+  senders: [],
+  enabled: true,
+};
+
+const SNOOZE_OPTIONS = [
+  { key: '60', label: '1 hour' },
+  { key: '240', label: '4 hours' },
+  { key: '1440', label: '1 day' },
+  { key: '10080', label: '1 week' },
+];
+
+const describeRule = (rule: AlertRule) => {
+  const scope = rule.job ? `in ${rule.job}` : 'in any job';
+  if (rule.trigger === 'error-count') return `More than ${rule.threshold ?? 0} error cells ${scope}`;
+  if (rule.trigger === 'sla-breach') return `SLA breach ${scope}`;
+  return `${rule.status ? rule.status.toUpperCase() : `Any ${rule.statusType || 'error'} status`} ${scope}`;
+};
+
+const toDraft = ({ name, trigger, job, status, statusType, threshold, senders, enabled }: AlertRuleInput) =>
+  JSON.stringify({ name, trigger, job, status, statusType, threshold, senders, enabled }, null, 2);
+
+const logColumns: ColumnsType<AlertLogEntry> = [
+  {
+    title: 'Sent',
+    dataIndex: 'sentAt',
+    key: 'sentAt',
+    width: 150,
+    render: (sentAt: string) => new Date(sentAt).toLocaleString(),
+  },
+  {
+    title: 'Alert',
+    key: 'alert',
+    render: (_, entry) => (
+      <div>
+        <Text strong>{entry.ruleName}</Text>
+        <div style={{ fontSize: '12px' }}>{entry.summary} in {entry.fileName}</div>
+      </div>
+    ),
+  },
+  {
+    title: 'Delivered to',
+    dataIndex: 'deliveries',
+    key: 'deliveries',
+    width: 170,
+    render: (deliveries: AlertLogEntry['deliveries']) => (deliveries.length === 0
+      ? <Text type="secondary">no sender configured</Text>
+      : deliveries.map((delivery) => (
+        <Tooltip key={delivery.sender} title={delivery.error}>
+          <Tag color={delivery.ok ? 'green' : 'red'}>{delivery.sender}</Tag>
+        </Tooltip>
+      ))),
+  },
+];
+
+const AlertRulesDrawer: React.FC<AlertRulesDrawerProps> = ({ open, onClose, readOnly = false }) => {
+  const queryClient = useQueryClient();
+  // null when viewing, 'new' when creating, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const rulesQuery = useQuery({
+    queryKey: ['alert-rules'],
+    queryFn: listAlertRules,
+    enabled: open,
+  });
+
+  const alertsQuery = useQuery({
+    queryKey: ['alerts'],
+    queryFn: getAlerts,
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) setEditingId(null);
+  }, [open]);
+
+  const refreshRules = () => queryClient.invalidateQueries({ queryKey: ['alert-rules'] });
+  const showError = (error: ApiError) => message.error(error.details || error.error);
+
+  const saveMutation = useMutation<AlertRule, ApiError, AlertRuleInput & { id?: string }>({
+    mutationFn: (rule) => saveAlertRule(rule),
+    onSuccess: () => {
+      refreshRules();
+      setEditingId(null);
+    },
+  });
+
+  // Switching a rule on or off from the list reports errors as a message, not in the editor
+  const toggleMutation = useMutation<AlertRule, ApiError, AlertRule>({
+    mutationFn: (rule) => saveAlertRule(rule),
+    onSuccess: refreshRules,
+    onError: showError,
+  });
+
+  const snoozeMutation = useMutation<AlertRule, ApiError, { id: string; minutes: number | null }>({
+    mutationFn: ({ id, minutes }) => snoozeAlertRule(id, minutes),
+    onSuccess: refreshRules,
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation<void, ApiError, string>({
+    mutationFn: (id) => deleteAlertRule(id),
+    onSuccess: refreshRules,
+    onError: showError,
+  });
+
+  const startEditing = (id: string, rule: AlertRuleInput) => {
+    saveMutation.reset();
+    setDraft(toDraft(rule));
+    setEditingId(id);
+  };
+
+  const handleSave = () => {
+    try {
+      const parsed = JSON.parse(draft);
+      saveMutation.mutate(editingId === 'new' ? parsed : { ...parsed, id: editingId });
+    } catch (error) {
+      message.error(`Rule is not valid JSON: ${(error as Error).message}`);
+    }
+  };
+
+  const senders = alertsQuery.data?.senders || [];
+
+  const ruleColumns: ColumnsType<AlertRule> = [
+    {
+      title: 'Rule',
+      key: 'rule',
+      render: (_, rule) => (
+        <div>
+          <Text strong>{rule.name}</Text>
+          <div style={{ fontSize: '12px' }}>{describeRule(rule)}</div>
+        </div>
+      ),
+    },
+    {
+      title: 'Sends to',
+      dataIndex: 'senders',
+      key: 'senders',
+      width: 130,
+      render: (ruleSenders?: string[]) => (ruleSenders?.length
+        ? ruleSenders.map((sender) => <Tag key={sender}>{sender}</Tag>)
+        : <Text type="secondary">every sender</Text>),
+    },
+    {
+      title: 'On',
+      dataIndex: 'enabled',
+      key: 'enabled',
+      width: 60,
+      render: (enabled: boolean, rule) => (
+        <Switch
+          size="small"
+          checked={enabled}
+          disabled={readOnly}
+          onChange={(checked) => toggleMutation.mutate({ ...rule, enabled: checked })}
+        />
+      ),
+    },
+    {
+      title: 'Snooze',
+      key: 'snooze',
+      width: 170,
+      render: (_, rule) => {
+        if (isSnoozed(rule)) {
+          return (
+            <Space size={4}>
+              <Tag color="gold">until {new Date(rule.snoozedUntil as string).toLocaleString()}</Tag>
+              {!readOnly && (
+                <Button size="small" type="link" onClick={() => snoozeMutation.mutate({ id: rule.id, minutes: null })}>
+                  Resume
+                </Button>
+              )}
+            </Space>
+          );
+        }
+        if (readOnly) return null;
+        return (
+          <Dropdown
+            menu={{
+              items: SNOOZE_OPTIONS,
+              onClick: ({ key }) => snoozeMutation.mutate({ id: rule.id, minutes: Number(key) }),
+            }}
+          >
+            <Button size="small">Snooze</Button>
+          </Dropdown>
+        );
+      },
+    },
+    ...(readOnly ? [] : [{
+      key: 'actions',
+      width: 120,
+      render: (_: unknown, rule: AlertRule) => (
+        <Space size={4}>
+          <Button size="small" onClick={() => startEditing(rule.id, rule)}>Edit</Button>
+          <Popconfirm title={`Delete "${rule.name}"?`} onConfirm={() => deleteMutation.mutate(rule.id)}>
+            <Button size="small" danger>Delete</Button>
+          </Popconfirm>
+        </Space>
+      ),
+    }]),
+  ];
+
+  return (
+    <Drawer
+      title="Alerts"
+      open={open}
+      onClose={onClose}
+      width={760}
+      extra={readOnly ? undefined : (
+        editingId ? (
+          <Space>
+            <Button onClick={() => setEditingId(null)}>Cancel</Button>
+            <Button type="primary" onClick={handleSave} loading={saveMutation.isPending}>
+              Save
+            </Button>
+          </Space>
+        ) : (
+          <Button type="primary" onClick={() => startEditing('new', NEW_RULE_TEMPLATE)}>New rule</Button>
+        )
+      )}
+    >
+      <Text type="secondary" style={{ display: 'block', marginBottom: '12px' }}>
+        Every new upload and watched-folder file is checked against these rules. A <b>status</b> rule
+        matches a status label (e.g. <Text code>FAILED</Text>) or, without one, any cell of its
+        {' '}<Text code>statusType</Text>; <b>error-count</b> matches more than <Text code>threshold</Text> error
+        cells; <b>sla-breach</b> matches breached SLA targets. <Text code>job</Text> limits a rule to one job.
+      </Text>
+
+      <div style={{ marginBottom: '12px' }}>
+        <Text style={{ marginRight: '8px' }}>Senders:</Text>
+        {senders.map((sender) => (
+          <Tag key={sender.id} color={sender.configured ? 'green' : 'default'}>
+            {sender.label}{sender.configured ? '' : ' (not set up)'}
+          </Tag>
+        ))}
+      </div>
+
+      {saveMutation.isError && (
+        <Alert
+          type="error"
+          showIcon
+          message={saveMutation.error.error}
+          description={saveMutation.error.details}
+          style={{ marginBottom: '12px' }}
+        />
+      )}
+
+      {editingId ? (
+        <Input.TextArea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          autoSize={{ minRows: 12 }}
+          style={{ fontFamily: 'monospace', fontSize: '12px' }}
+        />
+      ) : (
+        <Table
+          dataSource={rulesQuery.data || []}
+          columns={ruleColumns}
+          rowKey="id"
+          loading={rulesQuery.isLoading}
+          pagination={false}
+          size="small"
+          locale={{ emptyText: 'No alert rules yet' }}
+        />
+      )}
+
+      <Title level={5} style={{ marginTop: '24px' }}>Recent alerts</Title>
+      <Table
+        dataSource={alertsQuery.data?.entries || []}
+        columns={logColumns}
+        rowKey="id"
+        loading={alertsQuery.isLoading}
+        pagination={{ pageSize: 10, hideOnSinglePage: true }}
+        size="small"
+        locale={{ emptyText: 'Nothing has matched yet' }}
+      />
+    </Drawer>
+  );
+};
+
+export default AlertRulesDrawer;
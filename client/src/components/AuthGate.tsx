@@ -0,0 +1,127 @@
+import React, { useEffect } from 'react';
+import { Form, Input, Button, Alert, Row, Spin, Typography } from 'antd';
+import { LockOutlined, UserOutlined } from '@ant-design/icons';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getCurrentUser, login } from '../services/api';
+import { onServerEvent } from '../services/events';
+import { replaceCachedRow } from '../utils/reportRows';
+import { ApiError, LoginResponse } from '../types';
+
+const { Title, Text } = Typography;
+
+interface LoginValues {
+  username: string;
+  password: string;
+}
+
+const LoginForm: React.FC = () => {
+  const queryClient = useQueryClient();
+
+  const loginMutation = useMutation<LoginResponse, ApiError, LoginValues>({
+    mutationFn: ({ username, password }) => login(username, password),
+    onSuccess: ({ user }) => {
+      // Nothing cached for the previous user should leak into this session
+      queryClient.clear();
+      queryClient.setQueryData(['me'], user);
+    },
+  });
+
+  return (
+    <Row justify="center" align="middle" className="app-layout">
+      <div className="app-card" style={{ padding: '40px', borderRadius: '12px', width: '360px' }}>
+        <Title level={3} className="app-heading" style={{ marginBottom: '4px' }}>
+          Excel Data Viewer
+        </Title>
+        <Text type="secondary" style={{ display: 'block', marginBottom: '24px' }}>
+          Sign in to view and upload reports
+        </Text>
+
+        {loginMutation.isError && (
+          <Alert
+            type="error"
+            showIcon
+            message={loginMutation.error.error}
+            description={loginMutation.error.details}
+            style={{ marginBottom: '16px' }}
+          />
+        )}
+
+        <Form<LoginValues> layout="vertical" onFinish={(values) => loginMutation.mutate(values)} requiredMark={false}>
+          <Form.Item name="username" label="Username" rules={[{ required: true, message: 'Enter your username' }]}>
+            <Input prefix={<UserOutlined />} autoComplete="username" autoFocus />
+          </Form.Item>
+          <Form.Item name="password" label="Password" rules={[{ required: true, message: 'Enter your password' }]}>
+            <Input.Password prefix={<LockOutlined />} autoComplete="current-password" />
+          </Form.Item>
+          <Button type="primary" htmlType="submit" block loading={loginMutation.isPending}>
+            Sign in
+          </Button>
+        </Form>
+      </div>
+    </Row>
+  );
+};
+
+// Shows the sign-in form until there is a user, then the app with live updates switched on
+const AuthGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const queryClient = useQueryClient();
+
+  const meQuery = useQuery({
+    queryKey: ['me'],
+    queryFn: getCurrentUser,
+    staleTime: Infinity,
+  });
+
+  const userId = meQuery.data?.id;
+
+  // Keep cached lists and open reports in step with uploads from other viewers and the watched folder
+  useEffect(() => {
+    if (!userId) return undefined;
+    return onServerEvent((event) => {
+      if (event.type === 'ingestion') {
+        queryClient.invalidateQueries({ queryKey: ['ingestion'] });
+        return;
+      }
+      if (event.type === 'alert') {
+        queryClient.invalidateQueries({ queryKey: ['alerts'] });
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['reports'] });
+      queryClient.invalidateQueries({ queryKey: ['job-history'] });
+      if (event.type === 'report-updated') {
+        // Updates the grid in place when this report is open: the edited row comes with the event,
+        // and only the report's summary (not every page of rows) is fetched again
+        const { id } = event.report;
+        if (event.sheet && event.row) {
+          replaceCachedRow(queryClient, id, event.sheet, event.row);
+        } else {
+          queryClient.invalidateQueries({ queryKey: ['report', id, 'rows'] });
+        }
+        queryClient.invalidateQueries({ queryKey: ['report', id], exact: true });
+        queryClient.invalidateQueries({ queryKey: ['edits', id] });
+        queryClient.invalidateQueries({ queryKey: ['diff'] });
+      }
+    });
+  }, [userId, queryClient]);
+
+  if (meQuery.isLoading) {
+    return (
+      <Row justify="center" align="middle" style={{ minHeight: '100vh' }}>
+        <Spin size="large" />
+      </Row>
+    );
+  }
+
+  if (meQuery.isError) {
+    return (
+      <Row justify="center" align="middle" style={{ minHeight: '100vh' }}>
+        <Alert type="error" showIcon message="The server could not be reached" description="Reload the page to try again." />
+      </Row>
+    );
+  }
+
+  return meQuery.data ? <>{children}</> : <LoginForm />;
+};
+
+export default AuthGate;
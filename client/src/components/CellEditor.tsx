@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Popover, Input, Button, Space, Tooltip, Typography } from 'antd';
+import { EditOutlined } from '@ant-design/icons';
+import { CellEdit } from '../types';
+import { MAX_CELL_TEXT_LENGTH } from '../../../shared/edits';
+
+const { Text } = Typography;
+
+interface CellEditorProps {
+  value: string;
+  // Changes made to this cell, oldest first
+  history: CellEdit[];
+  // Leave out to show the history without an edit button
+  onSave?: (value: string) => Promise<unknown>;
+  // Notes get a multi-line box, status cells a single line
+  multiline?: boolean;
+  children: React.ReactNode;
+}
+
+const EditHistory: React.FC<{ history: CellEdit[] }> = ({ history }) => (
+  <div style={{ fontSize: '12px', maxWidth: '280px' }}>
+    {[...history].reverse().map((edit) => (
+      <div key={edit.id} style={{ marginBottom: '4px' }}>
+        <b>{edit.author}</b>, {new Date(edit.editedAt).toLocaleString()}
+        <div>
+          {edit.previousValue ? `"${edit.previousValue}"` : '(empty)'} → {edit.value ? `"${edit.value}"` : '(empty)'}
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+// A grid cell that can be changed in place and marks cells someone has changed
+const CellEditor: React.FC<CellEditorProps> = ({ value, history, onSave, multiline = false, children }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setDraft(value);
+    setOpen(next);
+  };
+
+  const handleSave = async () => {
+    if (!onSave) return;
+    setSaving(true);
+    try {
+      await onSave(draft.trim());
+      setOpen(false);
+    } catch {
+      // The caller reports the error; keep the editor open so nothing typed is lost
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editor = (
+    <div style={{ width: '260px' }}>
+      {multiline ? (
+        <Input.TextArea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          autoSize={{ minRows: 2, maxRows: 6 }}
+          maxLength={MAX_CELL_TEXT_LENGTH}
+          autoFocus
+        />
+      ) : (
+        <Input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onPressEnter={handleSave}
+          maxLength={MAX_CELL_TEXT_LENGTH}
+          autoFocus
+        />
+      )}
+      {history.length > 0 && (
+        <Text type="secondary" style={{ display: 'block', fontSize: '11px', marginTop: '4px' }}>
+          Last changed by {history[history.length - 1].author}
+        </Text>
+      )}
+      <Space style={{ marginTop: '8px', justifyContent: 'flex-end', width: '100%' }}>
+        <Button size="small" onClick={() => setOpen(false)}>Cancel</Button>
+        <Button size="small" type="primary" onClick={handleSave} loading={saving} disabled={draft.trim() === value}>
+          Save
+        </Button>
+      </Space>
+    </div>
+  );
+
+  return (
+    <div className="editable-cell">
+      {children}
+      {history.length > 0 && (
+        <Tooltip title={<EditHistory history={history} />}>
+          <span className="cell-edited-mark" />
+        </Tooltip>
+      )}
+      {onSave && (
+        <Popover content={editor} trigger="click" open={open} onOpenChange={handleOpenChange} placement="bottom">
+          <EditOutlined className="cell-edit-icon" />
+        </Popover>
+      )}
+    </div>
+  );
+};
+
+export default CellEditor;
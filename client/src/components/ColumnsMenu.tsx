@@ -0,0 +1,79 @@
+import React from 'react';
+import { Popover, Button, Checkbox, Tooltip, Typography } from 'antd';
+import { ArrowDownOutlined, ArrowUpOutlined, PushpinFilled, PushpinOutlined } from '@ant-design/icons';
+import { ColumnDef, ColumnLayout } from '../types';
+import { getLayoutOrder, isEmptyLayout } from '../../../shared/views';
+import { shiftColumn, toggleColumn } from '../utils/columnLayout';
+
+const { Text } = Typography;
+
+interface ColumnsMenuProps {
+  columns: ColumnDef[];
+  layout: ColumnLayout;
+  onChange: (layout: ColumnLayout) => void;
+}
+
+// Show, hide, pin and reorder columns; widths are changed by dragging a header's edge
+const ColumnsMenu: React.FC<ColumnsMenuProps> = ({ columns, layout, onChange }) => {
+  const order = getLayoutOrder(columns, layout);
+  const hidden = layout.hidden || [];
+  const pinned = layout.pinned || [];
+  // The last visible column can't be hidden
+  const visibleCount = order.filter((key) => !hidden.includes(key)).length;
+
+  const content = (
+    <div style={{ maxHeight: '360px', overflowY: 'auto', minWidth: '240px' }}>
+      {order.map((key, index) => (
+        <div key={key} style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '2px 0' }}>
+          <Checkbox
+            checked={!hidden.includes(key)}
+            disabled={!hidden.includes(key) && visibleCount === 1}
+            onChange={() => onChange(toggleColumn(layout, 'hidden', key))}
+            style={{ flex: 1 }}
+          >
+            <Text style={{ fontSize: '12px' }}>{key}</Text>
+          </Checkbox>
+          <Tooltip title={pinned.includes(key) ? 'Unpin' : 'Pin to the left'}>
+            <Button
+              size="small"
+              type="text"
+              icon={pinned.includes(key) ? <PushpinFilled /> : <PushpinOutlined />}
+              onClick={() => onChange(toggleColumn(layout, 'pinned', key))}
+            />
+          </Tooltip>
+          <Button
+            size="small"
+            type="text"
+            icon={<ArrowUpOutlined />}
+            disabled={index === 0}
+            onClick={() => onChange(shiftColumn(columns, layout, key, -1))}
+          />
+          <Button
+            size="small"
+            type="text"
+            icon={<ArrowDownOutlined />}
+            disabled={index === order.length - 1}
+            onClick={() => onChange(shiftColumn(columns, layout, key, 1))}
+          />
+        </div>
+      ))}
+      <Button
+        size="small"
+        type="link"
+        disabled={isEmptyLayout(layout)}
+        onClick={() => onChange({})}
+        style={{ padding: 0, marginTop: '8px' }}
+      >
+        Reset to the sheet's columns
+      </Button>
+    </div>
+  );
+
+  return (
+    <Popover content={content} title="Columns" trigger="click" placement="bottomLeft">
+      <Button size="small">Columns{hidden.length > 0 ? ` (${hidden.length} hidden)` : ''}</Button>
+    </Popover>
+  );
+};
+
+export default ColumnsMenu;
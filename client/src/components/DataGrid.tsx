@@ -1,228 +1,402 @@
-import React, { useMemo } from 'react';
-import { Table, Typography } from 'antd';
-import type { ColumnsType } from 'antd/es/table';
-import { ExcelRow } from '../types';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { flushSync } from 'react-dom';
+import { ConfigProvider, Table, Tooltip, Typography, Input, Switch, Space, Button, Spin } from 'antd';
+import type { ColumnsType, TableProps } from 'antd/es/table';
+import { CellEdit, ColumnDef, ColumnLayout, ExcelRow, GridFilters, ReportDiff, RowDiff } from '../types';
+import { getColumnKey, getSheetColumns, isPlainTimeCell } from '../../../shared/columns';
+import { compareRowCells, formatRowCell } from '../../../shared/cellValues';
+import { SlaState, describeSlaDelta } from '../../../shared/sla';
+import { applyColumnLayout } from '../../../shared/views';
+import { EMPTY_FILTERS, applyGridFilters, getStatusOptions, hasActiveFilters } from '../../../shared/gridFilters';
+import { clampColumnWidth, moveColumn, setColumnWidth } from '../utils/columnLayout';
+import { GRID_TABLE_THEME, getStatusColor } from '../theme/palettes';
+import { useTheme } from '../theme/useTheme';
+import CellEditor from './CellEditor';
+import ColumnsMenu from './ColumnsMenu';
+import '../styles/grid.css';
 
 const { Text } = Typography;
 
 interface DataGridProps {
   data: ExcelRow[];
+  // The sheet's column roles; inferred from the legacy keys when missing
+  columns?: ColumnDef[];
   loading?: boolean;
+  // When set, the grid shows these rows and highlights what changed
+  diff?: ReportDiff;
+  filters: GridFilters;
+  onFiltersChange: (filters: GridFilters) => void;
+  // Makes Job Details cells clickable, e.g. to open the job's history
+  onJobClick?: (job: string) => void;
+  // Changes made in the grid; edited cells are marked with their history
+  edits?: CellEdit[];
+  // Makes notes and status cells editable; not offered while comparing reports
+  onCellEdit?: (row: ExcelRow, column: string, value: string) => Promise<unknown>;
+  // Column order, visibility, pinning and widths; the sheet's own columns when empty
+  layout?: ColumnLayout;
+  // Makes columns reorderable, resizable and hideable
+  onLayoutChange?: (layout: ColumnLayout) => void;
 }
 
-const DataGrid: React.FC<DataGridProps> = ({ data, loading = false }) => {
+const SLA_LABELS: Record<SlaState, string> = {
+  'on-time': 'On time',
+  'at-risk': 'At risk',
+  breached: 'SLA breached',
+};
+
+const formatShift = (minutes: number) =>
+  `${Math.abs(minutes)} min ${minutes > 0 ? 'later' : 'earlier'}`;
+
+// Above this many rows only the rows in view are rendered
+const VIRTUAL_ROW_THRESHOLD = 500;
+
+// Height of the grid's own scroll area when it is virtualised, following the window
+const useVirtualBodyHeight = () => {
+  const measure = () => Math.max(320, Math.round(window.innerHeight * 0.7));
+  const [height, setHeight] = useState(measure);
+  useEffect(() => {
+    const handleResize = () => setHeight(measure());
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+  return height;
+};
+
+// True while the page prints; a virtualised grid would only print the rows in view
+const usePrinting = () => {
+  const [printing, setPrinting] = useState(false);
+  useEffect(() => {
+    // Rendered straight away so the printed page is laid out with every row
+    const handleBeforePrint = () => flushSync(() => setPrinting(true));
+    const handleAfterPrint = () => setPrinting(false);
+    window.addEventListener('beforeprint', handleBeforePrint);
+    window.addEventListener('afterprint', handleAfterPrint);
+    return () => {
+      window.removeEventListener('beforeprint', handleBeforePrint);
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+  }, []);
+  return printing;
+};
+
+// Marks a header drag as a column move, so text or files dropped on the header are ignored
+const COLUMN_DRAG_TYPE = 'application/x-grid-column';
+
+interface HeaderCellProps extends React.ThHTMLAttributes<HTMLTableCellElement> {
+  columnKey?: string;
+  width?: number;
+  onResize?: (width: number) => void;
+  onMove?: (key: string, targetKey: string) => void;
+}
+
+// Header cell that can be dragged onto another to move its column, with a handle on its right edge for resizing
+const HeaderCell: React.FC<HeaderCellProps> = ({ columnKey, width, onResize, onMove, className, children, ...rest }) => {
+  const [dropTarget, setDropTarget] = useState(false);
+  if (!columnKey || !onResize || !onMove) {
+    return <th className={className} {...rest}>{children}</th>;
+  }
+
+  const startResize = (event: React.MouseEvent) => {
+    // Keeps the browser from starting a column drag
+    event.preventDefault();
+    event.stopPropagation();
+    const startX = event.clientX;
+    const startWidth = width || 0;
+    const handleMove = (moveEvent: MouseEvent) => onResize(clampColumnWidth(startWidth + moveEvent.clientX - startX));
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  return (
+    <th
+      {...rest}
+      className={[className, dropTarget ? 'grid-header-drop' : ''].join(' ').trim()}
+      draggable
+      onDragStart={(event) => event.dataTransfer.setData(COLUMN_DRAG_TYPE, columnKey)}
+      onDragOver={(event) => {
+        if (!event.dataTransfer.types.includes(COLUMN_DRAG_TYPE)) return;
+        event.preventDefault();
+        setDropTarget(true);
+      }}
+      onDragLeave={() => setDropTarget(false)}
+      onDrop={(event) => {
+        setDropTarget(false);
+        const key = event.dataTransfer.getData(COLUMN_DRAG_TYPE);
+        if (key && key !== columnKey) onMove(key, columnKey);
+      }}
+    >
+      {children}
+      {/* Clicks on the handle would otherwise sort the column */}
+      <span className="grid-resize-handle" onMouseDown={startResize} onClick={(event) => event.stopPropagation()} />
+    </th>
+  );
+};
+
+const tableComponents = { header: { cell: HeaderCell } };
+
+const DataGrid: React.FC<DataGridProps> = ({
+  data,
+  columns: sheetColumns,
+  loading = false,
+  diff,
+  filters,
+  onFiltersChange,
+  onJobClick,
+  edits,
+  onCellEdit,
+  layout,
+  onLayoutChange,
+}) => {
+  const { statusColors } = useTheme();
+  // Diff entries looked up by the row object they render
+  const diffByRow = useMemo(() => {
+    const map = new Map<ExcelRow, RowDiff>();
+    diff?.rows.forEach((rowDiff) => {
+      const row = rowDiff.after || rowDiff.before;
+      if (row) map.set(row, rowDiff);
+    });
+    return map;
+  }, [diff]);
+
+  // Edit history by row id and column
+  const editsByCell = useMemo(() => {
+    const map = new Map<string, CellEdit[]>();
+    (edits || []).forEach((edit) => {
+      const cellKey = `${edit.rowId}|${edit.column}`;
+      map.set(cellKey, [...(map.get(cellKey) || []), edit]);
+    });
+    return map;
+  }, [edits]);
+
+  const sourceRows = useMemo(() => (diff ? Array.from(diffByRow.keys()) : data) || [], [data, diff, diffByRow]);
+  const columnDefs = useMemo(() => getSheetColumns(sourceRows, sheetColumns), [sourceRows, sheetColumns]);
+  const laidOutColumns = useMemo(() => applyColumnLayout(columnDefs, layout), [columnDefs, layout]);
+
   // Clean and validate data
   const cleanData = useMemo(() => {
-    if (!data || data.length === 0) return [];
+    const idKey = getColumnKey(columnDefs, 'id');
+    const titleKey = getColumnKey(columnDefs, 'title');
+    if (sourceRows.length === 0 || !idKey || !titleKey) return [];
     
     // Sort by rowNumber to ensure proper order
-    return [...data]
-      .filter(row => row && row['S.No'] && row['Job Details'])
+    return [...sourceRows]
+      .filter(row => row && row[idKey] && row[titleKey])
       .sort((a, b) => (a.rowNumber || 0) - (b.rowNumber || 0));
-  }, [data]);
+  }, [sourceRows, columnDefs]);
 
-  if (!cleanData || cleanData.length === 0) {
-    return (
-      <div style={{ padding: '20px', textAlign: 'center' }}>
-        <Typography.Text>No data to display</Typography.Text>
-      </div>
-    );
-  }
+  const statusOptions = useMemo(() => getStatusOptions(cleanData, columnDefs), [cleanData, columnDefs]);
+  const visibleData = useMemo(
+    () => applyGridFilters(cleanData, filters, columnDefs),
+    [cleanData, filters, columnDefs]
+  );
 
-  // Render status indicators with enhanced colors
-  const renderStatusCell = (value: any, record: ExcelRow, columnKey: string) => {
+  // Render status indicators in the theme's status palette, or the colour from the server's status rules
+  const renderStatusCell = useCallback((value: any, record: ExcelRow, columnKey: string) => {
     const colorKey = `${columnKey}_color`;
     const typeKey = `${columnKey}_type`;
     
-    const originalColor = record[colorKey] || '#666666';
     const type = record[typeKey] || '';
+    const statusColor = getStatusColor(statusColors, type, record[colorKey]);
 
-    // For time values, show just the text
-    if (type === 'time' || (value && value.toString().includes(':'))) {
-      return (
-        <span 
-          className="status-text"
-          style={{ 
-            fontSize: '10px',
-            color: '#333',
-            fontWeight: '600',
-            whiteSpace: 'nowrap', // Prevent text wrapping
-            textAlign: 'center'
-          }}>
-          {value || ''}
-        </span>
-      );
-    }
-
-    // Enhanced darker colors for better contrast against light backgrounds
-    let statusColor = originalColor;
-    if (type === 'error') {
-      statusColor = '#D32F2F'; // Dark red for better contrast
-    } else if (type === 'warning') {
-      statusColor = '#F57C00'; // Dark orange for better contrast
-    } else if (type === 'success') {
-      statusColor = '#388E3C'; // Dark green for consistency
+    // Plain time values show just the text; times flagged by a rule keep their indicator
+    if (isPlainTimeCell(value, type)) {
+      return <span className="status-text status-text-plain">{value || ''}</span>;
     }
 
     // For status values with colors
-    return (
-      <div style={{ 
-        display: 'flex', 
-        alignItems: 'center', 
-        justifyContent: 'center',
-        gap: '4px',
-        padding: '1px 0'
-      }}>
-        <div
-          className="status-circle"
-          style={{
-            width: '12px', // Much larger for mobile visibility
-            height: '12px',
-            borderRadius: '50%',
-            backgroundColor: statusColor,
-            flexShrink: 0,
-            boxShadow: '0 1px 3px rgba(0,0,0,0.2)', // Stronger shadow for depth
-            border: '1px solid rgba(255,255,255,0.3)' // Subtle border for definition
-          }}
-        />
-        <span 
-          className="status-text"
-          style={{ 
-            fontSize: '11px', // Slightly larger for better readability
-            color: '#333',
-            fontWeight: '600',
-            whiteSpace: 'nowrap', // Prevent text wrapping
-            textAlign: 'center'
-          }}>
-          {value || ''}
-        </span>
+    const indicator = (
+      <div className="status-indicator">
+        <div className={`status-circle status-circle-${type}`} style={{ backgroundColor: statusColor }} />
+        <span className="status-text">{value || ''}</span>
       </div>
     );
-  };
+
+    // Times checked against an SLA target say how late or early they were
+    const slaState: SlaState | undefined = record[`${columnKey}_sla`];
+    if (!slaState) return indicator;
+    return (
+      <Tooltip title={`${SLA_LABELS[slaState]}: ${describeSlaDelta(record[`${columnKey}_slaDelta`] ?? 0)}`}>
+        {indicator}
+      </Tooltip>
+    );
+  }, [statusColors]);
+
+  // Highlight a changed cell and show the before/after values on hover
+  const renderDiffCell = useCallback((content: React.ReactNode, record: ExcelRow, columnKey: string) => {
+    const cell = diffByRow.get(record)?.cells.find((change) => change.column === columnKey);
+    if (!cell) return content;
+
+    return (
+      <Tooltip
+        title={
+          <div style={{ fontSize: '12px' }}>
+            <div>Before: {String(cell.before || '—')}</div>
+            <div>After: {String(cell.after || '—')}</div>
+            {cell.timeShiftMinutes ? <div>{formatShift(cell.timeShiftMinutes)}</div> : null}
+          </div>
+        }
+      >
+        <div className={`diff-cell ${cell.regression ? 'diff-cell-regression' : ''}`}>
+          {content}
+        </div>
+      </Tooltip>
+    );
+  }, [diffByRow]);
+
+  // Notes and status cells with their edit history, and an editor when editing is allowed
+  const renderEditableCell = useCallback((content: React.ReactNode, record: ExcelRow, column: ColumnDef) => {
+    const history = editsByCell.get(`${record.id}|${column.key}`) || [];
+    const canEdit = !!onCellEdit && !diff;
+    if (!canEdit && history.length === 0) return content;
+
+    return (
+      <CellEditor
+        value={String(record[column.key] ?? '')}
+        history={history}
+        onSave={canEdit ? (value) => onCellEdit(record, column.key, value) : undefined}
+        multiline={column.role === 'notes'}
+      >
+        {content}
+      </CellEditor>
+    );
+  }, [editsByCell, onCellEdit, diff]);
+
+  const handleResize = useCallback(
+    (key: string) => (width: number) => onLayoutChange?.(setColumnWidth(layout || {}, key, width)),
+    [layout, onLayoutChange]
+  );
+  const handleMove = useCallback(
+    (key: string, targetKey: string) => onLayoutChange?.(moveColumn(columnDefs, layout || {}, key, targetKey)),
+    [columnDefs, layout, onLayoutChange]
+  );
 
   // Generate columns dynamically
   const columns: ColumnsType<ExcelRow> = useMemo(() => {
     if (cleanData.length === 0) return [];
 
-    // Get all unique column keys
-    const allKeys = Object.keys(cleanData[0] || {}).filter(key => {
-      // Exclude metadata and status keys
-      if (['id', 'uploadDate', 'rowNumber'].includes(key)) return false;
-      if (key.includes('_status') || key.includes('_color') || key.includes('_type')) return false;
-      return true;
-    });
+    return laidOutColumns.map((column, index) => {
+      const { key, role } = column;
+      const isSerialNumber = role === 'id';
+      const isJobDetails = role === 'title';
+      const isComments = role === 'notes';
 
-    // Define column order
-    const orderedKeys = [];
-    if (allKeys.includes('S.No')) orderedKeys.push('S.No');
-    if (allKeys.includes('Job Details')) orderedKeys.push('Job Details');
-    
-    // Add other columns in order
-    allKeys.forEach(key => {
-      if (!['S.No', 'Job Details', 'Comments'].includes(key)) {
-        orderedKeys.push(key);
-      }
-    });
-    
-    // Add Comments at the end
-    if (allKeys.includes('Comments')) orderedKeys.push('Comments');
+      const renderCell = (_value: any, record: ExcelRow) => {
+        // Dates, times and durations are shown from their typed value
+        // (cells are styled by class: a big sheet renders thousands of them)
+        const text = formatRowCell(record, key);
 
-    return orderedKeys.map((key, index) => {
-      const isSerialNumber = key === 'S.No';
-      const isJobDetails = key === 'Job Details';
-      const isComments = key === 'Comments';
+        if (isSerialNumber) {
+          return (
+            <div className="grid-cell grid-cell-id">
+              <span className="grid-id-text">{text}</span>
+            </div>
+          );
+        }
+        
+        if (isJobDetails && onJobClick && text) {
+          return (
+            <div className="grid-cell grid-cell-text">
+              <Typography.Link className="grid-link" onClick={() => onJobClick(String(text))}>
+                {text}
+              </Typography.Link>
+            </div>
+          );
+        }
+
+        if (isJobDetails || isComments) {
+          const content = (
+            <div className="grid-cell grid-cell-text">
+              <span className="grid-text">{text || (isComments ? '' : 'N/A')}</span>
+            </div>
+          );
+          return isComments ? renderEditableCell(content, record, column) : content;
+        }
+
+        // Status column with a light tint of the rule colour for errors and warnings
+        const type = record[`${key}_type`] || '';
+        const color = getStatusColor(statusColors, type, record[`${key}_color`]);
+        
+        let cellBackground = 'transparent';
+        if ((type === 'error' || type === 'warning') && /^#[0-9a-fA-F]{6}$/.test(color)) {
+          cellBackground = `${color}1F`;
+        }
+        
+        return renderEditableCell(
+          <div className="grid-cell grid-cell-status" style={{ backgroundColor: cellBackground }}>
+            {renderStatusCell(text, record, key)}
+          </div>,
+          record,
+          column
+        );
+      };
 
       return {
-        title: (
-          <div style={{
-            fontSize: '11px',
-            fontWeight: 600,
-            color: '#ffffff',
-            textAlign: 'center',
-            padding: '4px 6px',
-            lineHeight: '1.2'
-          }}>
-            {key}
-          </div>
-        ),
+        title: <div className="grid-header">{key}</div>,
         dataIndex: key,
         key: `col-${index}-${key}`,
-        width: isSerialNumber ? 50 : isJobDetails ? 200 : isComments ? 150 : 140,
-        render: (text: any, record: ExcelRow) => {
-          const cellStyle = {
-            padding: '3px 6px',
-            minHeight: '26px',
-            fontSize: '12px',
-            lineHeight: '1.2',
-            color: '#202124',
-            display: 'flex',
-            alignItems: 'center',
-            wordBreak: 'break-word' as const,
-            whiteSpace: 'normal' as const,
-          };
-
-          if (isSerialNumber) {
-            return (
-              <div style={{ ...cellStyle, justifyContent: 'center', background: '#F1F3F4', fontWeight: 700 }}>
-                <Text style={{ fontSize: '14px', color: '#2C3E50', fontWeight: 700 }}>
-                  {text}
-                </Text>
-              </div>
-            );
-          }
-          
-          if (isJobDetails || isComments) {
-            return (
-              <div style={{ ...cellStyle, justifyContent: 'flex-start', paddingLeft: '6px' }}>
-                <Text style={{ 
-                  fontSize: '11px', 
-                  fontWeight: 400, 
-                  color: '#202124',
-                  wordBreak: 'break-word',
-                  whiteSpace: 'normal',
-                  width: '100%'
-                }}>
-                  {text || (isComments ? '' : 'N/A')}
-                </Text>
-              </div>
-            );
-          }
-
-          // Status column with highlighted background
-          const typeKey = `${key}_type`;
-          const type = record[typeKey] || '';
-          
-          let cellBackground = 'transparent';
-          if (type === 'error') {
-            cellBackground = '#FFEBEE'; // Light red background
-          } else if (type === 'warning') {
-            cellBackground = '#FFF8E1'; // Light yellow background  
-          }
-          
-          return (
-            <div style={{ 
-              ...cellStyle, 
-              justifyContent: 'center',
-              backgroundColor: cellBackground,
-              borderRadius: '3px', // Subtle rounded corners for highlight
-              margin: '1px', // Small margin to show the highlight better
-              whiteSpace: 'nowrap', // Prevent text wrapping
-              overflow: 'hidden', // Hide overflow if needed
-              textOverflow: 'ellipsis', // Add ellipsis for very long text
-            }}>
-              {renderStatusCell(text, record, key)}
-            </div>
-          );
-        },
-        sorter: isSerialNumber ? (a: ExcelRow, b: ExcelRow) => {
-          const aNum = Number(a[key]) || 0;
-          const bNum = Number(b[key]) || 0;
-          return aNum - bNum;
-        } : undefined,
+        width: column.width,
+        fixed: column.pinned ? 'left' as const : undefined,
+        className: `grid-col-${role}`,
+        onHeaderCell: () => ({
+          columnKey: onLayoutChange ? key : undefined,
+          width: column.width,
+          onResize: handleResize(key),
+          onMove: handleMove,
+        } as React.HTMLAttributes<HTMLElement>),
+        render: (text: any, record: ExcelRow) => renderDiffCell(renderCell(text, record), record, key),
+        sorter: (a: ExcelRow, b: ExcelRow) => compareRowCells(a, b, key),
+        // Filtering happens in visibleData so the URL stays the single source of truth
+        ...(role === 'status' && statusOptions[key] ? {
+          filters: statusOptions[key].map((label) => ({ text: label, value: label })),
+          filteredValue: filters.status[key] || null,
+          filterSearch: statusOptions[key].length > 8,
+        } : {}),
         ellipsis: false,
       };
     });
-  }, [cleanData, renderStatusCell]);
+  }, [cleanData, laidOutColumns, statusOptions, filters.status, renderStatusCell, renderDiffCell, renderEditableCell, onJobClick, onLayoutChange, handleResize, handleMove, statusColors]);
+
+  const printing = usePrinting();
+  const virtual = !printing && visibleData.length > VIRTUAL_ROW_THRESHOLD;
+  const virtualBodyHeight = useVirtualBodyHeight();
+  // A virtual body needs the full width up front to line its cells up with the header
+  const tableWidth = useMemo(
+    () => laidOutColumns.reduce((total, column) => total + column.width, 0),
+    [laidOutColumns]
+  );
+  // Widths set by resizing only hold in a fixed table layout
+  const fixedWidths = virtual || Object.keys(layout?.widths || {}).length > 0;
+
+  const handleTableChange: TableProps<ExcelRow>['onChange'] = (_pagination, tableFilters) => {
+    const status: Record<string, string[]> = {};
+    columns.forEach((column) => {
+      const values = tableFilters[String(column.key)];
+      const dataIndex = 'dataIndex' in column ? String(column.dataIndex) : '';
+      if (dataIndex && values && values.length > 0) {
+        status[dataIndex] = values.map(String);
+      }
+    });
+    onFiltersChange({ ...filters, status });
+  };
+
+  if (!cleanData || cleanData.length === 0) {
+    if (loading) {
+      return (
+        <div style={{ padding: '40px', textAlign: 'center' }}>
+          <Spin />
+        </div>
+      );
+    }
+    return (
+      <div style={{ padding: '20px', textAlign: 'center' }}>
+        <Typography.Text>No data to display</Typography.Text>
+      </div>
+    );
+  }
 
   return (
     <div style={{ 
@@ -232,355 +406,72 @@ const DataGrid: React.FC<DataGridProps> = ({ data, loading = false }) => {
       flexDirection: 'column',
       position: 'relative'
     }}>
+      <Space wrap className="no-print" style={{ marginBottom: '8px' }}>
+        {onLayoutChange && <ColumnsMenu columns={columnDefs} layout={layout || {}} onChange={onLayoutChange} />}
+        <Input.Search
+          allowClear
+          placeholder="Search job details and comments"
+          value={filters.search}
+          onChange={(event) => onFiltersChange({ ...filters, search: event.target.value })}
+          style={{ width: '280px' }}
+          size="small"
+        />
+        <Space size={6}>
+          <Switch
+            size="small"
+            checked={filters.problemsOnly}
+            onChange={(checked) => onFiltersChange({ ...filters, problemsOnly: checked })}
+          />
+          <Text style={{ fontSize: '12px' }}>Only rows with errors or warnings</Text>
+        </Space>
+        {hasActiveFilters(filters) && (
+          <>
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              Showing {visibleData.length} of {cleanData.length} rows
+            </Text>
+            <Button size="small" type="link" onClick={() => onFiltersChange(EMPTY_FILTERS)}>
+              Clear filters
+            </Button>
+          </>
+        )}
+      </Space>
+
       <div 
         className="table-scroll-container" 
         style={{ 
-          overflow: 'auto', 
-          maxHeight: '80vh',
-          width: '100%',
-          /* Remove minWidth to prevent horizontal scrollbars */
-          backgroundColor: 'white',
-          border: '1px solid #d0d7de'
+          // A virtualised table scrolls its own body
+          overflow: virtual ? 'visible' : 'auto', 
+          maxHeight: virtual ? undefined : '80vh',
         }}
       >
-        <Table
-          dataSource={cleanData}
-          columns={columns}
-          rowKey={(record) => `${record.id}-${record.rowNumber}-${record['S.No']}`}
-          pagination={false}
-          size="small"
-          bordered={true}
-          loading={loading}
-          className="excel-table"
-          tableLayout="auto" /* Changed to auto for responsive layout */
-          scroll={{ x: 'max-content' }} /* Responsive horizontal scroll */
-        />
+        <ConfigProvider theme={GRID_TABLE_THEME}>
+          <Table
+            dataSource={visibleData}
+            columns={columns}
+            onChange={handleTableChange}
+            rowKey={(record) => {
+              // A removed row and an added one can share an id; diff keys are unique across both reports
+              const rowDiff = diffByRow.get(record);
+              return rowDiff ? `diff:${rowDiff.key}` : `${record.id}-${record.rowNumber}`;
+            }}
+            pagination={false}
+            size="small"
+            bordered={true}
+            loading={loading}
+            rowClassName={(record, index) => {
+              const change = diffByRow.get(record)?.change;
+              // Only rows in view are in the DOM when virtualised, so :nth-child can't stripe them
+              const stripe = virtual && index % 2 === 1 ? 'grid-row-even' : '';
+              return [change === 'added' || change === 'removed' ? `diff-row-${change}` : '', stripe].join(' ').trim();
+            }}
+            className="excel-table"
+            components={onLayoutChange ? tableComponents : undefined}
+            virtual={virtual}
+            tableLayout={fixedWidths ? 'fixed' : 'auto'} /* Auto for responsive layout on smaller sheets */
+            scroll={virtual ? { x: tableWidth, y: virtualBodyHeight } : { x: fixedWidths ? tableWidth : 'max-content' }}
+          />
+        </ConfigProvider>
       </div>
-      
-      <style>{`
-        .excel-table {
-          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-          font-size: 11px;
-          border-collapse: collapse;
-          width: 100%;
-        }
-        
-        .excel-table .ant-table-thead > tr > th {
-          background: #4472C4 !important;
-          color: #ffffff !important;
-          font-weight: 600;
-          text-align: center;
-          padding: 4px 6px !important;
-          height: 32px;
-          font-size: 11px;
-          line-height: 1.2;
-          border: 1px solid #2F4F8F !important;
-        }
-        
-        .excel-table .ant-table-tbody > tr > td {
-          padding: 3px 6px !important;
-          min-height: 24px;
-          font-size: 11px;
-          line-height: 1.2;
-          background: #ffffff;
-          border: 1px solid #d0d7de !important;
-        }
-        
-        .excel-table .ant-table-tbody > tr:nth-child(even) > td {
-          background: #F8F9FA !important;
-        }
-        
-        .excel-table .ant-table-tbody > tr:hover > td {
-          background: #e6f3ff !important;
-        }
-        
-        .excel-table .ant-table-container {
-          border: 1px solid #d0d7de !important;
-        }
-        
-        .excel-table .ant-table-content {
-          overflow: visible !important;
-        }
-        
-        /* Ensure print/capture quality */
-        @media print {
-          .excel-table {
-            break-inside: avoid;
-          }
-          
-          .excel-table .ant-table-tbody > tr {
-            break-inside: avoid;
-          }
-          
-          .table-scroll-container {
-            height: auto !important;
-            overflow: visible !important;
-          }
-        }
-        
-        /* For image capture */
-        .excel-table .ant-table-tbody > tr > td:first-child {
-          background: #F1F3F4 !important;
-          font-weight: 500;
-          color: #5f6368 !important;
-          text-align: center;
-          width: 50px;
-          min-width: 50px;
-          max-width: 50px;
-        }
-        
-        .excel-table .ant-table-thead > tr > th:first-child {
-          background: #4472C4 !important;
-          color: #ffffff !important;
-          text-align: center;
-          width: 50px;
-          min-width: 50px;
-          max-width: 50px;
-        }
-        
-        /* For image capture - remove any height restrictions */
-        .image-capture-mode .table-scroll-container {
-          height: auto !important;
-          overflow: visible !important;
-          width: auto !important;
-          min-width: 100% !important;
-          max-width: none !important;
-        }
-        
-        .image-capture-mode .ant-table-body {
-          height: auto !important;
-          overflow: visible !important;
-          width: auto !important;
-        }
-        
-        .image-capture-mode .ant-table-container {
-          height: auto !important;
-          overflow: visible !important;
-          width: auto !important;
-          min-width: 100% !important;
-        }
-        
-        .image-capture-mode .ant-table {
-          width: auto !important;
-          min-width: 100% !important;
-          table-layout: auto !important;
-        }
-        
-        .image-capture-mode .ant-table-content {
-          overflow: visible !important;
-          width: auto !important;
-        }
-        
-        .image-capture-mode .ant-table-thead,
-        .image-capture-mode .ant-table-tbody {
-          width: auto !important;
-        }
-        
-
-        
-
-
-        /* Main table styling - Excel-like compact appearance */
-        .excel-table .ant-table {
-          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-          font-size: 11px;
-          border-collapse: collapse;
-          width: 100%;
-          /* Remove min-width to prevent scrollbars on home screen */
-        }
-        
-        /* Header styling - different colors for different column types */
-        .excel-table .ant-table-thead > tr > th {
-          font-weight: 700; /* Made bolder */
-          font-size: 11px;
-          padding: 4px 8px;
-          text-align: center;
-          border: 1px solid #ffffff;
-          height: 25px;
-          line-height: 1.2;
-          white-space: normal;
-          word-wrap: break-word;
-          color: white !important;
-        }
-        
-        /* Job Details header - Professional navy background */
-        .excel-table .ant-table-thead > tr > th:nth-child(2) {
-          background-color: #34495E !important;
-          color: white !important;
-          font-size: 15px !important;
-          font-weight: 800 !important;
-          text-align: center !important;
-        }
-        
-        /* Time-based column headers - Professional navy background */
-        .excel-table .ant-table-thead > tr > th:not(:first-child):not(:nth-child(2)):not(:last-child) {
-          background-color: #34495E !important;
-          color: white !important;
-          font-size: 15px !important;
-          font-weight: 800 !important;
-          text-align: center !important;
-        }
-        
-        /* S.No and Comments headers - Professional navy */
-        .excel-table .ant-table-thead > tr > th:first-child,
-        .excel-table .ant-table-thead > tr > th:last-child {
-          background-color: #34495E !important;
-          color: white !important;
-          font-size: 15px !important;
-          font-weight: 800 !important;
-          text-align: center !important;
-        }
-        
-        /* Cell styling - compact Excel appearance with bold text */
-        .excel-table .ant-table-tbody > tr > td {
-          padding: 2px 6px;
-          font-size: 10px;
-          font-weight: 600; /* Made bold */
-          min-height: 20px;
-          border: 1px solid #d0d7de;
-          text-align: center;
-          vertical-align: middle;
-          line-height: 1.2;
-          background-color: white;
-        }
-        
-        /* Alternating row colors like Excel */
-        .excel-table .ant-table-tbody > tr:nth-child(even) > td {
-          background-color: #f8f9fa;
-        }
-        
-        /* Row number column - compact */
-        .excel-table .ant-table-tbody > tr > td:first-child {
-          background-color: #f0f0f0;
-          font-weight: 700; /* Extra bold for row numbers */
-          color: #333;
-          width: 40px;
-          min-width: 40px;
-          font-size: 10px;
-        }
-        
-        /* Job Details column - wider for content */
-        .excel-table .ant-table-thead > tr > th:nth-child(2),
-        .excel-table .ant-table-tbody > tr > td:nth-child(2) {
-          width: 300px;
-          min-width: 300px;
-          text-align: left;
-          padding-left: 8px;
-          font-size: 10px;
-          font-weight: 600; /* Bold for better readability */
-        }
-        
-        /* Comments column - wider */
-        .excel-table .ant-table-thead > tr > th:last-child,
-        .excel-table .ant-table-tbody > tr > td:last-child {
-          width: 200px;
-          min-width: 200px;
-          text-align: left;
-          padding-left: 8px;
-          font-size: 10px;
-          font-weight: 600; /* Bold for better readability */
-        }
-        
-        /* Time-based status columns - compact */
-        .excel-table .ant-table-thead > tr > th:not(:first-child):not(:nth-child(2)):not(:last-child),
-        .excel-table .ant-table-tbody > tr > td:not(:first-child):not(:nth-child(2)):not(:last-child) {
-          width: 90px;
-          min-width: 90px;
-          font-size: 10px;
-        }
-
-        /* Image capture mode - maintain compact Excel appearance */
-        .image-capture-mode .excel-table .ant-table-thead > tr > th {
-          font-size: 11px !important;
-          font-weight: 700 !important; /* Bold headers */
-          padding: 4px 8px !important;
-          height: 25px !important;
-          line-height: 1.2 !important;
-        }
-        
-        .image-capture-mode .excel-table .ant-table-tbody > tr > td {
-          font-size: 13px !important;
-          font-weight: 600 !important; /* Bold text */
-          padding: 4px 8px !important;
-          min-height: 24px !important;
-          line-height: 1.3 !important;
-        }
-        
-        .image-capture-mode .excel-table .ant-table-tbody > tr > td:first-child {
-          font-size: 10px !important;
-          font-weight: 700 !important; /* Extra bold for row numbers */
-          padding: 2px 6px !important;
-        }
-        
-        /* Larger text for image capture mode */
-        .image-capture-mode .status-text {
-          font-size: 14px !important;
-          font-weight: 700 !important;
-          white-space: nowrap !important;
-        }
-
-        /* Larger headers for image capture mode */
-        .image-capture-mode .excel-table .ant-table-thead > tr > th {
-          font-size: 22px !important;
-          font-weight: 900 !important;
-          white-space: nowrap !important;
-          padding: 8px 12px !important;
-        }
-
-        /* Larger first column (S.No) for image capture mode */
-        .image-capture-mode .excel-table .ant-table-tbody > tr > td:first-child .ant-typography {
-          font-size: 16px !important;
-          font-weight: 800 !important;
-        }
-
-        /* Larger Job Details column for image capture mode */
-        .image-capture-mode .excel-table .ant-table-tbody > tr > td:nth-child(2) .ant-typography {
-          font-size: 16px !important;
-          font-weight: 700 !important;
-          line-height: 1.3 !important;
-        }
-
-        /* Larger Job Details column content for image capture mode */
-        .image-capture-mode .excel-table .ant-table-tbody > tr > td:nth-child(2) {
-          font-size: 16px !important;
-          font-weight: 700 !important;
-          padding: 6px 8px !important;
-          line-height: 1.3 !important;
-        }
-        
-        /* Larger circles for image capture mode */
-        .image-capture-mode .status-circle {
-          width: 16px !important;
-          height: 16px !important;
-          box-shadow: 0 2px 4px rgba(0,0,0,0.4) !important;
-          border: 2px solid rgba(255,255,255,0.6) !important;
-        }
-        
-        /* Compact column widths for image capture */
-        .image-capture-mode .excel-table .ant-table-thead > tr > th:first-child,
-        .image-capture-mode .excel-table .ant-table-tbody > tr > td:first-child {
-          width: 40px !important;
-          min-width: 40px !important;
-        }
-        
-        .image-capture-mode .excel-table .ant-table-thead > tr > th:nth-child(2),
-        .image-capture-mode .excel-table .ant-table-tbody > tr > td:nth-child(2) {
-          width: 300px !important;
-          min-width: 300px !important;
-        }
-        
-        .image-capture-mode .excel-table .ant-table-thead > tr > th:last-child,
-        .image-capture-mode .excel-table .ant-table-tbody > tr > td:last-child {
-          width: 200px !important;
-          min-width: 200px !important;
-        }
-        
-        .image-capture-mode .excel-table .ant-table-thead > tr > th:not(:first-child):not(:nth-child(2)):not(:last-child),
-        .image-capture-mode .excel-table .ant-table-tbody > tr > td:not(:first-child):not(:nth-child(2)):not(:last-child) {
-          width: 90px !important;
-          min-width: 90px !important;
-        }
-      `}</style>
     </div>
   );
 };
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Select, Space, Tag, Typography, Spin } from 'antd';
+import { SwapOutlined } from '@ant-design/icons';
+import { useQuery } from '@tanstack/react-query';
+import { listReports } from '../services/api';
+import { DiffSummary } from '../types';
+
+const { Text } = Typography;
+
+interface DiffToolbarProps {
+  reportId: string;
+  compareWith: string | null;
+  onCompareWithChange: (id: string | null) => void;
+  summary?: DiffSummary;
+  loading?: boolean;
+}
+
+const DiffToolbar: React.FC<DiffToolbarProps> = ({
+  reportId,
+  compareWith,
+  onCompareWithChange,
+  summary,
+  loading = false,
+}) => {
+  const reportsQuery = useQuery({
+    queryKey: ['reports'],
+    queryFn: listReports,
+  });
+
+  const options = (reportsQuery.data || [])
+    .filter((report) => report.id !== reportId)
+    .map((report) => ({
+      value: report.id,
+      label: `${report.fileName} • ${new Date(report.uploadDate).toLocaleString()}`,
+    }));
+
+  return (
+    <Space wrap style={{ marginBottom: '12px' }}>
+      <SwapOutlined style={{ color: 'var(--app-heading)' }} />
+      <Text strong className="app-heading">Compare with</Text>
+      <Select
+        allowClear
+        placeholder="Select an earlier report"
+        value={compareWith}
+        onChange={(value) => onCompareWithChange(value || null)}
+        options={options}
+        loading={reportsQuery.isLoading}
+        style={{ minWidth: '320px' }}
+        size="small"
+      />
+      {loading && <Spin size="small" />}
+      {summary && (
+        <>
+          <Tag color="green">+{summary.added} added</Tag>
+          <Tag color="red">−{summary.removed} removed</Tag>
+          <Tag color="gold">{summary.changed} changed</Tag>
+          <Tag color={summary.regressions > 0 ? 'red' : 'default'}>{summary.regressions} new failures</Tag>
+          <Tag color={summary.recoveries > 0 ? 'green' : 'default'}>{summary.recoveries} recovered</Tag>
+          <Tag color={summary.slipped > 0 ? 'orange' : 'default'}>{summary.slipped} timings slipped</Tag>
+        </>
+      )}
+    </Space>
+  );
+};
+
+export default DiffToolbar;
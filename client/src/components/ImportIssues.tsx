@@ -0,0 +1,90 @@
+import React from 'react';
+import { Collapse, Table, Tag, Typography } from 'antd';
+import { WarningOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import { ImportIssue } from '../types';
+
+const { Text } = Typography;
+
+interface ImportIssuesProps {
+  issues: ImportIssue[];
+}
+
+const columns: ColumnsType<ImportIssue> = [
+  {
+    title: 'Severity',
+    dataIndex: 'severity',
+    width: 90,
+    render: (severity: ImportIssue['severity']) => (
+      <Tag color={severity === 'error' ? 'red' : 'gold'}>{severity}</Tag>
+    ),
+    filters: [
+      { text: 'Errors', value: 'error' },
+      { text: 'Warnings', value: 'warning' },
+    ],
+    onFilter: (value, issue) => issue.severity === value,
+  },
+  {
+    title: 'Sheet',
+    dataIndex: 'sheet',
+    width: 120,
+  },
+  {
+    title: 'Row',
+    dataIndex: 'row',
+    width: 70,
+    sorter: (a, b) => (a.row || 0) - (b.row || 0),
+  },
+  {
+    title: 'Column',
+    dataIndex: 'column',
+    width: 140,
+    render: (column: string | undefined, issue) => (
+      <>
+        {column}
+        {issue.cell && <Text type="secondary" style={{ fontSize: '12px' }}> ({issue.cell})</Text>}
+      </>
+    ),
+  },
+  {
+    title: 'Issue',
+    dataIndex: 'message',
+  },
+];
+
+// Collapsed by default; the header alone tells you whether anything was dropped
+const ImportIssues: React.FC<ImportIssuesProps> = ({ issues }) => {
+  if (issues.length === 0) return null;
+
+  const errors = issues.filter((issue) => issue.severity === 'error').length;
+  const warnings = issues.length - errors;
+
+  return (
+    <Collapse
+      size="small"
+      style={{ marginBottom: '12px' }}
+      items={[{
+        key: 'issues',
+        label: (
+          <span>
+            <WarningOutlined style={{ color: errors > 0 ? '#D32F2F' : '#FAAD14', marginRight: '8px' }} />
+            Import issues
+            {errors > 0 && <Tag color="red" style={{ marginLeft: '8px' }}>{errors} errors</Tag>}
+            {warnings > 0 && <Tag color="gold" style={{ marginLeft: errors > 0 ? 0 : '8px' }}>{warnings} warnings</Tag>}
+          </span>
+        ),
+        children: (
+          <Table
+            dataSource={issues}
+            columns={columns}
+            rowKey={(issue) => `${issue.code}-${issue.sheet}-${issue.row}-${issue.column}-${issue.cell}`}
+            size="small"
+            pagination={issues.length > 20 ? { pageSize: 20, size: 'small' } : false}
+          />
+        ),
+      }]}
+    />
+  );
+};
+
+export default ImportIssues;
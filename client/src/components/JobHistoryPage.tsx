@@ -0,0 +1,181 @@
+import React, { useMemo } from 'react';
+import { Timeline, Tag, Typography, Segmented, Row, Col, Statistic, Alert, Spin, Empty, Tooltip, Space } from 'antd';
+import { useQuery } from '@tanstack/react-query';
+import { Link as RouterLink, useParams, useSearchParams } from 'react-router-dom';
+import { getJobHistory, JobHistoryRange } from '../services/api';
+import { ApiError, JobRunOutcome, JobTimeline, JobTimelineEntry } from '../types';
+import { describeSlaDelta } from '../../../shared/sla';
+
+const { Title, Text } = Typography;
+
+type RangeKey = 'month' | '30d' | '90d' | 'all';
+
+const RANGE_OPTIONS: { value: RangeKey; label: string }[] = [
+  { value: 'month', label: 'This month' },
+  { value: '30d', label: '30 days' },
+  { value: '90d', label: '90 days' },
+  { value: 'all', label: 'All' },
+];
+
+const OUTCOMES: Record<JobRunOutcome, { label: string; color: string }> = {
+  failed: { label: 'Failed', color: 'red' },
+  warning: { label: 'Warning', color: 'orange' },
+  passed: { label: 'Passed', color: 'green' },
+  empty: { label: 'No status', color: 'gray' },
+};
+
+const CELL_COLORS: Record<string, string> = {
+  success: 'green',
+  error: 'red',
+  warning: 'gold',
+  processing: 'blue',
+  info: 'blue',
+  purple: 'purple',
+};
+
+const toRange = (key: RangeKey): JobHistoryRange => {
+  const today = new Date();
+  if (key === 'all') return {};
+  if (key === 'month') {
+    return { from: new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1)).toISOString().slice(0, 10) };
+  }
+  const days = key === '30d' ? 30 : 90;
+  return { from: new Date(today.getTime() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10) };
+};
+
+// 0..1 flakiness as a short verdict
+const describeFlakiness = (flakiness: number) => {
+  if (flakiness === 0) return 'stable';
+  if (flakiness < 0.25) return 'mostly stable';
+  if (flakiness < 0.5) return 'flaky';
+  return 'very flaky';
+};
+
+const RunCells: React.FC<{ run: JobTimelineEntry }> = ({ run }) => (
+  <div style={{ marginTop: '4px' }}>
+    {run.cells.map((cell) => (
+      <Tooltip
+        key={cell.column}
+        title={cell.slaDelta !== undefined ? `SLA ${cell.sla}: ${describeSlaDelta(cell.slaDelta)}` : undefined}
+      >
+        <Tag color={CELL_COLORS[cell.type || ''] || 'default'} style={{ fontSize: '11px', marginBottom: '4px' }}>
+          {cell.column}: {cell.value}
+        </Tag>
+      </Tooltip>
+    ))}
+  </div>
+);
+
+const isRangeKey = (value: string | null): value is RangeKey =>
+  RANGE_OPTIONS.some((option) => option.value === value);
+
+// /jobs/:name - one job's runs across saved reports; the period is kept in ?range=
+const JobHistoryPage: React.FC = () => {
+  const job = useParams().name || '';
+  const [searchParams, setSearchParams] = useSearchParams();
+  const rangeParam = searchParams.get('range');
+  const rangeKey: RangeKey = isRangeKey(rangeParam) ? rangeParam : 'month';
+  const range = useMemo(() => toRange(rangeKey), [rangeKey]);
+
+  const historyQuery = useQuery<JobTimeline, ApiError>({
+    queryKey: ['job-history', job, range.from],
+    queryFn: () => getJobHistory(job, range),
+    enabled: !!job,
+  });
+
+  const timeline = historyQuery.data;
+  const slaBreaches = (timeline?.runs || [])
+    .reduce((total, run) => total + run.cells.filter((cell) => cell.sla === 'breached').length, 0);
+
+  return (
+    <div>
+      <Space style={{ width: '100%', justifyContent: 'space-between', marginBottom: '16px' }} wrap>
+        <Title level={4} className="app-heading" style={{ margin: 0 }}>
+          📉 History: {job}
+        </Title>
+        <Segmented
+          size="small"
+          value={rangeKey}
+          onChange={(value) => setSearchParams({ range: value as RangeKey }, { replace: true })}
+          options={RANGE_OPTIONS}
+        />
+      </Space>
+
+      {historyQuery.isError && (
+        <Alert
+          type="error"
+          showIcon
+          message={historyQuery.error.error || 'History could not be loaded'}
+          description={historyQuery.error.details}
+        />
+      )}
+
+      {historyQuery.isLoading && (
+        <div style={{ textAlign: 'center', padding: '40px' }}>
+          <Spin />
+        </div>
+      )}
+
+      {timeline && timeline.runs.length === 0 && (
+        <Empty description="This job isn't in any saved report for this period" />
+      )}
+
+      {timeline && timeline.runs.length > 0 && (
+        <>
+          <Row gutter={16} style={{ marginBottom: '16px' }}>
+            <Col span={6}>
+              <Statistic title="Runs" value={timeline.runs.length} />
+            </Col>
+            <Col span={6}>
+              <Statistic
+                title="Failed"
+                value={timeline.counts.failed}
+                suffix={<Text type="secondary" style={{ fontSize: '13px' }}>({Math.round(timeline.failureRate * 100)}%)</Text>}
+                valueStyle={{ color: timeline.counts.failed > 0 ? '#D32F2F' : '#00B050' }}
+              />
+            </Col>
+            <Col span={6}>
+              <Tooltip title="How often the job switches between failing and passing from one upload to the next">
+                <Statistic
+                  title="Flakiness"
+                  value={Math.round(timeline.flakiness * 100)}
+                  suffix="%"
+                  valueStyle={{ color: timeline.flakiness >= 0.25 ? '#D46B08' : undefined }}
+                />
+              </Tooltip>
+              <Text type="secondary" style={{ fontSize: '12px' }}>{describeFlakiness(timeline.flakiness)}</Text>
+            </Col>
+            <Col span={6}>
+              <Statistic title="SLA breaches" value={slaBreaches} />
+            </Col>
+          </Row>
+
+          <Timeline
+            items={[...timeline.runs].reverse().map((run) => ({
+              key: `${run.reportId}-${run.sheet}`,
+              color: OUTCOMES[run.outcome].color,
+              children: (
+                <div>
+                  <Text strong style={{ fontSize: '12px' }}>{new Date(run.uploadDate).toLocaleString()}</Text>{' '}
+                  <Tag color={OUTCOMES[run.outcome].color} style={{ fontSize: '11px' }}>{OUTCOMES[run.outcome].label}</Tag>
+                  <div>
+                    <RouterLink
+                      to={`/reports/${run.reportId}?${new URLSearchParams({ sheet: run.sheet })}`}
+                      style={{ fontSize: '12px' }}
+                    >
+                      {run.fileName}
+                    </RouterLink>
+                    <Text type="secondary" style={{ fontSize: '12px' }}> • {run.sheet}</Text>
+                  </div>
+                  <RunCells run={run} />
+                </div>
+              ),
+            }))}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JobHistoryPage;
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { Drawer, Table, Tag, Button, Space, Input, Alert, Typography, Select, Popconfirm, message } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { listMappingProfiles, saveMappingProfile, deleteMappingProfile } from '../services/api';
+import { ApiError, MappingProfile, MappingRule } from '../types';
+import { DEFAULT_MAPPING_PROFILE_ID } from '../../../shared/mapping';
+
+const { Text } = Typography;
+
+interface MappingProfilesDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  // Profiles can be browsed but not changed without the admin role
+  readOnly?: boolean;
+}
+
+// Starting point for a new profile, covering the aliases people ask about most
+const NEW_PROFILE_TEMPLATE: Omit<MappingProfile, 'id'> = {
+  name: 'New profile',
+  description: '',
+  rules: [
+    { match: 'regex', pattern: '^(sr|s)\\.?\\s*no', role: 'id' },
+    { match: 'contains', pattern: 'job', role: 'title' },
+    { match: 'contains', pattern: 'remark', role: 'notes' },
+  ],
+  unmatched: 'status',
+};
+
+const ROLE_COLORS: Record<string, string> = {
+  id: 'blue',
+  title: 'geekblue',
+  notes: 'cyan',
+  status: 'green',
+  ignore: 'default',
+};
+
+const columns: ColumnsType<MappingRule> = [
+  {
+    title: 'Match',
+    dataIndex: 'match',
+    key: 'match',
+    width: 90,
+    render: (match: string) => <Tag>{match}</Tag>,
+  },
+  {
+    title: 'Header',
+    dataIndex: 'pattern',
+    key: 'pattern',
+    render: (pattern: string, rule) => <Text code>{rule.match === 'regex' ? `/${pattern}/` : pattern}</Text>,
+  },
+  {
+    title: 'Role',
+    dataIndex: 'role',
+    key: 'role',
+    width: 90,
+    render: (role: string) => <Tag color={ROLE_COLORS[role]}>{role}</Tag>,
+  },
+];
+
+const toDraft = (profile: Omit<MappingProfile, 'id'>) => {
+  const { name, description, rules, unmatched } = profile;
+  return JSON.stringify({ name, description, rules, unmatched }, null, 2);
+};
+
+const MappingProfilesDrawer: React.FC<MappingProfilesDrawerProps> = ({ open, onClose, readOnly = false }) => {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState(DEFAULT_MAPPING_PROFILE_ID);
+  // null when viewing, 'new' when creating, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const profilesQuery = useQuery({
+    queryKey: ['mapping-profiles'],
+    queryFn: listMappingProfiles,
+    enabled: open,
+  });
+
+  const profiles = profilesQuery.data || [];
+  const selected = profiles.find((profile) => profile.id === selectedId) || profiles[0];
+
+  useEffect(() => {
+    if (!open) setEditingId(null);
+  }, [open]);
+
+  const saveMutation = useMutation<MappingProfile, ApiError, Omit<MappingProfile, 'id'> & { id?: string }>({
+    mutationFn: (profile) => saveMappingProfile(profile),
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ['mapping-profiles'] });
+      setSelectedId(profile.id);
+      setEditingId(null);
+      message.success('Mapping profile saved. Choose it when uploading a file.');
+    },
+  });
+
+  const deleteMutation = useMutation<void, ApiError, string>({
+    mutationFn: (id) => deleteMappingProfile(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mapping-profiles'] });
+      setSelectedId(DEFAULT_MAPPING_PROFILE_ID);
+      message.success('Mapping profile deleted');
+    },
+    onError: (error) => message.error(error.error),
+  });
+
+  const startEditing = (id: string, profile: Omit<MappingProfile, 'id'>) => {
+    saveMutation.reset();
+    setDraft(toDraft(profile));
+    setEditingId(id);
+  };
+
+  const handleSave = () => {
+    try {
+      const parsed = JSON.parse(draft);
+      saveMutation.mutate(editingId === 'new' ? parsed : { ...parsed, id: editingId });
+    } catch (error) {
+      message.error(`Profile is not valid JSON: ${(error as Error).message}`);
+    }
+  };
+
+  const isBuiltIn = selected?.id === DEFAULT_MAPPING_PROFILE_ID;
+
+  return (
+    <Drawer
+      title="Column Mappings"
+      open={open}
+      onClose={onClose}
+      width={640}
+      extra={readOnly ? undefined : (
+        editingId ? (
+          <Space>
+            <Button onClick={() => setEditingId(null)}>Cancel</Button>
+            <Button type="primary" onClick={handleSave} loading={saveMutation.isPending}>
+              Save
+            </Button>
+          </Space>
+        ) : (
+          <Space>
+            <Button onClick={() => startEditing('new', NEW_PROFILE_TEMPLATE)}>New profile</Button>
+            {selected && !isBuiltIn && (
+              <>
+                <Popconfirm
+                  title="Delete this mapping profile?"
+                  onConfirm={() => deleteMutation.mutate(selected.id)}
+                >
+                  <Button danger loading={deleteMutation.isPending}>Delete</Button>
+                </Popconfirm>
+                <Button type="primary" onClick={() => startEditing(selected.id, selected)}>
+                  Edit
+                </Button>
+              </>
+            )}
+          </Space>
+        )
+      )}
+    >
+      <Text type="secondary" style={{ display: 'block', marginBottom: '12px' }}>
+        A profile maps workbook headers to roles: <b>id</b> (row number), <b>title</b> (job name),
+        {' '}<b>notes</b>, <b>status</b> (coloured by the status rules) or <b>ignore</b>. Rules are checked
+        top to bottom; headers no rule matches use the profile's <i>unmatched</i> role.
+      </Text>
+
+      {saveMutation.isError && (
+        <Alert
+          type="error"
+          showIcon
+          message={saveMutation.error.error}
+          description={saveMutation.error.details}
+          style={{ marginBottom: '12px' }}
+        />
+      )}
+
+      {editingId ? (
+        <Input.TextArea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          autoSize={{ minRows: 20 }}
+          style={{ fontFamily: 'monospace', fontSize: '12px' }}
+        />
+      ) : (
+        <>
+          <Select
+            value={selected?.id}
+            onChange={setSelectedId}
+            loading={profilesQuery.isLoading}
+            options={profiles.map((profile) => ({
+              value: profile.id,
+              label: profile.id === DEFAULT_MAPPING_PROFILE_ID ? `${profile.name} (built-in)` : profile.name,
+            }))}
+            style={{ width: '100%', marginBottom: '12px' }}
+          />
+          {selected?.description && (
+            <Text style={{ display: 'block', marginBottom: '12px' }}>{selected.description}</Text>
+          )}
+          <Table
+            dataSource={selected?.rules || []}
+            columns={columns}
+            rowKey={(rule) => `${rule.match}-${rule.pattern}-${rule.role}`}
+            loading={profilesQuery.isLoading}
+            pagination={false}
+            size="small"
+          />
+          {selected && (
+            <Text type="secondary" style={{ display: 'block', marginTop: '12px' }}>
+              Unmatched headers: <Tag color={ROLE_COLORS[selected.unmatched]}>{selected.unmatched}</Tag>
+            </Text>
+          )}
+        </>
+      )}
+    </Drawer>
+  );
+};
+
+export default MappingProfilesDrawer;
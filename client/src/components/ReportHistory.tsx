@@ -0,0 +1,114 @@
+import React from 'react';
+import { List, Typography, Button, Empty, Space, Tag, Tooltip } from 'antd';
+import { FileExcelOutlined, FolderOpenOutlined, PlusOutlined } from '@ant-design/icons';
+import { useQuery } from '@tanstack/react-query';
+import { getIngestionStatus, listReports } from '../services/api';
+
+const { Text, Title } = Typography;
+
+interface ReportHistoryProps {
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  // Left out for users who can't upload
+  onNewUpload?: () => void;
+}
+
+const ReportHistory: React.FC<ReportHistoryProps> = ({ selectedId, onSelect, onNewUpload }) => {
+  const reportsQuery = useQuery({
+    queryKey: ['reports'],
+    queryFn: listReports,
+  });
+
+  const ingestionQuery = useQuery({
+    queryKey: ['ingestion'],
+    queryFn: getIngestionStatus,
+  });
+
+  const watchedFolder = ingestionQuery.data?.directory;
+  const lastEntry = ingestionQuery.data?.entries[0];
+
+  return (
+    <div style={{ padding: '16px 12px', height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <Title level={5} className="app-heading" style={{ margin: '0 4px 12px' }}>
+        Report History
+      </Title>
+      {watchedFolder && (
+        <Tooltip
+          title={lastEntry
+            ? `Last file: ${lastEntry.fileName} (${lastEntry.status}${lastEntry.error ? `: ${lastEntry.error}` : ''})`
+            : 'No files picked up yet'}
+        >
+          <Text type="secondary" ellipsis style={{ display: 'block', margin: '0 4px 12px', fontSize: '12px' }}>
+            <FolderOpenOutlined /> Watching {watchedFolder}
+          </Text>
+        </Tooltip>
+      )}
+      {onNewUpload && (
+        <Button
+          icon={<PlusOutlined />}
+          onClick={onNewUpload}
+          block
+          style={{ marginBottom: '12px' }}
+        >
+          New Upload
+        </Button>
+      )}
+
+      <div style={{ flex: 1, overflowY: 'auto' }}>
+        <List
+          size="small"
+          loading={reportsQuery.isLoading}
+          dataSource={reportsQuery.data || []}
+          locale={{
+            emptyText: (
+              <Empty
+                image={Empty.PRESENTED_IMAGE_SIMPLE}
+                description={reportsQuery.isError ? 'History is not available' : 'No saved reports yet'}
+              />
+            ),
+          }}
+          renderItem={(report) => {
+            const isSelected = report.id === selectedId;
+            return (
+              <List.Item
+                onClick={() => onSelect(report.id)}
+                style={{
+                  cursor: 'pointer',
+                  padding: '8px',
+                  borderRadius: '6px',
+                  background: isSelected ? 'var(--app-selected-bg)' : 'transparent',
+                  borderLeft: isSelected ? '3px solid var(--app-selected-border)' : '3px solid transparent',
+                }}
+              >
+                <List.Item.Meta
+                  avatar={<FileExcelOutlined style={{ fontSize: '18px', color: '#00B050', marginTop: '4px' }} />}
+                  title={
+                    <Space size={4} style={{ display: 'flex' }}>
+                      <Text ellipsis={{ tooltip: report.fileName }} style={{ fontSize: '13px' }}>
+                        {report.fileName}
+                      </Text>
+                      {report.source === 'watch' && (
+                        <Tooltip title="Picked up from the watched folder">
+                          <Tag color="blue" style={{ fontSize: '11px', marginRight: 0 }}>Auto</Tag>
+                        </Tooltip>
+                      )}
+                    </Space>
+                  }
+                  description={
+                    <Text type="secondary" style={{ fontSize: '12px' }}>
+                      {new Date(report.uploadDate).toLocaleString()} • {report.totalRows} rows
+                      {report.sheetNames.length > 1 && ` • ${report.sheetNames.length} sheets`}
+                      {report.createdBy && ` • ${report.createdBy}`}
+                    </Text>
+                  }
+                />
+              </List.Item>
+            );
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ReportHistory;
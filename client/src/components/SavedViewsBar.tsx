@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Select, Button, Space, Input, Checkbox, Popover, Popconfirm, Tag, Typography, message } from 'antd';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { listSavedViews, saveSavedView, deleteSavedView } from '../services/api';
+import { ApiError, AuthUser, ColumnLayout, SavedView, SavedViewInput } from '../types';
+import { isEmptyLayout } from '../../../shared/views';
+import { isSameLayout } from '../utils/columnLayout';
+import { hasRole } from '../../../shared/auth';
+
+const { Text } = Typography;
+
+interface SavedViewsBarProps {
+  // The layout on screen, and the saved view it started from
+  layout: ColumnLayout;
+  onLayoutChange: (layout: ColumnLayout) => void;
+  viewId: string | null;
+  onViewChange: (viewId: string | null) => void;
+  currentUser?: AuthUser | null;
+}
+
+// Pick, save and delete named column layouts. Shared views are listed for everybody but only
+// uploaders can share one.
+const SavedViewsBar: React.FC<SavedViewsBarProps> = ({ layout, onLayoutChange, viewId, onViewChange, currentUser }) => {
+  const queryClient = useQueryClient();
+  const [saveAsOpen, setSaveAsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const canShare = hasRole(currentUser, 'uploader');
+
+  const viewsQuery = useQuery({
+    queryKey: ['views'],
+    queryFn: listSavedViews,
+  });
+
+  const views = viewsQuery.data || [];
+  const selected = views.find((view) => view.id === viewId);
+  const modified = !!selected && !isSameLayout(selected.layout, layout);
+  const canChange = (view: SavedView) =>
+    !!currentUser && (view.owner === currentUser.username || hasRole(currentUser, 'admin'));
+
+  // Opening a view, or someone saving it, puts its layout on screen; refetches of the same
+  // version leave changes made since alone
+  const appliedVersion = useRef('');
+  useEffect(() => {
+    const version = selected ? `${selected.id}|${selected.updatedAt}` : '';
+    if (selected && version !== appliedVersion.current) onLayoutChange(selected.layout);
+    appliedVersion.current = version;
+  }, [selected, onLayoutChange]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['views'] });
+  const showError = (error: ApiError) => message.error(error.details || error.error);
+
+  const saveMutation = useMutation<SavedView, ApiError, SavedViewInput & { id?: string }>({
+    mutationFn: (view) => saveSavedView(view),
+    onSuccess: (view) => {
+      refresh();
+      setSaveAsOpen(false);
+      onViewChange(view.id);
+      message.success(`Saved "${view.name}"`);
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation<void, ApiError, string>({
+    mutationFn: (id) => deleteSavedView(id),
+    onSuccess: () => {
+      refresh();
+      onViewChange(null);
+    },
+    onError: showError,
+  });
+
+  const openSaveAs = (open: boolean) => {
+    if (open) {
+      setName(selected ? `${selected.name} (copy)` : '');
+      setShared(false);
+    }
+    setSaveAsOpen(open);
+  };
+
+  const saveAsForm = (
+    <Space direction="vertical" style={{ width: '240px' }}>
+      <Input
+        autoFocus
+        placeholder="View name"
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        onPressEnter={() => name.trim() && saveMutation.mutate({ name: name.trim(), layout, shared })}
+      />
+      {canShare && (
+        <Checkbox checked={shared} onChange={(event) => setShared(event.target.checked)}>
+          Share with everybody
+        </Checkbox>
+      )}
+      <Button
+        type="primary"
+        size="small"
+        disabled={!name.trim()}
+        loading={saveMutation.isPending}
+        onClick={() => saveMutation.mutate({ name: name.trim(), layout, shared })}
+      >
+        Save view
+      </Button>
+    </Space>
+  );
+
+  return (
+    <Space wrap size={6} className="no-print" style={{ marginBottom: '8px' }}>
+      <Text style={{ fontSize: '12px' }}>View</Text>
+      <Select
+        size="small"
+        allowClear
+        placeholder="Sheet columns"
+        value={selected?.id}
+        onChange={(id?: string) => {
+          onViewChange(id || null);
+          if (!id) onLayoutChange({});
+        }}
+        loading={viewsQuery.isLoading}
+        style={{ width: '220px' }}
+        options={views.map((view) => ({
+          value: view.id,
+          label: `${view.name}${view.shared ? ' (shared)' : ''}`,
+        }))}
+      />
+      {modified && <Tag color="gold">modified</Tag>}
+      {selected && modified && canChange(selected) && (
+        <Button
+          size="small"
+          loading={saveMutation.isPending}
+          onClick={() => saveMutation.mutate({ id: selected.id, name: selected.name, layout, shared: selected.shared })}
+        >
+          Save
+        </Button>
+      )}
+      {selected && modified && (
+        <Button size="small" type="link" onClick={() => onLayoutChange(selected.layout)}>
+          Undo changes
+        </Button>
+      )}
+      <Popover content={saveAsForm} title="Save columns as a view" trigger="click" open={saveAsOpen} onOpenChange={openSaveAs}>
+        <Button size="small" disabled={!selected && isEmptyLayout(layout)}>
+          {selected ? 'Save as…' : 'Save view…'}
+        </Button>
+      </Popover>
+      {selected && canChange(selected) && (
+        <Popconfirm
+          title={`Delete "${selected.name}"?${selected.shared ? ' Everybody loses this view.' : ''}`}
+          onConfirm={() => deleteMutation.mutate(selected.id)}
+        >
+          <Button size="small" danger>Delete</Button>
+        </Popconfirm>
+      )}
+    </Space>
+  );
+};
+
+export default SavedViewsBar;
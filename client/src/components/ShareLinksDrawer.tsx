@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { Drawer, Table, Tag, Button, Space, Select, Checkbox, Popconfirm, Typography, message } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { listShareLinks, createShareLink, revokeShareLink } from '../services/api';
+import { ApiError, AuthUser, GridFilters, ShareLink, ShareLinkInput, ShareLinkState } from '../types';
+import { hasActiveFilters, writeFiltersToSearchParams } from '../../../shared/gridFilters';
+import { getShareLinkState } from '../../../shared/shareLinks';
+import { hasRole } from '../../../shared/auth';
+
+const { Text } = Typography;
+
+interface ShareLinksDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  reportId: string;
+  // The sheet and filters on screen, which a new link can carry
+  sheet: string;
+  filters: GridFilters;
+  currentUser?: AuthUser | null;
+}
+
+// Hours until the link stops working; 0 for never
+const EXPIRY_OPTIONS = [
+  { value: 24, label: '1 day' },
+  { value: 24 * 7, label: '7 days' },
+  { value: 24 * 30, label: '30 days' },
+  { value: 0, label: 'Never' },
+];
+
+const STATE_COLORS: Record<ShareLinkState, string> = {
+  active: 'green',
+  expired: 'default',
+  revoked: 'red',
+};
+
+const shareLinkUrl = (link: ShareLink) => `${window.location.origin}/shared/${link.token}`;
+
+const ShareLinksDrawer: React.FC<ShareLinksDrawerProps> = ({ open, onClose, reportId, sheet, filters, currentUser }) => {
+  const queryClient = useQueryClient();
+  const [expiresInHours, setExpiresInHours] = useState(24 * 7);
+  const [sheetOnly, setSheetOnly] = useState(true);
+  const [withFilters, setWithFilters] = useState(true);
+  const canCreate = hasRole(currentUser, 'uploader');
+  const filtered = hasActiveFilters(filters);
+
+  useEffect(() => {
+    if (open) setWithFilters(true);
+  }, [open]);
+
+  const linksQuery = useQuery({
+    queryKey: ['share-links', reportId],
+    queryFn: () => listShareLinks(reportId),
+    enabled: open,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['share-links', reportId] });
+  const showError = (error: ApiError) => message.error(error.details || error.error);
+
+  const createMutation = useMutation<ShareLink, ApiError, ShareLinkInput>({
+    mutationFn: (input) => createShareLink(input),
+    onSuccess: async (link) => {
+      refresh();
+      try {
+        await navigator.clipboard.writeText(shareLinkUrl(link));
+        message.success('Link created and copied to the clipboard');
+      } catch {
+        message.success('Link created');
+      }
+    },
+    onError: showError,
+  });
+
+  const revokeMutation = useMutation<ShareLink, ApiError, string>({
+    mutationFn: (id) => revokeShareLink(id),
+    onSuccess: refresh,
+    onError: showError,
+  });
+
+  const handleCreate = () => {
+    createMutation.mutate({
+      reportId,
+      sheet: sheetOnly ? sheet : undefined,
+      filters: filtered && withFilters ? writeFiltersToSearchParams(new URLSearchParams(), filters).toString() : undefined,
+      expiresInHours: expiresInHours || undefined,
+    });
+  };
+
+  const canRevoke = (link: ShareLink) =>
+    !!currentUser && (link.createdBy === currentUser.username || hasRole(currentUser, 'admin'));
+
+  const columns: ColumnsType<ShareLink> = [
+    {
+      title: 'Link',
+      key: 'link',
+      render: (_, link) => {
+        const state = getShareLinkState(link);
+        // Other people's links come without their token unless you're an admin
+        const label = link.token ? `…/shared/${link.token.slice(0, 8)}` : 'Link hidden';
+        return (
+          <div>
+            {state === 'active' && link.token
+              ? <Text copyable={{ text: shareLinkUrl(link) }} style={{ fontSize: '12px' }}>{label}</Text>
+              : <Text delete={state !== 'active'} type="secondary" style={{ fontSize: '12px' }}>{label}</Text>}
+            <div style={{ fontSize: '12px', color: 'var(--app-text-muted)' }}>
+              {link.sheet ? `${link.sheet} only` : 'All sheets'}
+              {link.filters && ' • filtered'}
+            </div>
+          </div>
+        );
+      },
+    },
+    {
+      title: 'Created',
+      key: 'created',
+      width: 160,
+      render: (_, link) => (
+        <div style={{ fontSize: '12px' }}>
+          {new Date(link.createdAt).toLocaleString()}
+          <div style={{ color: 'var(--app-text-muted)' }}>by {link.createdBy}</div>
+        </div>
+      ),
+    },
+    {
+      title: 'Expires',
+      dataIndex: 'expiresAt',
+      key: 'expiresAt',
+      width: 150,
+      render: (expiresAt?: string) => (
+        <span style={{ fontSize: '12px' }}>{expiresAt ? new Date(expiresAt).toLocaleString() : 'Never'}</span>
+      ),
+    },
+    {
+      title: 'State',
+      key: 'state',
+      width: 90,
+      render: (_, link) => {
+        const state = getShareLinkState(link);
+        return (
+          <Tag color={STATE_COLORS[state]} title={link.revokedBy ? `Revoked by ${link.revokedBy}` : undefined}>
+            {state}
+          </Tag>
+        );
+      },
+    },
+    {
+      key: 'actions',
+      width: 80,
+      render: (_, link) => (getShareLinkState(link) === 'active' && canRevoke(link) ? (
+        <Popconfirm title="Revoke this link? Anyone using it loses access." onConfirm={() => revokeMutation.mutate(link.id)}>
+          <Button size="small" danger>Revoke</Button>
+        </Popconfirm>
+      ) : null),
+    },
+  ];
+
+  return (
+    <Drawer title="Share links" open={open} onClose={onClose} width={760}>
+      <Text type="secondary" style={{ display: 'block', marginBottom: '12px' }}>
+        A share link opens this report read-only, without signing in, until it expires or is revoked.
+        Edits made later show up in it.
+      </Text>
+
+      {canCreate && (
+        <Space wrap style={{ marginBottom: '16px' }}>
+          <Text>Expires after</Text>
+          <Select value={expiresInHours} onChange={setExpiresInHours} options={EXPIRY_OPTIONS} style={{ width: 110 }} />
+          <Checkbox checked={sheetOnly} onChange={(event) => setSheetOnly(event.target.checked)}>
+            Only the {sheet} sheet
+          </Checkbox>
+          {filtered && (
+            <Checkbox checked={withFilters} onChange={(event) => setWithFilters(event.target.checked)}>
+              With the current filters
+            </Checkbox>
+          )}
+          <Button type="primary" onClick={handleCreate} loading={createMutation.isPending}>
+            Create link
+          </Button>
+        </Space>
+      )}
+
+      <Table
+        dataSource={linksQuery.data || []}
+        columns={columns}
+        rowKey="id"
+        loading={linksQuery.isLoading}
+        pagination={false}
+        size="small"
+        locale={{ emptyText: 'This report has not been shared' }}
+      />
+    </Drawer>
+  );
+};
+
+export default ShareLinksDrawer;
@@ -0,0 +1,132 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Layout, Typography, Row, Spin, Alert, Tabs, Tag } from 'antd';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { useParams } from 'react-router-dom';
+import { getSharedReport, getSharedReportRows } from '../services/api';
+import { ApiError, GridFilters, SharedReport, SheetData } from '../types';
+import { EMPTY_FILTERS, filtersFromSearchParams } from '../../../shared/gridFilters';
+import DataGrid from './DataGrid';
+import SummaryPanel from './SummaryPanel';
+import ThemeMenu from './ThemeMenu';
+
+const { Header, Content } = Layout;
+const { Title, Text } = Typography;
+
+// /shared/:token - read-only view of a report opened through a share link: the grid and its
+// summary, without uploads, history, settings or editing. Works without signing in.
+const SharedReportView: React.FC = () => {
+  // Signed token of the share link
+  const token = useParams().token || '';
+  const [activeSheet, setActiveSheet] = useState('');
+  const [filters, setFilters] = useState<GridFilters>(EMPTY_FILTERS);
+
+  const sharedQuery = useQuery<SharedReport, ApiError>({
+    queryKey: ['shared', token],
+    queryFn: () => getSharedReport(token),
+    retry: false,
+  });
+
+  const link = sharedQuery.data?.link;
+  const report = sharedQuery.data?.report;
+
+  // Open with the filters the link was created with
+  useEffect(() => {
+    if (link) setFilters(link.filters ? filtersFromSearchParams(new URLSearchParams(link.filters)) : EMPTY_FILTERS);
+  }, [link]);
+
+  const sheets: SheetData[] = useMemo(() => report?.sheets || [], [report]);
+  const currentSheet = sheets.find((sheet) => sheet.name === activeSheet)
+    || sheets.find((sheet) => sheet.name === report?.sheetName)
+    || sheets[0];
+  const currentSheetName = currentSheet?.name || '';
+
+  const rowsQuery = useInfiniteQuery({
+    queryKey: ['shared', token, 'rows', currentSheetName],
+    queryFn: ({ pageParam }) => getSharedReportRows(token, currentSheetName, pageParam || undefined),
+    initialPageParam: '',
+    getNextPageParam: (page) => page.nextCursor ?? undefined,
+    enabled: !!report,
+  });
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = rowsQuery;
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const rows = useMemo(() => rowsQuery.data?.pages.flatMap((page) => page.rows) || [], [rowsQuery.data]);
+  const sheetRowCount = currentSheet?.totalRows ?? rows.length;
+
+  if (sharedQuery.isLoading) {
+    return (
+      <Row justify="center" align="middle" style={{ minHeight: '100vh' }}>
+        <Spin size="large" />
+      </Row>
+    );
+  }
+
+  if (sharedQuery.isError || !report) {
+    return (
+      <Row justify="center" align="middle" style={{ minHeight: '100vh' }}>
+        <Alert
+          type="error"
+          showIcon
+          message={sharedQuery.error?.error || 'This link cannot be opened'}
+          description="Ask whoever shared it for a new link."
+        />
+      </Row>
+    );
+  }
+
+  return (
+    <Layout className="app-layout">
+      <Header className="app-header" style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+        <Title level={3} className="app-header-title">
+          📊 Excel Data Viewer
+        </Title>
+        <Tag color="blue">Read-only</Tag>
+        <span style={{ marginLeft: 'auto' }}>
+          <ThemeMenu />
+        </span>
+      </Header>
+
+      <Content className="app-content" style={{ padding: '24px' }}>
+        <div className="app-card" style={{ padding: '20px', overflow: 'hidden' }}>
+          <div className="app-report-title">
+            <Title level={4} className="app-heading" style={{ margin: 0 }}>
+              📈 {report.fileName}
+            </Title>
+            <Text type="secondary">
+              {sheets.length > 1 && `${currentSheetName} • `}
+              {rows.length < sheetRowCount ? `Loading rows: ${rows.length} of ${sheetRowCount}` : `${rows.length} rows`}
+              {' '}• Uploaded on {new Date(report.uploadDate).toLocaleDateString()}
+              {' '}• Shared by {link?.createdBy}
+              {link?.expiresAt && ` until ${new Date(link.expiresAt).toLocaleString()}`}
+            </Text>
+          </div>
+
+          {sheets.length > 1 && (
+            <Tabs
+              activeKey={currentSheetName}
+              onChange={setActiveSheet}
+              size="small"
+              style={{ marginBottom: '8px' }}
+              items={sheets.map((sheet) => ({ key: sheet.name, label: `${sheet.name} (${sheet.totalRows})` }))}
+            />
+          )}
+
+          <SummaryPanel data={rows} columns={currentSheet?.columns} />
+
+          <DataGrid
+            data={rows}
+            columns={currentSheet?.columns}
+            loading={rowsQuery.isLoading}
+            filters={filters}
+            onFiltersChange={setFilters}
+          />
+        </div>
+      </Content>
+    </Layout>
+  );
+};
+
+export default SharedReportView;
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { Drawer, Table, Button, Space, Input, Alert, Typography, message } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getSlaConfig, updateSlaConfig, resetSlaConfig } from '../services/api';
+import { ApiError, SlaConfig, SlaState, SlaTarget } from '../types';
+
+const { Text } = Typography;
+
+interface SlaTargetsDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  // Targets are shown but can't be changed without the admin role
+  readOnly?: boolean;
+}
+
+const STATE_LABELS: Record<SlaState, string> = {
+  'on-time': 'On time',
+  'at-risk': 'At risk',
+  breached: 'Breached',
+};
+
+const columns: ColumnsType<SlaTarget> = [
+  {
+    title: 'Job',
+    dataIndex: 'job',
+    key: 'job',
+    render: (job?: string) => job || <Text type="secondary">every job</Text>,
+  },
+  {
+    title: 'Column',
+    dataIndex: 'column',
+    key: 'column',
+    width: 110,
+    render: (column?: string) => column || <Text type="secondary">every column</Text>,
+  },
+  {
+    title: 'Expected',
+    dataIndex: 'expected',
+    key: 'expected',
+    width: 90,
+    render: (expected: string) => <Text code>{expected}</Text>,
+  },
+  {
+    title: 'Tolerance',
+    dataIndex: 'tolerance',
+    key: 'tolerance',
+    width: 90,
+    render: (tolerance: number) => `${tolerance} min`,
+  },
+];
+
+const SlaTargetsDrawer: React.FC<SlaTargetsDrawerProps> = ({ open, onClose, readOnly = false }) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState('');
+  const [editing, setEditing] = useState(false);
+
+  const slaQuery = useQuery({
+    queryKey: ['sla'],
+    queryFn: getSlaConfig,
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (slaQuery.data && !editing) {
+      setDraft(JSON.stringify(slaQuery.data, null, 2));
+    }
+  }, [slaQuery.data, editing]);
+
+  const onSaved = (config: SlaConfig) => {
+    queryClient.setQueryData(['sla'], config);
+    setEditing(false);
+    message.success('SLA targets saved. They apply to files uploaded from now on.');
+  };
+
+  const saveMutation = useMutation<SlaConfig, ApiError, SlaConfig>({
+    mutationFn: (config) => updateSlaConfig(config),
+    onSuccess: onSaved,
+  });
+
+  const resetMutation = useMutation<SlaConfig, ApiError>({
+    mutationFn: () => resetSlaConfig(),
+    onSuccess: onSaved,
+  });
+
+  const handleSave = () => {
+    try {
+      saveMutation.mutate(JSON.parse(draft));
+    } catch (error) {
+      message.error(`Targets are not valid JSON: ${(error as Error).message}`);
+    }
+  };
+
+  const colors = slaQuery.data?.colors;
+
+  return (
+    <Drawer
+      title="SLA Targets"
+      open={open}
+      onClose={onClose}
+      width={640}
+      extra={readOnly ? undefined : (
+        <Space>
+          <Button onClick={() => resetMutation.mutate()} loading={resetMutation.isPending}>
+            Remove all
+          </Button>
+          {editing ? (
+            <>
+              <Button onClick={() => setEditing(false)}>Cancel</Button>
+              <Button type="primary" onClick={handleSave} loading={saveMutation.isPending}>
+                Save
+              </Button>
+            </>
+          ) : (
+            <Button type="primary" onClick={() => setEditing(true)}>
+              Edit
+            </Button>
+          )}
+        </Space>
+      )}
+    >
+      <Text type="secondary" style={{ display: 'block', marginBottom: '12px' }}>
+        A time at or before the expected time is on time, within the tolerance after it is at risk, and later
+        than that breaches the SLA. The most specific target wins: job and column, then job, then column.
+      </Text>
+
+      {colors && (
+        <Space size={16} style={{ marginBottom: '12px' }}>
+          {(Object.keys(STATE_LABELS) as SlaState[]).map((state) => (
+            <Space key={state} size={6}>
+              <span className="status-dot" style={{ backgroundColor: colors[state], width: 12, height: 12 }} />
+              <Text>{STATE_LABELS[state]}</Text>
+            </Space>
+          ))}
+        </Space>
+      )}
+
+      {saveMutation.isError && (
+        <Alert
+          type="error"
+          showIcon
+          message={saveMutation.error.error}
+          description={saveMutation.error.details}
+          style={{ marginBottom: '12px' }}
+        />
+      )}
+
+      {editing ? (
+        <Input.TextArea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          autoSize={{ minRows: 20 }}
+          style={{ fontFamily: 'monospace', fontSize: '12px' }}
+        />
+      ) : (
+        <Table
+          dataSource={slaQuery.data?.targets || []}
+          columns={columns}
+          rowKey="id"
+          loading={slaQuery.isLoading}
+          locale={{ emptyText: 'No targets yet. Edit to add one, e.g. { "id": "backup", "job": "Backup", "expected": "04:00", "tolerance": 15 }' }}
+          pagination={false}
+          size="small"
+        />
+      )}
+    </Drawer>
+  );
+};
+
+export default SlaTargetsDrawer;
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Drawer, Table, Tag, Button, Space, Input, Alert, Typography, message } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getStatusRules, updateStatusRules, resetStatusRules } from '../services/api';
+import { ApiError, StatusRule, StatusRuleConfig } from '../types';
+
+const { Text } = Typography;
+
+interface StatusRulesDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  // Hides the edit buttons; only admins can change the rules
+  readOnly?: boolean;
+}
+
+// Human readable summary of what a rule matches
+const describeMatch = (rule: StatusRule) => {
+  if (rule.match === 'exact') return (rule.values || []).join(', ');
+  if (rule.match === 'regex') return `/${rule.pattern}/`;
+  return `${rule.from || '00:00'} – ${rule.to || '24:00'}`;
+};
+
+const columns: ColumnsType<StatusRule> = [
+  {
+    title: 'Match',
+    dataIndex: 'match',
+    key: 'match',
+    width: 80,
+    render: (match: string) => <Tag>{match}</Tag>,
+  },
+  {
+    title: 'Values',
+    key: 'values',
+    render: (_: unknown, rule: StatusRule) => <Text code>{describeMatch(rule)}</Text>,
+  },
+  {
+    title: 'Label',
+    dataIndex: 'status',
+    key: 'status',
+    width: 90,
+    render: (status?: string) => status || <Text type="secondary">value</Text>,
+  },
+  {
+    title: 'Colour',
+    key: 'color',
+    width: 120,
+    render: (_: unknown, rule: StatusRule) => (
+      <Space size={6}>
+        <span className="status-dot" style={{ backgroundColor: rule.color, width: 12, height: 12 }} />
+        <Text>{rule.type}</Text>
+      </Space>
+    ),
+  },
+];
+
+const StatusRulesDrawer: React.FC<StatusRulesDrawerProps> = ({ open, onClose, readOnly = false }) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState('');
+  const [editing, setEditing] = useState(false);
+
+  const rulesQuery = useQuery({
+    queryKey: ['status-rules'],
+    queryFn: getStatusRules,
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (rulesQuery.data && !editing) {
+      setDraft(JSON.stringify(rulesQuery.data, null, 2));
+    }
+  }, [rulesQuery.data, editing]);
+
+  const onSaved = (config: StatusRuleConfig) => {
+    queryClient.setQueryData(['status-rules'], config);
+    setEditing(false);
+    message.success('Status rules saved. They apply to files uploaded from now on.');
+  };
+
+  const saveMutation = useMutation<StatusRuleConfig, ApiError, StatusRuleConfig>({
+    mutationFn: (config) => updateStatusRules(config),
+    onSuccess: onSaved,
+  });
+
+  const resetMutation = useMutation<StatusRuleConfig, ApiError>({
+    mutationFn: () => resetStatusRules(),
+    onSuccess: onSaved,
+  });
+
+  const handleSave = () => {
+    try {
+      saveMutation.mutate(JSON.parse(draft));
+    } catch (error) {
+      message.error(`Rules are not valid JSON: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <Drawer
+      title="Status Rules"
+      open={open}
+      onClose={onClose}
+      width={640}
+      extra={readOnly ? undefined : (
+        <Space>
+          <Button onClick={() => resetMutation.mutate()} loading={resetMutation.isPending}>
+            Reset to defaults
+          </Button>
+          {editing ? (
+            <>
+              <Button onClick={() => setEditing(false)}>Cancel</Button>
+              <Button type="primary" onClick={handleSave} loading={saveMutation.isPending}>
+                Save
+              </Button>
+            </>
+          ) : (
+            <Button type="primary" onClick={() => setEditing(true)}>
+              Edit
+            </Button>
+          )}
+        </Space>
+      )}
+    >
+      <Text type="secondary" style={{ display: 'block', marginBottom: '12px' }}>
+        Rules are checked top to bottom and the first match decides the status, colour and type of a cell.
+      </Text>
+
+      {saveMutation.isError && (
+        <Alert
+          type="error"
+          showIcon
+          message={saveMutation.error.error}
+          description={saveMutation.error.details}
+          style={{ marginBottom: '12px' }}
+        />
+      )}
+
+      {editing ? (
+        <Input.TextArea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          autoSize={{ minRows: 20 }}
+          style={{ fontFamily: 'monospace', fontSize: '12px' }}
+        />
+      ) : (
+        <Table
+          dataSource={rulesQuery.data?.rules || []}
+          columns={columns}
+          rowKey="id"
+          loading={rulesQuery.isLoading}
+          pagination={false}
+          size="small"
+        />
+      )}
+    </Drawer>
+  );
+};
+
+export default StatusRulesDrawer;
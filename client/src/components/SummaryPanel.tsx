@@ -0,0 +1,158 @@
+import React, { useMemo } from 'react';
+import { Row, Col, Space, Statistic, Tooltip, Typography, Tag, Empty } from 'antd';
+import { ColumnDef, ExcelRow } from '../types';
+import { summarizeRows, SummaryBucket, SlotSummary } from '../../../shared/summary';
+import { StatusColorMode, getStatusColor } from '../theme/palettes';
+import { useTheme } from '../theme/useTheme';
+
+const { Text } = Typography;
+
+interface SummaryPanelProps {
+  data: ExcelRow[];
+  columns?: ColumnDef[];
+}
+
+// Colours of the default status rules, shown when the theme isn't using its colour-blind-safe palette
+const BUCKETS: { key: SummaryBucket; label: string; color: string }[] = [
+  { key: 'success', label: 'Success', color: '#00B050' },
+  { key: 'error', label: 'Error', color: '#FF0000' },
+  { key: 'warning', label: 'Warning', color: '#FFC000' },
+  { key: 'default', label: 'Other', color: '#d9d9d9' },
+];
+
+const MAX_REPEAT_FAILURES = 8;
+
+// One stacked bar per time slot, segments sized by share of the slot's cells
+const SlotBar: React.FC<{ slot: SlotSummary; statusColors: StatusColorMode }> = ({ slot, statusColors }) => (
+  <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+    <Text className="app-heading" style={{ width: '72px', fontSize: '12px', fontWeight: 600 }} ellipsis={{ tooltip: slot.column }}>
+      {slot.column}
+    </Text>
+    <div style={{ flex: 1, display: 'flex', height: '12px', borderRadius: '3px', overflow: 'hidden', background: 'var(--app-border)' }}>
+      {BUCKETS.map(({ key, label, color }) => {
+        const count = slot.counts[key];
+        if (count === 0) return null;
+        return (
+          <Tooltip key={key} title={`${label}: ${count}`}>
+            <div style={{ width: `${(count / slot.total) * 100}%`, background: getStatusColor(statusColors, key, color) }} />
+          </Tooltip>
+        );
+      })}
+    </div>
+    <Text type="secondary" style={{ width: '64px', fontSize: '12px', textAlign: 'right' }}>
+      {slot.counts.error > 0 ? `${slot.counts.error} failed` : `${slot.total} jobs`}
+    </Text>
+  </div>
+);
+
+const SummaryPanel: React.FC<SummaryPanelProps> = ({ data, columns }) => {
+  const { statusColors } = useTheme();
+  const summary = useMemo(() => summarizeRows(data, columns), [data, columns]);
+  const errorColor = getStatusColor(statusColors, 'error', '#D32F2F');
+  const successColor = getStatusColor(statusColors, 'success', '#00B050');
+
+  if (summary.slots.length === 0) {
+    return null;
+  }
+
+  const failurePercent = Math.round(summary.failureRate * 1000) / 10;
+  const slaChecked = summary.sla['on-time'] + summary.sla['at-risk'] + summary.sla.breached;
+  // Room for the SLA figure when any time was checked against a target
+  const statSpan = slaChecked > 0 ? 4 : 6;
+
+  return (
+    <div style={{
+      border: '1px solid var(--app-border)',
+      borderRadius: '8px',
+      padding: '12px 16px',
+      marginBottom: '12px',
+      background: 'var(--app-surface-alt)'
+    }}>
+      <Row gutter={[24, 12]}>
+        <Col xs={12} md={statSpan}>
+          <Statistic title="Jobs" value={summary.totalRows} />
+        </Col>
+        <Col xs={12} md={statSpan}>
+          <Statistic
+            title="Failure rate"
+            value={failurePercent}
+            suffix="%"
+            valueStyle={{ color: summary.totals.error > 0 ? errorColor : successColor }}
+          />
+        </Col>
+        <Col xs={12} md={statSpan}>
+          <Statistic
+            title="Jobs with a failure"
+            value={summary.failingJobs}
+            valueStyle={{ color: summary.failingJobs > 0 ? errorColor : undefined }}
+          />
+        </Col>
+        <Col xs={12} md={statSpan}>
+          <Statistic title="Warnings" value={summary.totals.warning} />
+        </Col>
+        {slaChecked > 0 && (
+          <Col xs={12} md={statSpan}>
+            <Tooltip title={`${summary.sla['on-time']} on time, ${summary.sla['at-risk']} at risk, ${summary.sla.breached} breached`}>
+              <Statistic
+                title="SLA breaches"
+                value={summary.sla.breached}
+                suffix={<Text type="secondary" style={{ fontSize: '14px' }}>/ {slaChecked}</Text>}
+                valueStyle={{ color: summary.sla.breached > 0 ? errorColor : successColor }}
+              />
+            </Tooltip>
+          </Col>
+        )}
+
+        <Col xs={24} lg={14}>
+          <Space style={{ marginBottom: '6px' }}>
+            <Text strong className="app-heading">By time slot</Text>
+            {BUCKETS.map(({ key, label, color }) => (
+              <span key={key} style={{ fontSize: '11px', color: 'var(--app-text-muted)' }}>
+                <span style={{
+                  display: 'inline-block',
+                  width: '8px',
+                  height: '8px',
+                  borderRadius: '50%',
+                  background: getStatusColor(statusColors, key, color),
+                  marginRight: '4px'
+                }} />
+                {label} {summary.totals[key]}
+              </span>
+            ))}
+          </Space>
+          {summary.slots.map((slot) => (
+            <SlotBar key={slot.column} slot={slot} statusColors={statusColors} />
+          ))}
+        </Col>
+
+        <Col xs={24} lg={10}>
+          <Text strong className="app-heading" style={{ display: 'block', marginBottom: '6px' }}>
+            Failing in more than one slot
+          </Text>
+          {summary.repeatFailures.length === 0 ? (
+            <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="None" style={{ margin: '8px 0' }} />
+          ) : (
+            <>
+              {summary.repeatFailures.slice(0, MAX_REPEAT_FAILURES).map((failure) => (
+                <div key={`${failure.sNo}-${failure.job}`} style={{ fontSize: '12px', marginBottom: '4px' }}>
+                  <Text strong style={{ fontSize: '12px' }}>{failure.sNo}.</Text>{' '}
+                  <Text style={{ fontSize: '12px' }} ellipsis={{ tooltip: failure.job }}>{failure.job}</Text>{' '}
+                  <Tag color="red" title={failure.columns.join(', ')} style={{ fontSize: '11px', marginInlineStart: '4px' }}>
+                    {failure.columns.length} slots
+                  </Tag>
+                </div>
+              ))}
+              {summary.repeatFailures.length > MAX_REPEAT_FAILURES && (
+                <Text type="secondary" style={{ fontSize: '12px' }}>
+                  and {summary.repeatFailures.length - MAX_REPEAT_FAILURES} more
+                </Text>
+              )}
+            </>
+          )}
+        </Col>
+      </Row>
+    </div>
+  );
+};
+
+export default SummaryPanel;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Dropdown, Button } from 'antd';
+import type { MenuProps } from 'antd';
+import { BgColorsOutlined } from '@ant-design/icons';
+import { StatusColorMode, THEME_MODES, ThemeMode } from '../theme/palettes';
+import { useTheme } from '../theme/useTheme';
+
+const STATUS_COLOR_OPTIONS: { value: StatusColorMode; label: string }[] = [
+  { value: 'safe', label: 'Colour-blind safe' },
+  { value: 'rules', label: 'Status rule colours' },
+];
+
+// Menu keys are prefixed with their group so both choices fit in one selectable menu
+const ThemeMenu: React.FC<{ className?: string }> = ({ className }) => {
+  const { mode, statusColors, setMode, setStatusColors } = useTheme();
+
+  const items: MenuProps['items'] = [
+    {
+      type: 'group',
+      label: 'Theme',
+      children: THEME_MODES.map(({ value, label }) => ({ key: `mode:${value}`, label })),
+    },
+    { type: 'divider' },
+    {
+      type: 'group',
+      label: 'Status colours',
+      children: STATUS_COLOR_OPTIONS.map(({ value, label }) => ({ key: `status:${value}`, label })),
+    },
+  ];
+
+  const handleClick: MenuProps['onClick'] = ({ key }) => {
+    const [group, value] = key.split(':');
+    if (group === 'mode') setMode(value as ThemeMode);
+    else setStatusColors(value as StatusColorMode);
+  };
+
+  return (
+    <Dropdown
+      trigger={['click']}
+      menu={{ items, onClick: handleClick, selectable: true, selectedKeys: [`mode:${mode}`, `status:${statusColors}`] }}
+    >
+      <Button icon={<BgColorsOutlined />} className={className} size="middle" title="Theme and status colours" />
+    </Dropdown>
+  );
+};
+
+export default ThemeMenu;
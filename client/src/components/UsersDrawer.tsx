@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { Drawer, Table, Button, Space, Input, Select, Form, Modal, Popconfirm, Alert, Typography, message } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { listUsers, createUser, updateUser, deleteUser } from '../services/api';
+import { ApiError, AuthUser, UserAccount, UserInput, UserRole } from '../types';
+import { MIN_PASSWORD_LENGTH } from '../../../shared/auth';
+
+const { Text } = Typography;
+
+interface UsersDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  currentUser: AuthUser;
+}
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'uploader', label: 'Uploader' },
+  { value: 'admin', label: 'Admin' },
+];
+
+const UsersDrawer: React.FC<UsersDrawerProps> = ({ open, onClose, currentUser }) => {
+  const queryClient = useQueryClient();
+  const [form] = Form.useForm<UserInput>();
+  // Account whose password is being reset
+  const [passwordUser, setPasswordUser] = useState<UserAccount | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+
+  const usersQuery = useQuery({
+    queryKey: ['users'],
+    queryFn: listUsers,
+    enabled: open,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['users'] });
+  const showError = (error: ApiError) => message.error(error.details || error.error);
+
+  const createMutation = useMutation<UserAccount, ApiError, UserInput>({
+    mutationFn: (input) => createUser(input),
+    onSuccess: (user) => {
+      form.resetFields();
+      refresh();
+      message.success(`Added ${user.username}`);
+    },
+  });
+
+  const updateMutation = useMutation<UserAccount, ApiError, { id: string; changes: UserInput }>({
+    mutationFn: ({ id, changes }) => updateUser(id, changes),
+    onSuccess: refresh,
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation<void, ApiError, string>({
+    mutationFn: (id) => deleteUser(id),
+    onSuccess: refresh,
+    onError: showError,
+  });
+
+  const handleResetPassword = () => {
+    if (!passwordUser) return;
+    updateMutation.mutate({ id: passwordUser.id, changes: { password: newPassword } }, {
+      onSuccess: () => {
+        message.success(`Password changed; ${passwordUser.username} is signed out everywhere`);
+        setPasswordUser(null);
+        setNewPassword('');
+      },
+    });
+  };
+
+  const columns: ColumnsType<UserAccount> = [
+    {
+      title: 'Username',
+      dataIndex: 'username',
+      key: 'username',
+      render: (username: string, user) => (
+        <span>
+          {username}
+          {user.displayName && <Text type="secondary"> ({user.displayName})</Text>}
+        </span>
+      ),
+    },
+    {
+      title: 'Role',
+      dataIndex: 'role',
+      key: 'role',
+      width: 140,
+      render: (role: UserRole, user) => (
+        <Select
+          size="small"
+          value={role}
+          options={ROLE_OPTIONS}
+          // Admins can't demote themselves and lock everyone out
+          disabled={user.id === currentUser.id}
+          onChange={(value) => updateMutation.mutate({ id: user.id, changes: { role: value } })}
+          style={{ width: '110px' }}
+        />
+      ),
+    },
+    {
+      title: 'Added',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      width: 110,
+      render: (createdAt: string) => new Date(createdAt).toLocaleDateString(),
+    },
+    {
+      key: 'actions',
+      width: 170,
+      render: (_, user) => (
+        <Space size={4}>
+          <Button size="small" onClick={() => setPasswordUser(user)}>Set password</Button>
+          {user.id !== currentUser.id && (
+            <Popconfirm title={`Delete ${user.username}?`} onConfirm={() => deleteMutation.mutate(user.id)}>
+              <Button size="small" danger>Delete</Button>
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Drawer title="Users" open={open} onClose={onClose} width={720}>
+      <Text type="secondary" style={{ display: 'block', marginBottom: '12px' }}>
+        Viewers can open reports, uploaders can also upload workbooks, and admins can also change
+        status rules, SLA targets, column mappings and users.
+      </Text>
+
+      {createMutation.isError && (
+        <Alert
+          type="error"
+          showIcon
+          message={createMutation.error.error}
+          description={createMutation.error.details}
+          style={{ marginBottom: '12px' }}
+        />
+      )}
+
+      <Form<UserInput>
+        form={form}
+        layout="inline"
+        initialValues={{ role: 'viewer' }}
+        onFinish={(values) => createMutation.mutate(values)}
+        style={{ marginBottom: '16px', rowGap: '8px' }}
+      >
+        <Form.Item name="username" rules={[{ required: true, message: 'Username' }]}>
+          <Input placeholder="Username" autoComplete="off" style={{ width: '150px' }} />
+        </Form.Item>
+        <Form.Item name="password" rules={[{ required: true, min: MIN_PASSWORD_LENGTH, message: `${MIN_PASSWORD_LENGTH}+ characters` }]}>
+          <Input.Password placeholder="Password" autoComplete="new-password" style={{ width: '160px' }} />
+        </Form.Item>
+        <Form.Item name="role">
+          <Select options={ROLE_OPTIONS} style={{ width: '110px' }} />
+        </Form.Item>
+        <Button type="primary" htmlType="submit" loading={createMutation.isPending}>
+          Add user
+        </Button>
+      </Form>
+
+      <Table
+        dataSource={usersQuery.data || []}
+        columns={columns}
+        rowKey="id"
+        loading={usersQuery.isLoading}
+        pagination={false}
+        size="small"
+      />
+
+      <Modal
+        title={passwordUser ? `New password for ${passwordUser.username}` : ''}
+        open={!!passwordUser}
+        onOk={handleResetPassword}
+        okButtonProps={{ disabled: newPassword.length < MIN_PASSWORD_LENGTH, loading: updateMutation.isPending }}
+        onCancel={() => {
+          setPasswordUser(null);
+          setNewPassword('');
+        }}
+      >
+        <Input.Password
+          value={newPassword}
+          onChange={(event) => setNewPassword(event.target.value)}
+          placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+          autoComplete="new-password"
+        />
+      </Modal>
+    </Drawer>
+  );
+};
+
+export default UsersDrawer;
@@ -1,8 +1,12 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
-import { ConfigProvider } from 'antd'
+import { BrowserRouter, Route, Routes } from 'react-router-dom'
 import App from './App.tsx'
+import AuthGate from './components/AuthGate.tsx'
+import SharedReportView from './components/SharedReportView.tsx'
+import ThemeProvider from './theme/ThemeProvider.tsx'
+import { onUnauthorized } from './services/api'
 import './index.css'
 
 // Create a client
@@ -15,19 +19,30 @@ const queryClient = new QueryClient({
   },
 })
 
+// An expired or revoked session sends the user back to the sign-in form
+onUnauthorized(() => {
+  queryClient.setQueryData(['me'], null)
+})
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <QueryClientProvider client={queryClient}>
-      <ConfigProvider
-        theme={{
-          token: {
-            colorPrimary: '#1890ff',
-            borderRadius: 6,
-          },
-        }}
-      >
-        <App />
-      </ConfigProvider>
+      <ThemeProvider>
+        <BrowserRouter>
+          <Routes>
+            {/* Share links open read-only, without the sign-in form */}
+            <Route path="/shared/:token" element={<SharedReportView />} />
+            <Route
+              path="*"
+              element={(
+                <AuthGate>
+                  <App />
+                </AuthGate>
+              )}
+            />
+          </Routes>
+        </BrowserRouter>
+      </ThemeProvider>
     </QueryClientProvider>
   </React.StrictMode>,
 ) 
\ No newline at end of file
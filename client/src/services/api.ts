@@ -1,12 +1,49 @@
-import axios from 'axios';
-import { UploadResponse, ApiError } from '../types';
+import axios, { AxiosResponse } from 'axios';
+import {
+  UploadResponse,
+  ApiError,
+  StatusRuleConfig,
+  Report,
+  ReportSummary,
+  RowPage,
+  ReportDiff,
+  MappingProfile,
+  SlaConfig,
+  JobTimeline,
+  IngestionStatusResponse,
+  AuthUser,
+  LoginResponse,
+  UserAccount,
+  UserInput,
+  CellEdit,
+  ExcelRow,
+  RowEditRequest,
+  AlertRule,
+  AlertRuleInput,
+  AlertsResponse,
+  ShareLink,
+  ShareLinkInput,
+  SharedReport,
+  ColumnLayout,
+  SavedView,
+  SavedViewInput,
+} from '../types';
+import { isEmptyLayout } from '../../../shared/views';
 
 // Create axios instance with base configuration
 const api = axios.create({
   baseURL: '/api',
   timeout: 30000, // 30 seconds timeout for large files
+  withCredentials: true, // Session cookie, also when the API is on another origin
 });
 
+// Called when a request fails because the session is missing or has expired
+let unauthorizedHandler: (() => void) | null = null;
+
+export const onUnauthorized = (handler: () => void) => {
+  unauthorizedHandler = handler;
+};
+
 // Request interceptor
 api.interceptors.request.use(
   (config) => {
@@ -26,16 +63,41 @@ api.interceptors.response.use(
   },
   (error) => {
     console.error('❌ API Error:', error.response?.data || error.message);
+    // Failed sign-ins and the "who am I" check report 401 themselves
+    if (error.response?.status === 401 && !String(error.config?.url).startsWith('/auth/')) {
+      unauthorizedHandler?.();
+    }
     return Promise.reject(error);
   }
 );
 
-export const uploadExcelFile = async (file: File): Promise<UploadResponse> => {
+// Normalise axios failures into the { error, details } shape the server sends
+const toApiError = (error: unknown): ApiError => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data || {
+      error: 'Network error occurred',
+      details: error.message,
+    };
+  }
+  return { error: 'Unknown error occurred' };
+};
+
+export const uploadExcelFile = async (file: File, sheet?: string, profile?: string): Promise<UploadResponse> => {
   const formData = new FormData();
   formData.append('excel', file);
+  if (sheet) {
+    formData.append('sheet', sheet);
+  }
+  if (profile) {
+    formData.append('profile', profile);
+  }
 
   try {
+    // Saved uploads come back without rows; the grid pages through them with getReportRows
     const response = await api.post<UploadResponse>('/upload-excel', formData, {
+      params: { rows: false },
+      // Big workbooks take a while to send and parse
+      timeout: 5 * 60 * 1000,
       headers: {
         'Content-Type': 'multipart/form-data',
       },
@@ -51,14 +113,437 @@ export const uploadExcelFile = async (file: File): Promise<UploadResponse> => {
 
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const apiError: ApiError = error.response?.data || {
-        error: 'Network error occurred',
-        details: error.message,
-      };
-      throw apiError;
+    throw toApiError(error);
+  }
+};
+
+export const listReports = async (): Promise<ReportSummary[]> => {
+  try {
+    const response = await api.get<ReportSummary[]>('/reports');
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Sheets come with their columns and row counts but no rows; fetch those with getReportRows
+export const getReport = async (id: string): Promise<Report> => {
+  try {
+    const response = await api.get<Report>(`/reports/${id}`, { params: { rows: false } });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// One page of a sheet's rows; pass the previous page's nextCursor to continue
+export const getReportRows = async (id: string, sheet: string, cursor?: string): Promise<RowPage> => {
+  try {
+    const response = await api.get<RowPage>(`/reports/${id}/rows`, { params: { sheet, cursor } });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export interface RowEditResponse {
+  row: ExcelRow;
+  // Empty when nothing actually changed
+  edits: CellEdit[];
+}
+
+// Change notes or status cells of one row of a saved report
+export const editReportRow = async (id: string, rowId: string, request: RowEditRequest): Promise<RowEditResponse> => {
+  try {
+    const response = await api.patch<RowEditResponse>(`/reports/${id}/rows/${encodeURIComponent(rowId)}`, request);
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Who changed which cells of a report, oldest first
+export const listReportEdits = async (id: string, sheet?: string): Promise<CellEdit[]> => {
+  try {
+    const response = await api.get<CellEdit[]>(`/reports/${id}/edits`, { params: { sheet } });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Watched folder and the files picked up from it
+export const getIngestionStatus = async (): Promise<IngestionStatusResponse> => {
+  try {
+    const response = await api.get<IngestionStatusResponse>('/ingestion');
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Compare otherId (before) with id (after)
+export const getReportDiff = async (id: string, otherId: string, sheet?: string): Promise<ReportDiff> => {
+  try {
+    const response = await api.get<ReportDiff>(`/reports/${id}/diff/${otherId}`, {
+      params: { sheet },
+    });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export type RenderFormat = 'png' | 'pdf';
+export type ExportFormat = 'xlsx' | 'csv' | 'json';
+
+export interface FileDownload {
+  blob: Blob;
+  fileName: string;
+}
+
+// With responseType 'blob' the server's JSON error body arrives as a blob too
+const toBlobApiError = async (error: unknown): Promise<ApiError> => {
+  if (axios.isAxiosError(error) && error.response?.data instanceof Blob) {
+    try {
+      return JSON.parse(await error.response.data.text());
+    } catch {
+      return { error: 'Download failed', details: error.message };
     }
-    throw { error: 'Unknown error occurred' };
+  }
+  return toApiError(error);
+};
+
+const toFileDownload = (response: AxiosResponse<Blob>, fallbackName: string): FileDownload => {
+  const disposition = String(response.headers['content-disposition'] || '');
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+  return { blob: response.data, fileName };
+};
+
+// Query value for the column layout the grid shows; none for the default columns
+const layoutParam = (layout?: ColumnLayout) => (isEmptyLayout(layout) ? undefined : JSON.stringify(layout));
+
+// Only saved reports render: the Vercel functions have no renderer
+export const renderReport = async (
+  id: string,
+  format: RenderFormat,
+  sheet?: string,
+  layout?: ColumnLayout
+): Promise<FileDownload> => {
+  try {
+    const response = await api.get<Blob>(`/reports/${id}/render`, {
+      params: { format, sheet, layout: layoutParam(layout) },
+      responseType: 'blob',
+    });
+    return toFileDownload(response, `report.${format}`);
+  } catch (error) {
+    throw await toBlobApiError(error);
+  }
+};
+
+// Omit sheet to get every sheet in one XLSX workbook
+export const exportReport = async (
+  id: string,
+  format: ExportFormat,
+  sheet?: string,
+  layout?: ColumnLayout
+): Promise<FileDownload> => {
+  try {
+    const response = await api.get<Blob>(`/reports/${id}/export`, {
+      params: { format, sheet, layout: layoutParam(layout) },
+      responseType: 'blob',
+    });
+    return toFileDownload(response, `report.${format}`);
+  } catch (error) {
+    throw await toBlobApiError(error);
+  }
+};
+
+export const getStatusRules = async (): Promise<StatusRuleConfig> => {
+  try {
+    const response = await api.get<StatusRuleConfig>('/status-rules');
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const updateStatusRules = async (config: StatusRuleConfig): Promise<StatusRuleConfig> => {
+  try {
+    const response = await api.put<StatusRuleConfig>('/status-rules', config);
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const resetStatusRules = async (): Promise<StatusRuleConfig> => {
+  try {
+    const response = await api.delete<StatusRuleConfig>('/status-rules');
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export interface JobHistoryRange {
+  from?: string;
+  to?: string;
+}
+
+export const getJobHistory = async (job: string, range: JobHistoryRange = {}): Promise<JobTimeline> => {
+  try {
+    const response = await api.get<JobTimeline>('/jobs/history', { params: { job, ...range } });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const getSlaConfig = async (): Promise<SlaConfig> => {
+  try {
+    const response = await api.get<SlaConfig>('/sla');
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const updateSlaConfig = async (config: SlaConfig): Promise<SlaConfig> => {
+  try {
+    const response = await api.put<SlaConfig>('/sla', config);
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const resetSlaConfig = async (): Promise<SlaConfig> => {
+  try {
+    const response = await api.delete<SlaConfig>('/sla');
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const listMappingProfiles = async (): Promise<MappingProfile[]> => {
+  try {
+    const response = await api.get<MappingProfile[]>('/mapping-profiles');
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Omit the id to create a new profile
+export const saveMappingProfile = async (profile: Omit<MappingProfile, 'id'> & { id?: string }): Promise<MappingProfile> => {
+  try {
+    const response = profile.id
+      ? await api.put<MappingProfile>(`/mapping-profiles/${profile.id}`, profile)
+      : await api.post<MappingProfile>('/mapping-profiles', profile);
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const deleteMappingProfile = async (id: string): Promise<void> => {
+  try {
+    await api.delete(`/mapping-profiles/${id}`);
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const listAlertRules = async (): Promise<AlertRule[]> => {
+  try {
+    const response = await api.get<AlertRule[]>('/alert-rules');
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Omit the id to create a new rule
+export const saveAlertRule = async (rule: AlertRuleInput & { id?: string }): Promise<AlertRule> => {
+  try {
+    const response = rule.id
+      ? await api.put<AlertRule>(`/alert-rules/${rule.id}`, rule)
+      : await api.post<AlertRule>('/alert-rules', rule);
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const deleteAlertRule = async (id: string): Promise<void> => {
+  try {
+    await api.delete(`/alert-rules/${id}`);
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Silence a rule for some minutes, or pass null to resume it
+export const snoozeAlertRule = async (id: string, minutes: number | null): Promise<AlertRule> => {
+  try {
+    const response = minutes === null
+      ? await api.delete<AlertRule>(`/alert-rules/${id}/snooze`)
+      : await api.post<AlertRule>(`/alert-rules/${id}/snooze`, { minutes });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Notification senders and the alerts sent, newest first
+export const getAlerts = async (): Promise<AlertsResponse> => {
+  try {
+    const response = await api.get<AlertsResponse>('/alerts');
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Shared views and the user's own
+export const listSavedViews = async (): Promise<SavedView[]> => {
+  try {
+    const response = await api.get<SavedView[]>('/views');
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Omit the id to save a new view
+export const saveSavedView = async (view: SavedViewInput & { id?: string }): Promise<SavedView> => {
+  try {
+    const response = view.id
+      ? await api.put<SavedView>(`/views/${view.id}`, view)
+      : await api.post<SavedView>('/views', view);
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const deleteSavedView = async (id: string): Promise<void> => {
+  try {
+    await api.delete(`/views/${id}`);
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const listShareLinks = async (reportId: string): Promise<ShareLink[]> => {
+  try {
+    const response = await api.get<ShareLink[]>('/share-links', { params: { reportId } });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const createShareLink = async (input: ShareLinkInput): Promise<ShareLink> => {
+  try {
+    const response = await api.post<ShareLink>('/share-links', input);
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const revokeShareLink = async (id: string): Promise<ShareLink> => {
+  try {
+    const response = await api.delete<ShareLink>(`/share-links/${id}`);
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// The report behind a share link, without rows; works without signing in
+export const getSharedReport = async (token: string): Promise<SharedReport> => {
+  try {
+    const response = await api.get<SharedReport>(`/shared/${token}`);
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const getSharedReportRows = async (token: string, sheet: string, cursor?: string): Promise<RowPage> => {
+  try {
+    const response = await api.get<RowPage>(`/shared/${token}/rows`, { params: { sheet, cursor } });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// The signed-in user, or null when nobody is
+export const getCurrentUser = async (): Promise<AuthUser | null> => {
+  try {
+    const response = await api.get<AuthUser>('/auth/me');
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 401) return null;
+    throw toApiError(error);
+  }
+};
+
+export const login = async (username: string, password: string): Promise<LoginResponse> => {
+  try {
+    const response = await api.post<LoginResponse>('/auth/login', { username, password });
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const logout = async (): Promise<void> => {
+  try {
+    await api.post('/auth/logout');
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const listUsers = async (): Promise<UserAccount[]> => {
+  try {
+    const response = await api.get<UserAccount[]>('/users');
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const createUser = async (input: UserInput): Promise<UserAccount> => {
+  try {
+    const response = await api.post<UserAccount>('/users', input);
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+// Change a user's role, display name or password
+export const updateUser = async (id: string, changes: UserInput): Promise<UserAccount> => {
+  try {
+    const response = await api.put<UserAccount>(`/users/${id}`, changes);
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+};
+
+export const deleteUser = async (id: string): Promise<void> => {
+  try {
+    await api.delete(`/users/${id}`);
+  } catch (error) {
+    throw toApiError(error);
   }
 };
 
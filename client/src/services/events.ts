@@ -0,0 +1,54 @@
+import { ServerEvent } from '../types';
+
+type ServerEventListener = (event: ServerEvent) => void;
+
+// Wait before opening a new connection once the browser gave up on the old one
+const RECONNECT_DELAY_MS = 30 * 1000;
+
+const listeners = new Set<ServerEventListener>();
+let source: EventSource | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const connect = () => {
+  if (source || listeners.size === 0 || typeof EventSource === 'undefined') return;
+
+  const opened = new EventSource('/api/events', { withCredentials: true });
+  opened.onmessage = (message) => {
+    const event: ServerEvent = JSON.parse(message.data);
+    listeners.forEach((notify) => notify(event));
+  };
+  // The browser retries dropped connections by itself, but stops for good on an error response
+  // such as the 401 once the session has expired; start over so updates resume after sign-in
+  opened.onerror = () => {
+    if (opened.readyState !== EventSource.CLOSED || source !== opened) return;
+    source = null;
+    if (!reconnectTimer) {
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+      }, RECONNECT_DELAY_MS);
+    }
+  };
+  source = opened;
+};
+
+// Subscribe to the server's live updates; returns the unsubscribe function.
+// One EventSource is shared by the whole tab, opened with the first listener and closed with
+// the last. The browser reconnects by itself when the server restarts.
+export const onServerEvent = (listener: ServerEventListener) => {
+  listeners.add(listener);
+  connect();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) return;
+    if (source) {
+      source.close();
+      source = null;
+    }
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+  };
+};
@@ -0,0 +1,55 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ConfigProvider } from 'antd';
+import { ANTD_THEMES, StatusColorMode, THEME_MODES, ThemeMode } from './palettes';
+import { ThemeContext } from './useTheme';
+import '../styles/theme.css';
+import '../styles/print.css';
+
+const MODE_KEY = 'theme.mode';
+const STATUS_COLORS_KEY = 'theme.statusColors';
+
+// A saved choice wins; otherwise the system's high-contrast or dark preference
+const initialMode = (): ThemeMode => {
+  const saved = localStorage.getItem(MODE_KEY);
+  if (THEME_MODES.some((option) => option.value === saved)) return saved as ThemeMode;
+  if (window.matchMedia?.('(prefers-contrast: more)').matches) return 'high-contrast';
+  if (window.matchMedia?.('(prefers-color-scheme: dark)').matches) return 'dark';
+  return 'light';
+};
+
+const initialStatusColors = (): StatusColorMode =>
+  (localStorage.getItem(STATUS_COLORS_KEY) === 'rules' ? 'rules' : 'safe');
+
+// Applies the chosen palette to antd components and, through data-theme on <html>, to the
+// CSS variables the app's own styles use. Choices are kept per browser.
+const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [mode, setModeState] = useState<ThemeMode>(initialMode);
+  const [statusColors, setStatusColorsState] = useState<StatusColorMode>(initialStatusColors);
+
+  useEffect(() => {
+    document.documentElement.dataset.theme = mode;
+  }, [mode]);
+
+  const settings = useMemo(() => ({
+    mode,
+    statusColors,
+    setMode: (next: ThemeMode) => {
+      localStorage.setItem(MODE_KEY, next);
+      setModeState(next);
+    },
+    setStatusColors: (next: StatusColorMode) => {
+      localStorage.setItem(STATUS_COLORS_KEY, next);
+      setStatusColorsState(next);
+    },
+  }), [mode, statusColors]);
+
+  return (
+    <ThemeContext.Provider value={settings}>
+      <ConfigProvider theme={ANTD_THEMES[mode]}>
+        {children}
+      </ConfigProvider>
+    </ThemeContext.Provider>
+  );
+};
+
+export default ThemeProvider;
@@ -0,0 +1,86 @@
+import { theme, ThemeConfig } from 'antd';
+import { StatusInfoType } from '../types';
+
+export type ThemeMode = 'light' | 'dark' | 'high-contrast';
+
+// 'safe' shows statuses in the colour-blind-safe palette below; 'rules' in the colours set in
+// the status rules, as the PNG/PDF renders and XLSX exports do
+export type StatusColorMode = 'safe' | 'rules';
+
+export const THEME_MODES: { value: ThemeMode; label: string }[] = [
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'high-contrast', label: 'High contrast' },
+];
+
+// Okabe–Ito colours, told apart with every common form of colour blindness. Success and error
+// also differ in lightness, and the grid draws error and warning markers as different shapes.
+export const STATUS_PALETTE: Record<StatusInfoType, string> = {
+  success: '#009E73',
+  error: '#D55E00',
+  warning: '#E69F00',
+  processing: '#0072B2',
+  info: '#56B4E9',
+  purple: '#CC79A7',
+  default: '#BBBBBB',
+};
+
+// The colour a status marker is drawn in
+export const getStatusColor = (mode: StatusColorMode, type: string, ruleColor?: string) => {
+  if (mode === 'safe' && type in STATUS_PALETTE) return STATUS_PALETTE[type as StatusInfoType];
+  return ruleColor || STATUS_PALETTE.default;
+};
+
+// antd component tokens per mode; the app's own surfaces use the CSS variables in styles/theme.css
+export const ANTD_THEMES: Record<ThemeMode, ThemeConfig> = {
+  light: {
+    algorithm: theme.defaultAlgorithm,
+    token: {
+      colorPrimary: '#1890ff',
+      borderRadius: 6,
+    },
+  },
+  dark: {
+    algorithm: theme.darkAlgorithm,
+    token: {
+      colorPrimary: '#4096ff',
+      borderRadius: 6,
+    },
+  },
+  'high-contrast': {
+    algorithm: theme.defaultAlgorithm,
+    token: {
+      colorPrimary: '#0047AB',
+      colorText: '#000000',
+      colorTextSecondary: '#1f1f1f',
+      colorBorder: '#000000',
+      colorBorderSecondary: '#000000',
+      colorLink: '#0000CC',
+      lineWidth: 2,
+      borderRadius: 2,
+    },
+  },
+};
+
+// Table tokens for the data grid. They point at CSS variables, so one set serves every mode and
+// print can switch the grid back to light colours.
+export const GRID_TABLE_THEME: ThemeConfig = {
+  components: {
+    Table: {
+      colorBgContainer: 'var(--grid-bg)',
+      colorText: 'var(--grid-text)',
+      headerBg: 'var(--grid-header-bg)',
+      headerColor: 'var(--grid-header-text)',
+      headerSplitColor: 'var(--grid-header-border)',
+      headerSortActiveBg: 'var(--grid-header-bg)',
+      headerSortHoverBg: 'var(--grid-header-bg)',
+      headerFilterHoverBg: 'transparent',
+      fixedHeaderSortActiveBg: 'var(--grid-header-bg)',
+      bodySortBg: 'transparent',
+      borderColor: 'var(--grid-border)',
+      rowHoverBg: 'var(--grid-row-hover)',
+      cellPaddingBlockSM: 2,
+      cellPaddingInlineSM: 6,
+    },
+  },
+};
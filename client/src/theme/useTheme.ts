@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { StatusColorMode, ThemeMode } from './palettes';
+
+export interface ThemeSettings {
+  mode: ThemeMode;
+  statusColors: StatusColorMode;
+  setMode: (mode: ThemeMode) => void;
+  setStatusColors: (statusColors: StatusColorMode) => void;
+}
+
+export const ThemeContext = createContext<ThemeSettings>({
+  mode: 'light',
+  statusColors: 'safe',
+  setMode: () => undefined,
+  setStatusColors: () => undefined,
+});
+
+export const useTheme = () => useContext(ThemeContext);
@@ -1,17 +1,46 @@
-export interface ExcelRow {
-  id: string;
-  rowNumber: number;
-  uploadDate: string;
-  [key: string]: any;
-}
+import type { ExcelRow } from '../../../shared/types';
 
-export interface UploadResponse {
-  success: boolean;
-  data: ExcelRow[];
-  totalRows: number;
-  fileName: string;
-  uploadDate: string;
-}
+// Row and response shapes come from the shared parser so client and server can't drift
+export type {
+  ExcelRow,
+  SheetData,
+  UploadResponse,
+  Report,
+  ReportSummary,
+  ReportSource,
+  RowPage,
+  IngestionLogEntry,
+  IngestionStatus,
+  IngestionStatusResponse,
+  ServerEvent,
+  StatusInfo,
+  StatusInfoType,
+  ImportIssue,
+  ImportIssueCode,
+  ImportIssueSeverity,
+  ColumnDef,
+  ColumnRole,
+  CellKind
+} from '../../../shared/types';
+export type { AuthUser, UserAccount, UserInput, UserRole, LoginResponse } from '../../../shared/auth';
+export type { CellEdit, RowEditRequest } from '../../../shared/edits';
+export type {
+  AlertRule,
+  AlertRuleInput,
+  AlertTrigger,
+  AlertLogEntry,
+  AlertDelivery,
+  AlertSenderInfo,
+  AlertsResponse
+} from '../../../shared/alerts';
+export type { ColumnLayout, SavedView, SavedViewInput, LaidOutColumn } from '../../../shared/views';
+export type { ShareLink, ShareLinkInput, ShareLinkState, SharedReport } from '../../../shared/shareLinks';
+export type { MappingProfile, MappingRule, MappingMatch } from '../../../shared/mapping';
+export type { StatusRule, StatusRuleConfig, StatusRuleMatch } from '../../../shared/statusRules';
+export type { SlaConfig, SlaTarget, SlaState } from '../../../shared/sla';
+export type { JobTimeline, JobTimelineEntry, JobRunOutcome, JobRunCell } from '../../../shared/history';
+export type { ReportDiff, RowDiff, CellChange, DiffSummary, RowChange } from '../../../shared/diff';
+export type { GridFilters } from '../../../shared/gridFilters';
 
 export interface UploadInfo {
   fileName: string;
@@ -0,0 +1,43 @@
+import { ColumnDef, ColumnLayout } from '../types';
+import { MAX_COLUMN_WIDTH, MIN_COLUMN_WIDTH, getLayoutOrder } from '../../../shared/views';
+
+export const clampColumnWidth = (width: number) =>
+  Math.round(Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width)));
+
+// Put `key` where `targetKey` is now, shifting the columns in between
+export const moveColumn = (columns: ColumnDef[], layout: ColumnLayout, key: string, targetKey: string): ColumnLayout => {
+  const order = getLayoutOrder(columns, layout).filter((candidate) => candidate !== key);
+  const target = getLayoutOrder(columns, layout).indexOf(targetKey);
+  if (target === -1) return layout;
+  order.splice(target, 0, key);
+  return { ...layout, order };
+};
+
+// Move a column one place left (-1) or right (1) among every column, hidden ones included
+export const shiftColumn = (columns: ColumnDef[], layout: ColumnLayout, key: string, step: -1 | 1): ColumnLayout => {
+  const order = getLayoutOrder(columns, layout);
+  const target = order[order.indexOf(key) + step];
+  return target ? moveColumn(columns, layout, key, target) : layout;
+};
+
+// Add or remove a key from the hidden or pinned list
+export const toggleColumn = (layout: ColumnLayout, list: 'hidden' | 'pinned', key: string): ColumnLayout => {
+  const keys = layout[list] || [];
+  return { ...layout, [list]: keys.includes(key) ? keys.filter((candidate) => candidate !== key) : [...keys, key] };
+};
+
+export const setColumnWidth = (layout: ColumnLayout, key: string, width: number): ColumnLayout => ({
+  ...layout,
+  widths: { ...layout.widths, [key]: clampColumnWidth(width) },
+});
+
+// Layouts compared regardless of key order in `widths`, to tell whether a saved view was changed
+export const isSameLayout = (a: ColumnLayout = {}, b: ColumnLayout = {}) => {
+  const normalise = (layout: ColumnLayout) => JSON.stringify({
+    order: layout.order || [],
+    hidden: [...(layout.hidden || [])].sort(),
+    pinned: [...(layout.pinned || [])].sort(),
+    widths: Object.entries(layout.widths || {}).sort(([x], [y]) => x.localeCompare(y)),
+  });
+  return normalise(a) === normalise(b);
+};
@@ -0,0 +1,16 @@
+import { InfiniteData, QueryClient } from '@tanstack/react-query';
+import { ExcelRow, RowPage } from '../types';
+
+// Cache key of a saved report's rows, one sheet at a time
+export const reportRowsKey = (reportId: string | null, sheet: string) => ['report', reportId, 'rows', sheet];
+
+// Put an edited row into the cached pages of its sheet, leaving the other pages alone. A big
+// sheet spans dozens of pages, which refetching the report would load all over again.
+export const replaceCachedRow = (queryClient: QueryClient, reportId: string, sheet: string, row: ExcelRow) => {
+  queryClient.setQueryData<InfiniteData<RowPage>>(reportRowsKey(reportId, sheet), (data) => data && {
+    ...data,
+    pages: data.pages.map((page) => (page.rows.some((candidate) => candidate.id === row.id)
+      ? { ...page, rows: page.rows.map((candidate) => (candidate.id === row.id ? row : candidate)) }
+      : page)),
+  });
+};
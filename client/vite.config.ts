@@ -6,6 +6,10 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 3000,
+    fs: {
+      // Allow importing the column model and other helpers from ../shared
+      allow: ['..'],
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:5000',
@@ -0,0 +1,67 @@
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// The routes keep their files under DATA_DIR, so point it somewhere disposable before loading them
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ccs-routes-'));
+process.env.DATA_DIR = dataDir;
+
+const express = require('express');
+const reportsRouter = require('../routes/reports');
+
+describe('POST /api/reports/render', () => {
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/reports', reportsRouter);
+    // The same last resort as server.js
+    app.use((error, req, res, next) => res.status(500).json({ error: 'Internal server error', details: error.message }));
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://localhost:${server.address().port}/api/reports`;
+  });
+
+  after(() => {
+    server.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const render = (body) => fetch(`${baseUrl}/render`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  it('refuses sheets without rows instead of crashing', async () => {
+    for (const report of [{ sheets: [null] }, { data: [], sheets: 'x' }, { sheets: [{ name: 'Daily' }] }, {}]) {
+      const response = await render({ report });
+      assert.equal(response.status, 400, JSON.stringify(report));
+      assert.equal((await response.json()).error, 'Invalid report');
+    }
+  });
+
+  it('renders a posted report', async () => {
+    const response = await render({
+      report: {
+        fileName: 'daily.xlsx',
+        uploadDate: '2024-03-01T08:00:00Z',
+        sheets: [{
+          name: 'Daily',
+          columns: [{ key: 'Job Details', role: 'title' }, { key: '06:00', role: 'status' }],
+          data: [{ id: 'r1', rowNumber: 2, 'Job Details': 'Billing extract', '06:00': 'PASS', '06:00_type': 'success' }],
+          totalRows: 1
+        }]
+      }
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('content-type'), 'image/png');
+    assert.match(response.headers.get('content-disposition'), /daily-Daily-2024-03-01\.png/);
+  });
+});
@@ -0,0 +1,64 @@
+const path = require('path');
+const crypto = require('crypto');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+
+const RULES_FILE = path.join(DATA_DIR, 'alert-rules.json');
+
+const loadAlertRules = () => readJson(RULES_FILE, []);
+
+const getAlertRule = (id) => loadAlertRules().find((rule) => rule.id === id) || null;
+
+// Only the fields a rule uses are kept; snoozing is changed separately
+const toStoredRule = (id, { name, trigger, job, status, statusType, threshold, senders, enabled }, snoozedUntil) => ({
+  id,
+  name: name.trim(),
+  trigger,
+  job: job || undefined,
+  status: trigger === 'status' && status ? status : undefined,
+  statusType: trigger === 'status' && !status ? statusType : undefined,
+  threshold: trigger === 'error-count' ? threshold : undefined,
+  senders: senders && senders.length > 0 ? senders : undefined,
+  enabled,
+  snoozedUntil
+});
+
+const createAlertRule = (input) => {
+  const rule = toStoredRule(crypto.randomUUID(), input);
+  writeJson(RULES_FILE, [...loadAlertRules(), rule]);
+  return rule;
+};
+
+// Apply a change to one stored rule; returns null when there is no such rule
+const changeRule = (id, change) => {
+  const rules = loadAlertRules();
+  const index = rules.findIndex((rule) => rule.id === id);
+  if (index === -1) return null;
+
+  rules[index] = change(rules[index]);
+  writeJson(RULES_FILE, rules);
+  return rules[index];
+};
+
+// Editing a rule keeps its snooze
+const updateAlertRule = (id, input) => changeRule(id, (rule) => toStoredRule(id, input, rule.snoozedUntil));
+
+// `until` is an ISO timestamp, or null to resume notifications
+const snoozeAlertRule = (id, until) => changeRule(id, (rule) => ({ ...rule, snoozedUntil: until || undefined }));
+
+const deleteAlertRule = (id) => {
+  const rules = loadAlertRules();
+  const remaining = rules.filter((rule) => rule.id !== id);
+  if (remaining.length === rules.length) return false;
+
+  writeJson(RULES_FILE, remaining);
+  return true;
+};
+
+module.exports = {
+  loadAlertRules,
+  getAlertRule,
+  createAlertRule,
+  updateAlertRule,
+  snoozeAlertRule,
+  deleteAlertRule
+};
@@ -0,0 +1,103 @@
+const fs = require('fs');
+const nodemailer = require('nodemailer');
+
+// Where alert notifications go. Each sender is switched on by its environment variables:
+// - webhook: ALERT_WEBHOOK_URL (JSON POST with a `text` field, so Slack/Teams-style hooks show it)
+// - email:   ALERT_SMTP_HOST and ALERT_EMAIL_TO, optional ALERT_SMTP_PORT, ALERT_SMTP_USER, ALERT_SMTP_PASS, ALERT_EMAIL_FROM
+// - file:    ALERT_FILE, a path that gets one JSON line per notification
+// - console: ALERT_CONSOLE=true, handy for trying rules out locally
+// More can be plugged in with registerAlertSender.
+const senders = new Map();
+
+// `sender` is { label, isConfigured(): boolean, send(notification): Promise }; send throws when delivery fails
+const registerAlertSender = (id, sender) => {
+  senders.set(id, sender);
+};
+
+registerAlertSender('webhook', {
+  label: 'Webhook',
+  isConfigured: () => !!process.env.ALERT_WEBHOOK_URL,
+  send: async (notification) => {
+    const response = await fetch(process.env.ALERT_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...notification, text: `*${notification.subject}*\n${notification.text}` }),
+      signal: AbortSignal.timeout(10000)
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook answered ${response.status} ${response.statusText}`);
+    }
+  }
+});
+
+// Created on first use so the SMTP settings are read after dotenv has loaded them
+let mailTransport = null;
+const getMailTransport = () => {
+  if (!mailTransport) {
+    const port = Number(process.env.ALERT_SMTP_PORT) || 587;
+    mailTransport = nodemailer.createTransport({
+      host: process.env.ALERT_SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.ALERT_SMTP_USER
+        ? { user: process.env.ALERT_SMTP_USER, pass: process.env.ALERT_SMTP_PASS }
+        : undefined
+    });
+  }
+  return mailTransport;
+};
+
+registerAlertSender('email', {
+  label: 'E-mail',
+  isConfigured: () => !!(process.env.ALERT_SMTP_HOST && process.env.ALERT_EMAIL_TO),
+  send: async (notification) => {
+    await getMailTransport().sendMail({
+      from: process.env.ALERT_EMAIL_FROM || `CCS Report <alerts@${process.env.ALERT_SMTP_HOST}>`,
+      to: process.env.ALERT_EMAIL_TO,
+      subject: notification.subject,
+      text: notification.text
+    });
+  }
+});
+
+registerAlertSender('file', {
+  label: 'File',
+  isConfigured: () => !!process.env.ALERT_FILE,
+  send: async (notification) => {
+    await fs.promises.appendFile(
+      process.env.ALERT_FILE,
+      `${JSON.stringify({ sentAt: new Date().toISOString(), ...notification })}\n`
+    );
+  }
+});
+
+registerAlertSender('console', {
+  label: 'Console',
+  isConfigured: () => process.env.ALERT_CONSOLE === 'true',
+  send: async (notification) => {
+    console.log(`🚨 ${notification.subject}\n${notification.text}`);
+  }
+});
+
+const listAlertSenders = () => Array.from(senders, ([id, sender]) => ({
+  id,
+  label: sender.label,
+  configured: sender.isConfigured()
+}));
+
+// Send through the given senders (every configured one when none are given); one delivery result per sender tried
+const sendAlert = async (notification, senderIds) => {
+  const targets = Array.from(senders.entries()).filter(([id, sender]) =>
+    sender.isConfigured() && (!senderIds || senderIds.length === 0 || senderIds.includes(id)));
+
+  return Promise.all(targets.map(async ([id, sender]) => {
+    try {
+      await sender.send(notification);
+      return { sender: id, ok: true };
+    } catch (error) {
+      return { sender: id, ok: false, error: error.message };
+    }
+  }));
+};
+
+module.exports = { registerAlertSender, listAlertSenders, sendAlert };
@@ -0,0 +1,78 @@
+const path = require('path');
+const crypto = require('crypto');
+const { evaluateAlertRules } = require('../../shared/alerts');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+const { loadAlertRules } = require('./alertRules');
+const { listAlertSenders, sendAlert } = require('./alertSenders');
+const { publishEvent } = require('./serverEvents');
+
+const LOG_FILE = path.join(DATA_DIR, 'alert-log.json');
+const MAX_LOG_ENTRIES = 500;
+
+// Newest first
+const listAlertLog = () => readJson(LOG_FILE, []);
+
+const appendLog = (entry) => {
+  writeJson(LOG_FILE, [entry, ...listAlertLog()].slice(0, MAX_LOG_ENTRIES));
+  publishEvent({ type: 'alert', entry });
+  return entry;
+};
+
+const toNotification = (report, rule, match) => {
+  const lines = [
+    `${match.summary} in ${report.fileName} (uploaded ${new Date(report.uploadDate).toLocaleString()}).`,
+    '',
+    ...match.cells.map((cell) => `- ${cell.sheet} / ${cell.job} / ${cell.column}: ${cell.value}`)
+  ];
+  if (match.count > match.cells.length) {
+    lines.push(`…and ${match.count - match.cells.length} more`);
+  }
+
+  return {
+    subject: `${rule.name}: ${match.summary}`,
+    text: lines.join('\n'),
+    rule: { id: rule.id, name: rule.name, trigger: rule.trigger },
+    report: { id: report.reportId, fileName: report.fileName, uploadDate: report.uploadDate },
+    count: match.count,
+    cells: match.cells
+  };
+};
+
+// Check a newly saved report against the alert rules and notify for each match. Never rejects:
+// a sender that is down is recorded in the log rather than failing the upload.
+const checkReportAlerts = async (report) => {
+  try {
+    const rules = loadAlertRules();
+    const matches = evaluateAlertRules(report, rules);
+
+    for (const match of matches) {
+      const rule = rules.find((candidate) => candidate.id === match.ruleId);
+      const deliveries = await sendAlert(toNotification(report, rule, match), rule.senders);
+      if (deliveries.length === 0) {
+        console.warn(`🚨 Alert "${rule.name}" matched ${report.fileName} but no sender is configured`);
+      }
+
+      appendLog({
+        id: crypto.randomUUID(),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        reportId: report.reportId,
+        fileName: report.fileName,
+        sentAt: new Date().toISOString(),
+        count: match.count,
+        summary: match.summary,
+        deliveries
+      });
+    }
+  } catch (error) {
+    console.error(`Alert check of report ${report.reportId} failed:`, error);
+  }
+};
+
+// Senders and recent notifications, for the API
+const getAlertsStatus = () => ({
+  senders: listAlertSenders(),
+  entries: listAlertLog()
+});
+
+module.exports = { checkReportAlerts, getAlertsStatus, listAlertLog };
@@ -0,0 +1,76 @@
+const { hasRole, readHeaderIdentityConfig, resolveHeaderIdentity } = require('../../shared/auth');
+const { findUser, findUserByUsername } = require('./users');
+const { SESSION_TTL_MS, getSessionUserId } = require('./sessions');
+
+const SESSION_COOKIE = 'ccs_session';
+
+// Only set AUTH_USER_HEADER when a proxy in front of the server sets (and strips) that header
+const headerIdentity = readHeaderIdentityConfig(process.env);
+
+const readCookie = (req, name) => {
+  const cookies = String(req.headers.cookie || '').split(';').map((part) => part.trim());
+  const match = cookies.find((cookie) => cookie.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null;
+};
+
+// Bearer token for scripts, otherwise the browser's session cookie
+const getSessionToken = (req) => {
+  const authorization = String(req.headers.authorization || '');
+  if (authorization.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim();
+  return readCookie(req, SESSION_COOKIE);
+};
+
+const resolveUser = (req) => {
+  const fromHeader = headerIdentity && resolveHeaderIdentity(req.headers, headerIdentity);
+  if (fromHeader) {
+    // A local account with the same name decides the role, so admins can be granted centrally
+    const account = findUserByUsername(fromHeader.username);
+    return account ? { ...account, provider: 'header' } : fromHeader;
+  }
+
+  const token = getSessionToken(req);
+  const userId = token && getSessionUserId(token);
+  return userId ? findUser(userId) : null;
+};
+
+// Set req.user for every request; rejecting is left to requireRole
+const authenticate = (req, res, next) => {
+  req.user = resolveUser(req);
+  next();
+};
+
+// 401 without a user, 403 when their role is below `role`
+const requireRole = (role) => (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+  if (!hasRole(req.user, role)) {
+    return res.status(403).json({
+      error: 'Not allowed',
+      details: `This needs the ${role} role; ${req.user.username} is a ${req.user.role}`
+    });
+  }
+  next();
+};
+
+const setSessionCookie = (res, token) => {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: SESSION_TTL_MS,
+    path: '/'
+  });
+};
+
+const clearSessionCookie = (res) => {
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+};
+
+module.exports = {
+  authenticate,
+  requireRole,
+  getSessionToken,
+  setSessionCookie,
+  clearSessionCookie
+};
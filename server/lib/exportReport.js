@@ -0,0 +1,152 @@
+const ExcelJS = require('exceljs');
+const { getSheetColumns, isPlainTimeCell } = require('../../shared/columns');
+const { applyColumnLayout } = require('../../shared/views');
+
+const HEADER_FILL = '34495E';
+const BORDER_COLOR = 'D0D7DE';
+
+const sortRows = (rows) => [...rows].sort((a, b) => (a.rowNumber || 0) - (b.rowNumber || 0));
+
+// '#FF0000' -> 'FFFF0000' (ARGB), or null for anything that isn't a plain hex colour
+const toArgb = (color) => (/^#[0-9a-fA-F]{6}$/.test(color || '') ? `FF${color.slice(1).toUpperCase()}` : null);
+
+// Dark text on light fills (amber, grey), white on the rest
+const textColorFor = (color) => {
+  const channel = (offset) => parseInt(color.slice(offset, offset + 2), 16);
+  const luminance = 0.299 * channel(1) + 0.587 * channel(3) + 0.114 * channel(5);
+  return luminance > 160 ? 'FF202124' : 'FFFFFFFF';
+};
+
+// Excel sheet names: max 31 chars, no []:*?/\ and unique within the workbook
+const toWorksheetName = (name, used) => {
+  const base = (String(name || 'Sheet').replace(/[[\]:*?/\\]/g, ' ').trim() || 'Sheet').slice(0, 31);
+  let candidate = base;
+  for (let index = 2; used.has(candidate.toLowerCase()); index += 1) {
+    const suffix = ` (${index})`;
+    candidate = `${base.slice(0, 31 - suffix.length)}${suffix}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Columns in the order, and with the widths, of the column layout (the grid's defaults without one)
+const getExportColumns = (rows, sheet, columnLayout) => applyColumnLayout(getSheetColumns(rows, sheet.columns), columnLayout);
+
+const addWorksheet = (workbook, sheet, name, columnLayout) => {
+  const rows = sortRows(sheet.data || []);
+  const columns = getExportColumns(rows, sheet, columnLayout);
+  const keys = columns.map((column) => column.key);
+  const worksheet = workbook.addWorksheet(name, {
+    views: [{ state: 'frozen', ySplit: 1 }]
+  });
+
+  // Column widths are in characters; the grid's pixel widths divide down to roughly the same look
+  worksheet.columns = columns.map((column) => ({
+    header: column.key,
+    key: column.key,
+    width: Math.max(8, Math.round(column.width / 7))
+  }));
+
+  const border = { style: 'thin', color: { argb: `FF${BORDER_COLOR}` } };
+  const borders = { top: border, left: border, bottom: border, right: border };
+
+  const headerRow = worksheet.getRow(1);
+  headerRow.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  headerRow.alignment = { vertical: 'middle', horizontal: 'center', wrapText: true };
+  headerRow.eachCell((cell) => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `FF${HEADER_FILL}` } };
+    cell.border = borders;
+  });
+
+  rows.forEach((row) => {
+    const values = {};
+    keys.forEach((key) => {
+      values[key] = row[key] ?? '';
+    });
+    const excelRow = worksheet.addRow(values);
+
+    columns.forEach(({ key, role }, index) => {
+      const cell = excelRow.getCell(index + 1);
+      cell.border = borders;
+
+      if (role === 'id') {
+        cell.alignment = { horizontal: 'center', vertical: 'middle' };
+        cell.font = { bold: true };
+        return;
+      }
+      if (role === 'title' || role === 'notes') {
+        cell.alignment = { vertical: 'middle', wrapText: true };
+        return;
+      }
+
+      cell.alignment = { horizontal: 'center', vertical: 'middle' };
+      const value = row[key];
+      const argb = toArgb(row[`${key}_color`]);
+      if (value === undefined || value === null || value === '' || !argb) return;
+      if (isPlainTimeCell(value, row[`${key}_type`] || '')) return;
+
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb } };
+      cell.font = { bold: true, color: { argb: textColorFor(row[`${key}_color`]) } };
+    });
+  });
+
+  if (keys.length > 0) {
+    worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: keys.length } };
+  }
+};
+
+// One worksheet per sheet; status cells keep the fill colour the grid shows
+const exportReportXlsx = async (report, sheets, columnLayout) => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date(report.uploadDate || Date.now());
+
+  const used = new Set();
+  sheets.forEach((sheet) => addWorksheet(workbook, sheet, toWorksheetName(sheet.name, used), columnLayout));
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+const escapeCsv = (value) => {
+  const text = String(value ?? '');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Plain values in grid column order; a BOM lets Excel pick up UTF-8
+const exportReportCsv = (report, sheet, columnLayout) => {
+  const rows = sortRows(sheet.data || []);
+  const keys = getExportColumns(rows, sheet, columnLayout).map((column) => column.key);
+  const lines = [
+    keys.map(escapeCsv).join(','),
+    ...rows.map((row) => keys.map((key) => escapeCsv(row[key])).join(','))
+  ];
+  return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf8');
+};
+
+// Cell values plus the status each status column resolved to
+const exportReportJson = (report, sheet, columnLayout) => {
+  const rows = sortRows(sheet.data || []);
+  const columns = getExportColumns(rows, sheet, columnLayout);
+  const body = {
+    fileName: report.fileName,
+    uploadDate: report.uploadDate,
+    sheetName: sheet.name,
+    columns: columns.map(({ key, role }) => ({ key, role })),
+    rows: rows.map((row) => {
+      const values = {};
+      columns.forEach(({ key }) => {
+        values[key] = row[key] ?? '';
+        if (row[`${key}_status`] !== undefined) {
+          values[`${key}_status`] = row[`${key}_status`];
+        }
+        if (row[`${key}_kind`] !== undefined) {
+          values[`${key}_value`] = row[`${key}_value`];
+          values[`${key}_kind`] = row[`${key}_kind`];
+        }
+      });
+      return values;
+    })
+  };
+  return Buffer.from(JSON.stringify(body, null, 2), 'utf8');
+};
+
+module.exports = { exportReportXlsx, exportReportCsv, exportReportJson };
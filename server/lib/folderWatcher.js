@@ -0,0 +1,151 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+const { hashFile, findReportByHash } = require('./reportStore');
+const { getMappingProfile } = require('./mappingProfiles');
+const { ingestReport } = require('./ingestReport');
+const { publishEvent } = require('./serverEvents');
+
+const LOG_FILE = path.join(DATA_DIR, 'ingestion-log.json');
+// Size and modification time of every file already handled, so restarts don't pick them up again
+const SEEN_FILE = path.join(DATA_DIR, 'watched-files.json');
+const MAX_LOG_ENTRIES = 500;
+const WATCHED_EXTENSIONS = ['.xlsx', '.xls', '.csv'];
+
+let watcher = null;
+
+// Newest first
+const listIngestionLog = () => readJson(LOG_FILE, []);
+
+const appendLog = (entry) => {
+  writeJson(LOG_FILE, [entry, ...listIngestionLog()].slice(0, MAX_LOG_ENTRIES));
+  publishEvent({ type: 'ingestion', entry });
+  return entry;
+};
+
+// Excel keeps "~$name.xlsx" lock files next to open workbooks; skip those and hidden files
+const isWatchedFile = (name) =>
+  !name.startsWith('~$') && !name.startsWith('.') && WATCHED_EXTENSIONS.includes(path.extname(name).toLowerCase());
+
+// Save one file from the watched folder as a report, unless one with the same content exists
+const ingestWatchedFile = async (filePath, profileId) => {
+  const entry = {
+    id: crypto.randomUUID(),
+    fileName: path.basename(filePath),
+    filePath,
+    detectedAt: new Date().toISOString()
+  };
+
+  try {
+    const contentHash = hashFile(filePath);
+    const existing = findReportByHash(contentHash);
+    if (existing) {
+      return appendLog({ ...entry, status: 'duplicate', contentHash, reportId: existing.id });
+    }
+
+    const mapping = getMappingProfile(profileId);
+    if (!mapping) throw new Error(`Unknown mapping profile "${profileId}"`);
+
+    const { report, issues } = await ingestReport(filePath, {
+      originalName: entry.fileName,
+      mapping,
+      source: 'watch',
+      contentHash
+    });
+    return appendLog({
+      ...entry,
+      status: 'ingested',
+      contentHash,
+      reportId: report.reportId,
+      totalRows: report.sheets.reduce((total, sheet) => total + sheet.totalRows, 0),
+      issues: issues.length
+    });
+  } catch (error) {
+    return appendLog({ ...entry, status: 'failed', error: error.message });
+  }
+};
+
+// Poll the folder rather than relying on fs.watch, which misses events on network shares.
+// A file is only read once its size and modification time are the same on two scans in a row,
+// so workbooks that are still being copied in aren't parsed half-written. Files are left in place.
+const startFolderWatcher = ({ directory, intervalMs, profileId }) => {
+  if (watcher) return watcher;
+
+  const seen = readJson(SEEN_FILE, {});
+  const pending = new Map();
+  // A scan that is still parsing a big workbook when the next tick comes lets that tick pass
+  let scanning = false;
+
+  const scanFolder = async () => {
+    let names;
+    try {
+      names = fs.readdirSync(directory);
+    } catch (error) {
+      console.error(`Watched folder ${directory} can't be read: ${error.message}`);
+      return;
+    }
+
+    for (const name of names.filter(isWatchedFile)) {
+      const filePath = path.join(directory, name);
+      let stat;
+      try {
+        stat = fs.statSync(filePath);
+      } catch (error) {
+        continue; // Removed since the listing
+      }
+      if (!stat.isFile()) continue;
+
+      const signature = `${stat.size}:${stat.mtimeMs}`;
+      if (seen[filePath] === signature) continue;
+      if (pending.get(filePath) !== signature) {
+        pending.set(filePath, signature);
+        continue;
+      }
+
+      pending.delete(filePath);
+      const entry = await ingestWatchedFile(filePath, profileId);
+      seen[filePath] = signature;
+      writeJson(SEEN_FILE, seen);
+
+      if (entry.status === 'ingested') {
+        console.log(`📥 Ingested ${entry.fileName} as report ${entry.reportId} (${entry.totalRows} rows)`);
+      } else if (entry.status === 'duplicate') {
+        console.log(`📥 Skipped ${entry.fileName}: same content as report ${entry.reportId}`);
+      } else {
+        console.error(`📥 Could not ingest ${entry.fileName}: ${entry.error}`);
+      }
+    }
+  };
+
+  const scan = () => {
+    if (scanning) return;
+    scanning = true;
+    scanFolder()
+      .catch((error) => console.error(`Scanning ${directory} failed: ${error.message}`))
+      .finally(() => {
+        scanning = false;
+      });
+  };
+
+  scan();
+  const timer = setInterval(scan, intervalMs);
+  watcher = {
+    directory,
+    intervalMs,
+    stop: () => {
+      clearInterval(timer);
+      watcher = null;
+    }
+  };
+  return watcher;
+};
+
+// What the watcher is doing, for the API
+const getIngestionStatus = () => ({
+  directory: watcher ? watcher.directory : null,
+  intervalMs: watcher ? watcher.intervalMs : null,
+  entries: listIngestionLog()
+});
+
+module.exports = { startFolderWatcher, getIngestionStatus, listIngestionLog };
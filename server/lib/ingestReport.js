@@ -0,0 +1,30 @@
+const { parseExcelFileInChunks } = require('../../shared/parser');
+const { loadStatusRules } = require('./statusRules');
+const { loadSlaConfig } = require('./slaConfig');
+const { createReport, getReportSummary } = require('./reportStore');
+const { recordJobRuns } = require('./jobHistory');
+const { publishEvent } = require('./serverEvents');
+const { checkReportAlerts } = require('./alerts');
+
+// Parse a workbook with the current status rules and SLA targets and save it as a report.
+// Shared by browser uploads and the folder watcher; the caller owns (and cleans up) filePath.
+// Rows are parsed in chunks so a big workbook doesn't stall other requests while it's read.
+const ingestReport = async (filePath, { originalName, sheet, mapping, source = 'upload', contentHash, createdBy }) => {
+  const { response, headers, issues } = await parseExcelFileInChunks(filePath, {
+    fileName: originalName,
+    sheet,
+    statusRules: loadStatusRules(),
+    mapping,
+    sla: loadSlaConfig()
+  });
+
+  const report = createReport(response, { filePath, originalName, source, contentHash, createdBy });
+  recordJobRuns(report);
+  publishEvent({ type: 'report-created', report: getReportSummary(report.reportId) });
+  // Notifications go out in the background so a slow webhook doesn't hold up the upload
+  checkReportAlerts(report);
+
+  return { report, headers, issues };
+};
+
+module.exports = { ingestReport };
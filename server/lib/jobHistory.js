@@ -0,0 +1,66 @@
+const fs = require('fs');
+const path = require('path');
+const { toJobRuns, toJobKey } = require('../../shared/history');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+const { listReports, getReport } = require('./reportStore');
+
+// Job runs of every saved report, one file per upload month (YYYY-MM.json) so a timeline
+// only reads the months it covers and an upload only rewrites the current month
+const HISTORY_DIR = path.join(DATA_DIR, 'history');
+
+const monthOf = (isoDate) => String(isoDate).slice(0, 7);
+const monthPath = (month) => path.join(HISTORY_DIR, `${month}.json`);
+
+const recordJobRuns = (report) => {
+  const runsByMonth = new Map();
+  toJobRuns(report).forEach((run) => {
+    const month = monthOf(run.uploadDate);
+    if (!runsByMonth.has(month)) runsByMonth.set(month, []);
+    runsByMonth.get(month).push(run);
+  });
+
+  runsByMonth.forEach((runs, month) => {
+    writeJson(monthPath(month), [...readJson(monthPath(month), []), ...runs]);
+  });
+};
+
+// Re-record the runs of a report whose rows were edited
+const replaceJobRuns = (report) => {
+  const month = monthOf(report.uploadDate);
+  const others = readJson(monthPath(month), []).filter((run) => run.reportId !== report.reportId);
+  writeJson(monthPath(month), [...others, ...toJobRuns(report)]);
+};
+
+// Index reports saved before the history existed; returns how many were added
+const ensureJobHistory = () => {
+  if (fs.existsSync(HISTORY_DIR)) return 0;
+
+  fs.mkdirSync(HISTORY_DIR, { recursive: true });
+  const reports = listReports();
+  reports.forEach((summary) => {
+    const report = getReport(summary.id);
+    if (report) recordJobRuns(report);
+  });
+  return reports.length;
+};
+
+// Runs of one job, oldest first; `from` and `to` are inclusive ISO dates or timestamps
+const getJobRuns = (job, { from, to } = {}) => {
+  const key = toJobKey(job);
+  const months = fs.existsSync(HISTORY_DIR)
+    ? fs.readdirSync(HISTORY_DIR)
+      .filter((file) => /^\d{4}-\d{2}\.json$/.test(file))
+      .map((file) => file.slice(0, 7))
+      .filter((month) => (!from || month >= monthOf(from)) && (!to || month <= monthOf(to)))
+    : [];
+
+  // A bare date as `to` covers that whole day
+  const toBound = to && to.length === 10 ? `${to}T23:59:59.999Z` : to;
+  return months
+    .flatMap((month) => readJson(monthPath(month), []))
+    .filter((run) => toJobKey(run.job) === key)
+    .filter((run) => (!from || run.uploadDate >= from) && (!toBound || run.uploadDate <= toBound))
+    .sort((a, b) => a.uploadDate.localeCompare(b.uploadDate));
+};
+
+module.exports = { recordJobRuns, replaceJobRuns, ensureJobHistory, getJobRuns };
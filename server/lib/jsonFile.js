@@ -0,0 +1,21 @@
+const fs = require('fs');
+const path = require('path');
+
+// Directory for everything the server keeps between restarts
+const DATA_DIR = path.resolve(process.env.DATA_DIR || path.join(__dirname, '..', 'data'));
+
+// Read a JSON file, falling back to a default when it doesn't exist yet
+const readJson = (filePath, fallback) => {
+  if (!fs.existsSync(filePath)) return fallback;
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+};
+
+// Write a JSON file atomically so a crash never leaves half a file behind
+const writeJson = (filePath, data) => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, filePath);
+};
+
+module.exports = { DATA_DIR, readJson, writeJson };
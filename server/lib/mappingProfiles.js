@@ -0,0 +1,57 @@
+const path = require('path');
+const crypto = require('crypto');
+const { DEFAULT_MAPPING_PROFILE, DEFAULT_MAPPING_PROFILE_ID } = require('../../shared/mapping');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+
+const PROFILES_FILE = path.join(DATA_DIR, 'mapping-profiles.json');
+
+// Only user profiles are stored; the built-in one is always listed first
+const loadCustomProfiles = () => readJson(PROFILES_FILE, []);
+
+const listMappingProfiles = () => [DEFAULT_MAPPING_PROFILE, ...loadCustomProfiles()];
+
+const getMappingProfile = (id) =>
+  listMappingProfiles().find((profile) => profile.id === id) || null;
+
+const toStoredProfile = (id, { name, description, rules, unmatched }) => ({
+  id,
+  name: name.trim(),
+  description: description || undefined,
+  rules: rules.map(({ match, pattern, role }) => ({ match, pattern, role })),
+  unmatched
+});
+
+const createMappingProfile = (input) => {
+  const profile = toStoredProfile(crypto.randomUUID(), input);
+  writeJson(PROFILES_FILE, [...loadCustomProfiles(), profile]);
+  return profile;
+};
+
+// Returns null when the profile doesn't exist or is the built-in one
+const updateMappingProfile = (id, input) => {
+  const profiles = loadCustomProfiles();
+  const index = profiles.findIndex((profile) => profile.id === id);
+  if (id === DEFAULT_MAPPING_PROFILE_ID || index === -1) return null;
+
+  const profile = toStoredProfile(id, input);
+  profiles[index] = profile;
+  writeJson(PROFILES_FILE, profiles);
+  return profile;
+};
+
+const deleteMappingProfile = (id) => {
+  const profiles = loadCustomProfiles();
+  const remaining = profiles.filter((profile) => profile.id !== id);
+  if (id === DEFAULT_MAPPING_PROFILE_ID || remaining.length === profiles.length) return false;
+
+  writeJson(PROFILES_FILE, remaining);
+  return true;
+};
+
+module.exports = {
+  listMappingProfiles,
+  getMappingProfile,
+  createMappingProfile,
+  updateMappingProfile,
+  deleteMappingProfile
+};
@@ -0,0 +1,328 @@
+const path = require('path');
+const PDFDocument = require('pdfkit');
+const { Resvg } = require('@resvg/resvg-js');
+const { getSheetColumns, isPlainTimeCell } = require('../../shared/columns');
+const { applyColumnLayout } = require('../../shared/views');
+
+// Fonts are bundled so output doesn't depend on what the host has installed
+const FONT_DIR = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+const FONT_REGULAR = path.join(FONT_DIR, 'DejaVuSans.ttf');
+const FONT_BOLD = path.join(FONT_DIR, 'DejaVuSans-Bold.ttf');
+const FONT_FAMILY = 'DejaVu Sans';
+
+const FONT_SIZE = 11;
+const HEADER_FONT_SIZE = 12;
+const LINE_HEIGHT = 14;
+const PADDING_X = 6;
+const PADDING_Y = 4;
+const MIN_ROW_HEIGHT = 22;
+const TITLE_HEIGHT = 48;
+const DOT_SIZE = 10;
+
+const COLORS = {
+  header: '#34495E',
+  headerText: '#ffffff',
+  border: '#d0d7de',
+  text: '#202124',
+  muted: '#5f6368',
+  serial: '#f0f0f0',
+  evenRow: '#f8f9fa',
+  oddRow: '#ffffff'
+};
+
+// Rough text width for DejaVu Sans; good enough to wrap and truncate consistently
+const measureText = (text, fontSize) => text.length * fontSize * 0.6;
+
+const wrapText = (text, maxWidth, fontSize) => {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * 0.6)));
+  const lines = [];
+  let line = '';
+
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    while (word.length > maxChars) {
+      if (line) {
+        lines.push(line);
+        line = '';
+      }
+      lines.push(word.slice(0, maxChars));
+      word = word.slice(maxChars);
+    }
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+
+  return lines.length > 0 ? lines : [''];
+};
+
+const truncateText = (text, maxWidth, fontSize) => {
+  if (measureText(text, fontSize) <= maxWidth) return text;
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * 0.6)) - 1);
+  return `${text.slice(0, maxChars)}…`;
+};
+
+// Blend a #RRGGBB colour over white, used for error/warning cell tints
+const tint = (color, amount) => {
+  if (!/^#[0-9a-fA-F]{6}$/.test(color)) return null;
+  const channel = (offset) => {
+    const value = parseInt(color.slice(offset, offset + 2), 16);
+    return Math.round(255 - (255 - value) * amount).toString(16).padStart(2, '0');
+  };
+  return `#${channel(1)}${channel(3)}${channel(5)}`;
+};
+
+// Lay out a sheet as rows of positioned cells; both the PNG and PDF output draw from this.
+// `columnLayout` is the view's column order, hidden columns and widths, as in the grid.
+const buildLayout = (report, sheet, columnLayout) => {
+  const rows = [...sheet.data].sort((a, b) => (a.rowNumber || 0) - (b.rowNumber || 0));
+  let x = 0;
+  const columns = applyColumnLayout(getSheetColumns(rows, sheet.columns), columnLayout).map((definition) => {
+    const column = { key: definition.key, role: definition.role, x, width: definition.width };
+    x += column.width;
+    return column;
+  });
+
+  const headerLines = columns.map((column) =>
+    wrapText(column.key, column.width - PADDING_X * 2, HEADER_FONT_SIZE));
+  const header = {
+    height: Math.max(MIN_ROW_HEIGHT, Math.max(...headerLines.map((lines) => lines.length), 1) * LINE_HEIGHT + PADDING_Y * 2),
+    cells: columns.map((column, index) => ({ ...column, lines: headerLines[index] }))
+  };
+
+  const bodyRows = rows.map((row, rowIndex) => {
+    const rowFill = rowIndex % 2 === 1 ? COLORS.evenRow : COLORS.oddRow;
+    const cells = columns.map((column) => {
+      const value = String(row[column.key] ?? '');
+      const innerWidth = column.width - PADDING_X * 2;
+
+      if (column.role === 'id') {
+        return { ...column, lines: [value], fill: COLORS.serial, align: 'center', bold: true };
+      }
+      if (column.role === 'title' || column.role === 'notes') {
+        return { ...column, lines: wrapText(value, innerWidth, FONT_SIZE), fill: rowFill, align: 'left' };
+      }
+
+      const type = row[`${column.key}_type`] || '';
+      const color = row[`${column.key}_color`] || '';
+      const plain = !value || isPlainTimeCell(value, type);
+      const fill = (type === 'error' || type === 'warning') ? (tint(color, 0.12) || rowFill) : rowFill;
+      const textWidth = plain ? innerWidth : innerWidth - DOT_SIZE - 4;
+
+      return {
+        ...column,
+        lines: [truncateText(value, textWidth, FONT_SIZE)],
+        fill,
+        align: 'center',
+        bold: true,
+        dot: plain ? null : color || null
+      };
+    });
+
+    const lineCount = Math.max(...cells.map((cell) => cell.lines.length));
+    return { height: Math.max(MIN_ROW_HEIGHT, lineCount * LINE_HEIGHT + PADDING_Y * 2), cells };
+  });
+
+  return {
+    title: sheet.name && report.sheetNames && report.sheetNames.length > 1
+      ? `${report.fileName} • ${sheet.name}`
+      : report.fileName,
+    subtitle: `${rows.length} rows • Uploaded on ${new Date(report.uploadDate).toLocaleString()}`,
+    width: Math.max(x, 400),
+    header,
+    rows: bodyRows
+  };
+};
+
+const escapeXml = (text) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const svgText = (x, y, line, { fontSize, bold, color, anchor }) =>
+  `<text x="${x}" y="${y}" font-size="${fontSize}" font-weight="${bold ? 'bold' : 'normal'}" fill="${color}" text-anchor="${anchor}">${escapeXml(line)}</text>`;
+
+const svgRow = (cells, y, height, { isHeader = false } = {}) => {
+  const fontSize = isHeader ? HEADER_FONT_SIZE : FONT_SIZE;
+  return cells.map((cell) => {
+    const rect = `<rect x="${cell.x}" y="${y}" width="${cell.width}" height="${height}" fill="${isHeader ? COLORS.header : cell.fill}" stroke="${COLORS.border}" stroke-width="1"/>`;
+    const style = {
+      fontSize,
+      bold: isHeader || cell.bold,
+      color: isHeader ? COLORS.headerText : COLORS.text
+    };
+    const blockTop = y + (height - cell.lines.length * LINE_HEIGHT) / 2;
+    const baseline = (index) => blockTop + (index + 1) * LINE_HEIGHT - 3;
+
+    // Status dot followed by its label, centred as one group
+    if (!isHeader && cell.dot) {
+      const total = DOT_SIZE + 4 + measureText(cell.lines[0], fontSize);
+      const startX = cell.x + (cell.width - total) / 2;
+      const dot = `<circle cx="${startX + DOT_SIZE / 2}" cy="${y + height / 2}" r="${DOT_SIZE / 2}" fill="${cell.dot}"/>`;
+      return rect + dot + svgText(startX + DOT_SIZE + 4, baseline(0), cell.lines[0], { ...style, anchor: 'start' });
+    }
+
+    const left = !isHeader && cell.align === 'left';
+    const x = left ? cell.x + PADDING_X : cell.x + cell.width / 2;
+    const anchor = left ? 'start' : 'middle';
+    return rect + cell.lines.map((line, index) => svgText(x, baseline(index), line, { ...style, anchor })).join('');
+  }).join('');
+};
+
+const layoutToSvg = (layout) => {
+  const height = TITLE_HEIGHT + layout.header.height + layout.rows.reduce((total, row) => total + row.height, 0);
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${height}" font-family="${FONT_FAMILY}">`,
+    `<rect width="${layout.width}" height="${height}" fill="#ffffff"/>`,
+    `<text x="4" y="20" font-size="16" font-weight="bold" fill="${COLORS.header}">${escapeXml(layout.title)}</text>`,
+    `<text x="4" y="38" font-size="11" fill="${COLORS.muted}">${escapeXml(layout.subtitle)}</text>`
+  ];
+
+  let y = TITLE_HEIGHT;
+  parts.push(svgRow(layout.header.cells, y, layout.header.height, { isHeader: true }));
+  y += layout.header.height;
+  layout.rows.forEach((row) => {
+    parts.push(svgRow(row.cells, y, row.height));
+    y += row.height;
+  });
+
+  parts.push('</svg>');
+  return parts.join('');
+};
+
+// A PNG is one bitmap of the whole sheet, so it is refused past these sizes (the PDF pages instead).
+// The row limit is checked before laying anything out; the pixel limit bounds the bitmap itself.
+const MAX_PNG_ROWS = 5000;
+const MAX_PNG_PIXELS = 50 * 1000 * 1000;
+
+class RenderTooLargeError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'RenderTooLargeError';
+  }
+}
+
+// Render a sheet as a PNG image
+const renderReportPng = (report, sheet, columnLayout) => {
+  if (sheet.data.length > MAX_PNG_ROWS) {
+    throw new RenderTooLargeError(
+      `"${sheet.name}" has ${sheet.data.length} rows; PNGs hold at most ${MAX_PNG_ROWS}. Download a PDF instead.`
+    );
+  }
+
+  const layout = buildLayout(report, sheet, columnLayout);
+  const height = TITLE_HEIGHT + layout.header.height + layout.rows.reduce((total, row) => total + row.height, 0);
+  const pixels = layout.width * height;
+  if (pixels > MAX_PNG_PIXELS) {
+    throw new RenderTooLargeError(
+      `"${sheet.name}" would be a ${layout.width}×${height} image, over the ${MAX_PNG_PIXELS / 1000000} megapixel limit. Download a PDF or hide some columns.`
+    );
+  }
+
+  // Render at 2x for sharp text, dropping to 1x for very long tables to bound memory
+  const zoom = height * 2 > 16000 || pixels * 4 > MAX_PNG_PIXELS ? 1 : 2;
+  const resvg = new Resvg(layoutToSvg(layout), {
+    background: '#ffffff',
+    fitTo: { mode: 'zoom', value: zoom },
+    font: {
+      fontFiles: [FONT_REGULAR, FONT_BOLD],
+      loadSystemFonts: false,
+      defaultFontFamily: FONT_FAMILY
+    }
+  });
+
+  return resvg.render().asPng();
+};
+
+const PAGE_MARGIN = 24;
+
+const pdfRow = (doc, cells, y, height, { isHeader = false } = {}) => {
+  const fontSize = isHeader ? HEADER_FONT_SIZE : FONT_SIZE;
+  cells.forEach((cell) => {
+    doc.rect(cell.x, y, cell.width, height)
+      .fillAndStroke(isHeader ? COLORS.header : cell.fill, COLORS.border);
+
+    const bold = isHeader || cell.bold;
+    doc.font(bold ? 'bold' : 'regular').fontSize(fontSize).fillColor(isHeader ? COLORS.headerText : COLORS.text);
+
+    const dotSpace = !isHeader && cell.dot ? DOT_SIZE + 4 : 0;
+    const blockTop = y + (height - cell.lines.length * LINE_HEIGHT) / 2;
+    const align = isHeader ? 'center' : cell.align;
+
+    if (dotSpace) {
+      const textWidth = doc.widthOfString(cell.lines[0]);
+      const startX = cell.x + (cell.width - textWidth - dotSpace) / 2;
+      doc.circle(startX + DOT_SIZE / 2, y + height / 2, DOT_SIZE / 2).fill(cell.dot);
+      doc.fillColor(COLORS.text).text(cell.lines[0], startX + dotSpace, blockTop + 2, { lineBreak: false });
+      return;
+    }
+
+    cell.lines.forEach((line, index) => {
+      doc.text(line, cell.x + PADDING_X, blockTop + index * LINE_HEIGHT + 2, {
+        width: cell.width - PADDING_X * 2,
+        align,
+        lineBreak: false
+      });
+    });
+  });
+};
+
+// Render a sheet as a multi-page PDF, repeating the header row on every page
+const renderReportPdf = (report, sheet, columnLayout) => new Promise((resolve, reject) => {
+  const layout = buildLayout(report, sheet, columnLayout);
+  const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: PAGE_MARGIN, autoFirstPage: false });
+  const chunks = [];
+  doc.on('data', (chunk) => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+
+  doc.registerFont('regular', FONT_REGULAR);
+  doc.registerFont('bold', FONT_BOLD);
+
+  const pageWidth = 842 - PAGE_MARGIN * 2;
+  const pageHeight = 595 - PAGE_MARGIN * 2;
+  const scale = Math.min(1, pageWidth / layout.width);
+
+  let rowIndex = 0;
+  let pageNumber = 0;
+  do {
+    doc.addPage();
+    pageNumber += 1;
+    doc.save();
+    doc.translate(PAGE_MARGIN, PAGE_MARGIN).scale(scale);
+
+    let y = 0;
+    if (pageNumber === 1) {
+      doc.font('bold').fontSize(16).fillColor(COLORS.header).text(layout.title, 0, 4, { lineBreak: false });
+      doc.font('regular').fontSize(11).fillColor(COLORS.muted).text(layout.subtitle, 0, 26, { lineBreak: false });
+      y = TITLE_HEIGHT;
+    }
+
+    pdfRow(doc, layout.header.cells, y, layout.header.height, { isHeader: true });
+    y += layout.header.height;
+
+    // Always place at least one row per page so an oversized row can't stall pagination
+    const limit = pageHeight / scale;
+    let placed = 0;
+    while (rowIndex < layout.rows.length && (placed === 0 || y + layout.rows[rowIndex].height <= limit)) {
+      const row = layout.rows[rowIndex];
+      pdfRow(doc, row.cells, y, row.height);
+      y += row.height;
+      rowIndex += 1;
+      placed += 1;
+    }
+
+    doc.restore();
+    doc.font('regular').fontSize(9).fillColor(COLORS.muted)
+      .text(`Page ${pageNumber}`, PAGE_MARGIN, 595 - PAGE_MARGIN + 6, { width: pageWidth, align: 'right', lineBreak: false });
+  } while (rowIndex < layout.rows.length);
+
+  doc.end();
+});
+
+module.exports = { buildLayout, renderReportPng, renderReportPdf, RenderTooLargeError };
@@ -0,0 +1,77 @@
+const path = require('path');
+const crypto = require('crypto');
+const { applySlaTarget, applyStatusRules, readTextCell } = require('../../shared/parser');
+const { getColumnKey, getSheetColumns } = require('../../shared/columns');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+const { updateReport } = require('./reportStore');
+const { replaceJobRuns } = require('./jobHistory');
+const { loadStatusRules } = require('./statusRules');
+const { loadSlaConfig } = require('./slaConfig');
+const { publishEvent } = require('./serverEvents');
+
+// Audit trail of grid edits, one file per report
+const EDITS_DIR = path.join(DATA_DIR, 'edits');
+const editsPath = (reportId) => path.join(EDITS_DIR, `${reportId}.json`);
+
+// Edits of a report, oldest first; only one sheet's when `sheet` is given
+const listReportEdits = (reportId, sheet) =>
+  readJson(editsPath(reportId), []).filter((edit) => !sheet || edit.sheet === sheet);
+
+// Replace a cell's text and derive its typed value, status and SLA state again, using the
+// current status rules and SLA targets
+const setCellText = (row, column, text, { job, statusRules, sla }) => {
+  const { key } = column;
+  ['_value', '_kind', '_sla', '_slaDelta'].forEach((suffix) => {
+    delete row[`${key}${suffix}`];
+  });
+
+  const cell = readTextCell(text);
+  row[key] = text;
+  if (cell.kind !== 'text') {
+    row[`${key}_value`] = cell.value;
+    row[`${key}_kind`] = cell.kind;
+  }
+  if (column.role === 'status') {
+    applyStatusRules(row, key, statusRules);
+    applySlaTarget(row, key, job, sla);
+  }
+};
+
+// Apply validated cell changes to one row of a stored report (as read by getReport) and record
+// who changed what. Unchanged cells are skipped; returns the updated row and the new edits.
+const editReportRow = (report, sheetName, rowId, cells, author) => {
+  const sheet = report.sheets.find((candidate) => candidate.name === sheetName);
+  const row = sheet.data.find((candidate) => candidate.id === rowId);
+  const columns = getSheetColumns(sheet.data, sheet.columns);
+  const context = {
+    job: String(row[getColumnKey(columns, 'title')] ?? ''),
+    statusRules: loadStatusRules(),
+    sla: loadSlaConfig()
+  };
+
+  const editedAt = new Date().toISOString();
+  const edits = [];
+  Object.entries(cells).forEach(([key, value]) => {
+    const previousValue = String(row[key] ?? '');
+    if (previousValue === value) return;
+
+    setCellText(row, columns.find((column) => column.key === key), value, context);
+    edits.push({ id: crypto.randomUUID(), sheet: sheet.name, rowId, column: key, previousValue, value, author, editedAt });
+  });
+
+  if (edits.length === 0) return { row, edits };
+
+  // The top-level rows are a copy of the active sheet's for older clients
+  if (report.sheetName === sheet.name && Array.isArray(report.data)) {
+    report.data = report.data.map((candidate) => (candidate.id === rowId ? row : candidate));
+  }
+
+  const summary = updateReport(report);
+  writeJson(editsPath(report.reportId), [...readJson(editsPath(report.reportId), []), ...edits]);
+  replaceJobRuns(report);
+  publishEvent({ type: 'report-updated', report: summary, sheet: sheet.name, row });
+
+  return { row, edits };
+};
+
+module.exports = { listReportEdits, editReportRow };
@@ -0,0 +1,173 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+
+const REPORTS_DIR = path.join(DATA_DIR, 'reports');
+const FILES_DIR = path.join(DATA_DIR, 'files');
+const INDEX_FILE = path.join(REPORTS_DIR, 'index.json');
+
+const reportPath = (id) => path.join(REPORTS_DIR, `${id}.json`);
+
+// Report ids are generated here, so anything else is rejected before touching the disk
+const isValidId = (id) => /^[0-9a-f-]{36}$/.test(id);
+
+// Summaries of every stored report, newest first
+const listReports = () => {
+  const index = readJson(INDEX_FILE, []);
+  return [...index].sort((a, b) => b.uploadDate.localeCompare(a.uploadDate));
+};
+
+const getReportSummary = (id) => readJson(INDEX_FILE, []).find((summary) => summary.id === id) || null;
+
+const getReport = (id) => {
+  if (!isValidId(id)) return null;
+  return readJson(reportPath(id), null);
+};
+
+// Recently read reports, so paging through a big one doesn't parse its file again for every page.
+// An entry is re-read once the file changes; callers must not modify the report they get back.
+const CACHED_REPORTS = 4;
+const reportCache = new Map();
+
+const getCachedReport = (id) => {
+  if (!isValidId(id)) return null;
+
+  let version;
+  try {
+    const stat = fs.statSync(reportPath(id));
+    version = `${stat.size}:${stat.mtimeMs}`;
+  } catch (error) {
+    return null;
+  }
+
+  const cached = reportCache.get(id);
+  const report = cached && cached.version === version ? cached.report : readJson(reportPath(id), null);
+  // Re-inserting keeps the map in least-recently-used order
+  reportCache.delete(id);
+  reportCache.set(id, { version, report });
+  if (reportCache.size > CACHED_REPORTS) {
+    reportCache.delete(reportCache.keys().next().value);
+  }
+  return report;
+};
+
+// A report with its sheets' columns and row counts but no rows, for clients that page through them
+const withoutRows = (report) => ({
+  ...report,
+  data: [],
+  ...(report.sheets ? { sheets: report.sheets.map((sheet) => ({ ...sheet, data: [] })) } : {})
+});
+
+const hashFile = (filePath) => crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+
+// Summary of a stored report whose original file had this content, or null
+const findReportByHash = (contentHash) =>
+  readJson(INDEX_FILE, []).find((summary) => summary.contentHash === contentHash) || null;
+
+// Save a parsed upload and keep the original file next to it; `source` is 'upload' or 'watch'
+// and `createdBy` the uploader's username (none for watched files)
+const createReport = (response, {
+  filePath,
+  originalName,
+  source = 'upload',
+  contentHash = hashFile(filePath),
+  createdBy
+}) => {
+  const id = crypto.randomUUID();
+  const storedFile = `${id}${path.extname(originalName).toLowerCase()}`;
+
+  fs.mkdirSync(FILES_DIR, { recursive: true });
+  fs.copyFileSync(filePath, path.join(FILES_DIR, storedFile));
+
+  const report = { ...response, reportId: id, source, createdBy };
+  writeJson(reportPath(id), { ...report, storedFile });
+
+  const summary = {
+    id,
+    fileName: response.fileName,
+    uploadDate: response.uploadDate,
+    sheetNames: response.sheetNames,
+    totalRows: response.sheets.reduce((total, sheet) => total + sheet.totalRows, 0),
+    fileSize: fs.statSync(filePath).size,
+    source,
+    contentHash,
+    createdBy
+  };
+  writeJson(INDEX_FILE, [...readJson(INDEX_FILE, []), summary]);
+
+  return report;
+};
+
+// Write back a stored report (as read by getReport) after its rows changed; returns its summary
+const updateReport = (report) => {
+  const updatedAt = new Date().toISOString();
+  writeJson(reportPath(report.reportId), { ...report, updatedAt });
+
+  const index = readJson(INDEX_FILE, []).map((summary) =>
+    (summary.id === report.reportId ? { ...summary, updatedAt } : summary));
+  writeJson(INDEX_FILE, index);
+  return index.find((summary) => summary.id === report.reportId) || null;
+};
+
+// Pick a sheet by name, falling back to the report's default sheet
+const findSheet = (report, sheetName) => {
+  const sheets = report.sheets || [];
+  return sheets.find((sheet) => sheet.name === sheetName)
+    || sheets.find((sheet) => sheet.name === report.sheetName)
+    || sheets[0]
+    || { name: report.sheetName || '', data: report.data || [], totalRows: report.totalRows || 0 };
+};
+
+// Rows per page of a sheet unless the query asks for more
+const DEFAULT_ROW_PAGE_SIZE = 2000;
+const MAX_ROW_PAGE_SIZE = 10000;
+
+// One page of a sheet's rows from ?sheet=&cursor=&limit= query values; `error` and `details`
+// instead of `page` when the cursor or limit is invalid
+const getRowPage = (report, { sheet: sheetName, cursor: cursorParam, limit: limitParam }) => {
+  const cursor = cursorParam ? Number(cursorParam) : 0;
+  if (!Number.isInteger(cursor) || cursor < 0) {
+    return { error: 'Invalid cursor', details: 'Pass the nextCursor of the previous page' };
+  }
+  const limit = limitParam ? Number(limitParam) : DEFAULT_ROW_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ROW_PAGE_SIZE) {
+    return { error: 'Invalid limit', details: `Limit must be between 1 and ${MAX_ROW_PAGE_SIZE}` };
+  }
+
+  const sheet = findSheet(report, sheetName);
+  const rows = sheet.data.slice(cursor, cursor + limit);
+  const end = cursor + rows.length;
+  return {
+    page: {
+      sheet: sheet.name,
+      rows,
+      totalRows: sheet.data.length,
+      nextCursor: end < sheet.data.length ? String(end) : null
+    }
+  };
+};
+
+// Path of the original uploaded file, or null if it is gone
+const getReportFilePath = (id) => {
+  const report = getReport(id);
+  if (!report || !report.storedFile) return null;
+
+  const filePath = path.join(FILES_DIR, report.storedFile);
+  return fs.existsSync(filePath) ? filePath : null;
+};
+
+module.exports = {
+  listReports,
+  getReportSummary,
+  getReport,
+  getCachedReport,
+  withoutRows,
+  createReport,
+  updateReport,
+  hashFile,
+  findReportByHash,
+  findSheet,
+  getRowPage,
+  getReportFilePath
+};
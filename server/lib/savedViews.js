@@ -0,0 +1,60 @@
+const path = require('path');
+const crypto = require('crypto');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+
+const VIEWS_FILE = path.join(DATA_DIR, 'views.json');
+
+const loadViews = () => readJson(VIEWS_FILE, []);
+
+// Shared views and the user's own, by name
+const listSavedViews = (username) => loadViews()
+  .filter((view) => view.shared || view.owner === username)
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+const getSavedView = (id) => loadViews().find((view) => view.id === id) || null;
+
+// Only the layout fields the grid understands are kept
+const toStoredLayout = ({ order, hidden, pinned, widths }) => ({ order, hidden, pinned, widths });
+
+const createSavedView = ({ name, layout, shared }, owner) => {
+  const now = new Date().toISOString();
+  const view = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    layout: toStoredLayout(layout),
+    shared,
+    owner,
+    createdAt: now,
+    updatedAt: now
+  };
+  writeJson(VIEWS_FILE, [...loadViews(), view]);
+  return view;
+};
+
+// Returns null when there is no such view
+const updateSavedView = (id, { name, layout, shared }) => {
+  const views = loadViews();
+  const index = views.findIndex((view) => view.id === id);
+  if (index === -1) return null;
+
+  views[index] = {
+    ...views[index],
+    name: name.trim(),
+    layout: toStoredLayout(layout),
+    shared,
+    updatedAt: new Date().toISOString()
+  };
+  writeJson(VIEWS_FILE, views);
+  return views[index];
+};
+
+const deleteSavedView = (id) => {
+  const views = loadViews();
+  const remaining = views.filter((view) => view.id !== id);
+  if (remaining.length === views.length) return false;
+
+  writeJson(VIEWS_FILE, remaining);
+  return true;
+};
+
+module.exports = { listSavedViews, getSavedView, createSavedView, updateSavedView, deleteSavedView };
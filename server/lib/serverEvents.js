@@ -0,0 +1,12 @@
+const { EventEmitter } = require('events');
+
+// In-process bus behind GET /api/events; every open viewer receives every event
+const serverEvents = new EventEmitter();
+// One listener per connected viewer
+serverEvents.setMaxListeners(0);
+
+const publishEvent = (event) => {
+  serverEvents.emit('event', event);
+};
+
+module.exports = { serverEvents, publishEvent };
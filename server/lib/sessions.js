@@ -0,0 +1,48 @@
+const path = require('path');
+const crypto = require('crypto');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+
+const SESSIONS_FILE = path.join(DATA_DIR, 'sessions.json');
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 12) * 60 * 60 * 1000;
+
+// Only token hashes are stored, so a copy of the data folder can't be used to sign in
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Sessions by token hash, with expired ones dropped
+const loadSessions = () => {
+  const now = new Date().toISOString();
+  return Object.fromEntries(Object.entries(readJson(SESSIONS_FILE, {}))
+    .filter(([, session]) => session.expiresAt > now));
+};
+
+// Start a session; returns the token to hand to the client
+const createSession = (userId) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const session = {
+    userId,
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString()
+  };
+  writeJson(SESSIONS_FILE, { ...loadSessions(), [hashToken(token)]: session });
+  return { token, expiresAt: session.expiresAt };
+};
+
+// User id of a live session, or null
+const getSessionUserId = (token) => {
+  const session = readJson(SESSIONS_FILE, {})[hashToken(token)];
+  return session && session.expiresAt > new Date().toISOString() ? session.userId : null;
+};
+
+const deleteSession = (token) => {
+  const sessions = loadSessions();
+  delete sessions[hashToken(token)];
+  writeJson(SESSIONS_FILE, sessions);
+};
+
+// Sign a user out everywhere, e.g. after a password change or when the account is deleted
+const deleteUserSessions = (userId) => {
+  writeJson(SESSIONS_FILE, Object.fromEntries(Object.entries(loadSessions())
+    .filter(([, session]) => session.userId !== userId)));
+};
+
+module.exports = { SESSION_TTL_MS, createSession, getSessionUserId, deleteSession, deleteUserSessions };
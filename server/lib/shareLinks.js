@@ -0,0 +1,93 @@
+const path = require('path');
+const crypto = require('crypto');
+const { getShareLinkState } = require('../../shared/shareLinks');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+
+const LINKS_FILE = path.join(DATA_DIR, 'share-links.json');
+const SECRET_FILE = path.join(DATA_DIR, 'share-link-secret.json');
+
+// SHARE_LINK_SECRET keeps links valid across servers sharing a data folder; otherwise a secret
+// is generated on first use. Changing it breaks every link handed out so far.
+let secret = null;
+const getSecret = () => {
+  if (!secret) {
+    secret = process.env.SHARE_LINK_SECRET || readJson(SECRET_FILE, null)?.secret;
+    if (!secret) {
+      secret = crypto.randomBytes(32).toString('base64url');
+      writeJson(SECRET_FILE, { secret });
+    }
+  }
+  return secret;
+};
+
+const sign = (id) => crypto.createHmac('sha256', getSecret()).update(id).digest('base64url');
+
+const toToken = (id) => `${id}.${sign(id)}`;
+
+// Id of a link whose token carries a valid signature, or null
+const verifyToken = (token) => {
+  const [id, signature] = String(token || '').split('.');
+  if (!id || !signature) return null;
+
+  const expected = Buffer.from(sign(id));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected) ? id : null;
+};
+
+const loadLinks = () => readJson(LINKS_FILE, []);
+
+const withToken = (link) => ({ ...link, token: toToken(link.id) });
+
+// Newest first; only the report's links when `reportId` is given
+const listShareLinks = (reportId) => loadLinks()
+  .filter((link) => !reportId || link.reportId === reportId)
+  .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  .map(withToken);
+
+const createShareLink = ({ reportId, sheet, filters, expiresInHours }, createdBy) => {
+  const link = {
+    id: crypto.randomUUID(),
+    reportId,
+    sheet: sheet || undefined,
+    filters: filters || undefined,
+    createdBy,
+    createdAt: new Date().toISOString(),
+    expiresAt: expiresInHours ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString() : undefined
+  };
+  writeJson(LINKS_FILE, [...loadLinks(), link]);
+  return withToken(link);
+};
+
+const getShareLink = (id) => {
+  const link = loadLinks().find((candidate) => candidate.id === id);
+  return link ? withToken(link) : null;
+};
+
+// Revoked links are kept so the list shows who switched them off; returns null when there is no such link
+const revokeShareLink = (id, revokedBy) => {
+  const links = loadLinks();
+  const index = links.findIndex((link) => link.id === id);
+  if (index === -1) return null;
+
+  if (!links[index].revokedAt) {
+    links[index] = { ...links[index], revokedAt: new Date().toISOString(), revokedBy };
+    writeJson(LINKS_FILE, links);
+  }
+  return withToken(links[index]);
+};
+
+// The link a /shared/<token> URL opens, with its state ('active', 'expired' or 'revoked');
+// null for unknown or tampered tokens
+const resolveShareToken = (token) => {
+  const id = verifyToken(token);
+  const link = id && loadLinks().find((candidate) => candidate.id === id);
+  return link ? { link, state: getShareLinkState(link) } : null;
+};
+
+module.exports = {
+  listShareLinks,
+  createShareLink,
+  getShareLink,
+  revokeShareLink,
+  resolveShareToken
+};
@@ -0,0 +1,17 @@
+const path = require('path');
+const { DEFAULT_SLA_CONFIG } = require('../../shared/sla');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+
+const SLA_FILE = path.join(DATA_DIR, 'sla.json');
+
+// Read on every upload, like the status rules
+const loadSlaConfig = () => readJson(SLA_FILE, DEFAULT_SLA_CONFIG);
+
+const saveSlaConfig = (config) => {
+  writeJson(SLA_FILE, config);
+  return config;
+};
+
+const resetSlaConfig = () => saveSlaConfig(DEFAULT_SLA_CONFIG);
+
+module.exports = { loadSlaConfig, saveSlaConfig, resetSlaConfig };
@@ -0,0 +1,17 @@
+const path = require('path');
+const { DEFAULT_STATUS_RULES } = require('../../shared/statusRules');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+
+const RULES_FILE = path.join(DATA_DIR, 'status-rules.json');
+
+// Rules are read on every upload so edits apply without a restart
+const loadStatusRules = () => readJson(RULES_FILE, DEFAULT_STATUS_RULES);
+
+const saveStatusRules = (config) => {
+  writeJson(RULES_FILE, config);
+  return config;
+};
+
+const resetStatusRules = () => saveStatusRules(DEFAULT_STATUS_RULES);
+
+module.exports = { loadStatusRules, saveStatusRules, resetStatusRules };
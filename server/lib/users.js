@@ -0,0 +1,108 @@
+const path = require('path');
+const crypto = require('crypto');
+const { DATA_DIR, readJson, writeJson } = require('./jsonFile');
+
+const USERS_FILE = path.join(DATA_DIR, 'users.json');
+
+// Passwords are stored as salted scrypt hashes, never in plain text
+const hashPassword = (password, salt = crypto.randomBytes(16).toString('hex')) => ({
+  salt,
+  passwordHash: crypto.scryptSync(password, salt, 64).toString('hex')
+});
+
+const loadUsers = () => readJson(USERS_FILE, []);
+
+// What the API shows of an account
+const toPublicUser = ({ id, username, role, displayName, createdAt }) =>
+  ({ id, username, role, displayName, provider: 'local', createdAt });
+
+const listUsers = () => loadUsers().map(toPublicUser);
+
+const findUser = (id) => {
+  const user = loadUsers().find((candidate) => candidate.id === id);
+  return user ? toPublicUser(user) : null;
+};
+
+// Usernames are matched without regard to case
+const findUserByUsername = (username) => {
+  const name = String(username).toLowerCase();
+  const user = loadUsers().find((candidate) => candidate.username.toLowerCase() === name);
+  return user ? toPublicUser(user) : null;
+};
+
+// Checked in place of a missing account so an unknown username takes as long to refuse as a wrong password
+const DUMMY_CREDENTIALS = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+// The account for a username and password, or null
+const authenticateUser = (username, password) => {
+  const name = String(username).toLowerCase();
+  const user = loadUsers().find((candidate) => candidate.username.toLowerCase() === name);
+  const { salt, passwordHash } = user || DUMMY_CREDENTIALS;
+
+  const expected = Buffer.from(passwordHash, 'hex');
+  const actual = Buffer.from(hashPassword(password, salt).passwordHash, 'hex');
+  return crypto.timingSafeEqual(expected, actual) && user ? toPublicUser(user) : null;
+};
+
+const createUser = ({ username, password, role, displayName }) => {
+  const user = {
+    id: crypto.randomUUID(),
+    username: username.trim(),
+    role,
+    displayName: displayName || undefined,
+    ...hashPassword(password),
+    createdAt: new Date().toISOString()
+  };
+  writeJson(USERS_FILE, [...loadUsers(), user]);
+  return toPublicUser(user);
+};
+
+// Change the role, display name or password; returns null when the account doesn't exist
+const updateUser = (id, { password, role, displayName }) => {
+  const users = loadUsers();
+  const index = users.findIndex((user) => user.id === id);
+  if (index === -1) return null;
+
+  users[index] = {
+    ...users[index],
+    ...(role ? { role } : {}),
+    ...(displayName !== undefined ? { displayName: displayName || undefined } : {}),
+    ...(password ? hashPassword(password) : {})
+  };
+  writeJson(USERS_FILE, users);
+  return toPublicUser(users[index]);
+};
+
+const deleteUser = (id) => {
+  const users = loadUsers();
+  const remaining = users.filter((user) => user.id !== id);
+  if (remaining.length === users.length) return false;
+
+  writeJson(USERS_FILE, remaining);
+  return true;
+};
+
+const countAdmins = () => loadUsers().filter((user) => user.role === 'admin').length;
+
+// Create the first admin when there are no accounts yet. Uses ADMIN_USERNAME / ADMIN_PASSWORD,
+// or generates a password; returns the created credentials, or null when accounts already exist.
+const ensureAdminUser = () => {
+  if (loadUsers().length > 0) return null;
+
+  const username = process.env.ADMIN_USERNAME || 'admin';
+  const password = process.env.ADMIN_PASSWORD || crypto.randomBytes(12).toString('base64url');
+  createUser({ username, password, role: 'admin', displayName: 'Administrator' });
+  return { username, password, generated: !process.env.ADMIN_PASSWORD };
+};
+
+module.exports = {
+  listUsers,
+  findUser,
+  findUserByUsername,
+  authenticateUser,
+  createUser,
+  updateUser,
+  deleteUser,
+  countAdmins,
+  ensureAdminUser
+};
@@ -0,0 +1,90 @@
+const express = require('express');
+const { MAX_SNOOZE_MINUTES, validateAlertRule } = require('../../shared/alerts');
+const {
+  loadAlertRules,
+  createAlertRule,
+  updateAlertRule,
+  snoozeAlertRule,
+  deleteAlertRule
+} = require('../lib/alertRules');
+const { listAlertSenders } = require('../lib/alertSenders');
+const { requireRole } = require('../lib/auth');
+
+const router = express.Router();
+
+const validate = (rule) => validateAlertRule(rule, listAlertSenders().map((sender) => sender.id));
+
+const invalidRule = (res, errors) =>
+  res.status(400).json({ error: 'Invalid alert rule', details: errors.join('; ') });
+
+const ruleNotFound = (res) => res.status(404).json({ error: 'Alert rule not found' });
+
+router.get('/', (req, res) => {
+  res.json(loadAlertRules());
+});
+
+router.post('/', requireRole('admin'), (req, res) => {
+  const errors = validate(req.body);
+  if (errors.length > 0) {
+    return invalidRule(res, errors);
+  }
+
+  res.status(201).json(createAlertRule(req.body));
+});
+
+router.put('/:id', requireRole('admin'), (req, res) => {
+  const errors = validate(req.body);
+  if (errors.length > 0) {
+    return invalidRule(res, errors);
+  }
+
+  const rule = updateAlertRule(req.params.id, req.body);
+  if (!rule) {
+    return ruleNotFound(res);
+  }
+  res.json(rule);
+});
+
+// Silence a rule: { "minutes": 60 } or { "until": "2026-10-20T08:00:00Z" }
+router.post('/:id/snooze', requireRole('admin'), (req, res) => {
+  const { minutes, until } = req.body || {};
+  const untilDate = minutes !== undefined
+    ? new Date(Date.now() + Number(minutes) * 60 * 1000)
+    : new Date(until);
+
+  const latest = Date.now() + MAX_SNOOZE_MINUTES * 60 * 1000;
+  const valid = minutes !== undefined
+    ? Number.isInteger(minutes) && minutes > 0 && minutes <= MAX_SNOOZE_MINUTES
+    : typeof until === 'string' && !isNaN(untilDate.getTime())
+      && untilDate.getTime() > Date.now() && untilDate.getTime() <= latest;
+  if (!valid) {
+    return res.status(400).json({
+      error: 'Invalid snooze',
+      details: `Send "minutes" (a whole number from 1 to ${MAX_SNOOZE_MINUTES}) or "until" (an ISO timestamp within the next year)`
+    });
+  }
+
+  const rule = snoozeAlertRule(req.params.id, untilDate.toISOString());
+  if (!rule) {
+    return ruleNotFound(res);
+  }
+  res.json(rule);
+});
+
+// Resume notifications before the snooze runs out
+router.delete('/:id/snooze', requireRole('admin'), (req, res) => {
+  const rule = snoozeAlertRule(req.params.id, null);
+  if (!rule) {
+    return ruleNotFound(res);
+  }
+  res.json(rule);
+});
+
+router.delete('/:id', requireRole('admin'), (req, res) => {
+  if (!deleteAlertRule(req.params.id)) {
+    return ruleNotFound(res);
+  }
+  res.status(204).end();
+});
+
+module.exports = router;
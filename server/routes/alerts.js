@@ -0,0 +1,11 @@
+const express = require('express');
+const { getAlertsStatus } = require('../lib/alerts');
+
+const router = express.Router();
+
+// Notification senders and the alerts sent, newest first
+router.get('/', (req, res) => {
+  res.json(getAlertsStatus());
+});
+
+module.exports = router;
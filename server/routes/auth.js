@@ -0,0 +1,40 @@
+const express = require('express');
+const { authenticateUser } = require('../lib/users');
+const { createSession, deleteSession } = require('../lib/sessions');
+const { getSessionToken, setSessionCookie, clearSessionCookie } = require('../lib/auth');
+
+const router = express.Router();
+
+// Sign in with a local account: { username, password }
+router.post('/login', (req, res) => {
+  const { username, password } = req.body || {};
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return res.status(400).json({ error: 'Missing credentials', details: 'Send { "username", "password" }' });
+  }
+
+  const user = authenticateUser(username, password);
+  if (!user) {
+    return res.status(401).json({ error: 'Invalid username or password' });
+  }
+
+  const { token, expiresAt } = createSession(user.id);
+  setSessionCookie(res, token);
+  res.json({ user, token, expiresAt });
+});
+
+router.post('/logout', (req, res) => {
+  const token = getSessionToken(req);
+  if (token) deleteSession(token);
+  clearSessionCookie(res);
+  res.status(204).end();
+});
+
+// The signed-in user
+router.get('/me', (req, res) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+  res.json(req.user);
+});
+
+module.exports = router;
@@ -0,0 +1,32 @@
+const express = require('express');
+const { serverEvents } = require('../lib/serverEvents');
+
+const router = express.Router();
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25000;
+// How long the browser waits before reconnecting after the stream drops
+const RETRY_MS = 5000;
+
+// Server-Sent Events stream of new and updated reports and watched-folder results
+router.get('/', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const send = (event) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  serverEvents.on('event', send);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    serverEvents.off('event', send);
+  });
+});
+
+module.exports = router;
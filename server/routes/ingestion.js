@@ -0,0 +1,11 @@
+const express = require('express');
+const { getIngestionStatus } = require('../lib/folderWatcher');
+
+const router = express.Router();
+
+// Watched folder and the files picked up from it, newest first
+router.get('/', (req, res) => {
+  res.json(getIngestionStatus());
+});
+
+module.exports = router;
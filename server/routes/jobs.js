@@ -0,0 +1,29 @@
+const express = require('express');
+const { buildJobTimeline } = require('../../shared/history');
+const { getJobRuns } = require('../lib/jobHistory');
+
+const router = express.Router();
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?$/;
+
+// Timeline of one job across saved reports: ?job=<Job Details>&from=<date>&to=<date>
+router.get('/history', (req, res) => {
+  const { job, from, to } = req.query;
+  if (!job || typeof job !== 'string' || !job.trim()) {
+    return res.status(400).json({ error: 'Missing job', details: 'Pass the Job Details value as ?job=' });
+  }
+
+  const invalid = [['from', from], ['to', to]].filter(([, value]) => value && !ISO_DATE.test(value));
+  if (invalid.length > 0) {
+    return res.status(400).json({
+      error: 'Invalid date range',
+      details: invalid.map(([name]) => `"${name}" must be an ISO date such as 2026-10-01`).join('; ')
+    });
+  }
+
+  // Named as in the latest report rather than as typed in the query
+  const runs = getJobRuns(job, { from, to });
+  res.json(buildJobTimeline(runs.length > 0 ? runs[runs.length - 1].job : job.trim(), runs));
+});
+
+module.exports = router;
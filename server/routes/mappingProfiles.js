@@ -0,0 +1,57 @@
+const express = require('express');
+const { DEFAULT_MAPPING_PROFILE_ID, validateMappingProfile } = require('../../shared/mapping');
+const {
+  listMappingProfiles,
+  createMappingProfile,
+  updateMappingProfile,
+  deleteMappingProfile
+} = require('../lib/mappingProfiles');
+const { requireRole } = require('../lib/auth');
+
+const router = express.Router();
+
+const invalidProfile = (res, errors) =>
+  res.status(400).json({ error: 'Invalid mapping profile', details: errors.join('; ') });
+
+// Built-in profile first, then user profiles
+router.get('/', (req, res) => {
+  res.json(listMappingProfiles());
+});
+
+router.post('/', requireRole('admin'), (req, res) => {
+  const errors = validateMappingProfile(req.body);
+  if (errors.length > 0) {
+    return invalidProfile(res, errors);
+  }
+
+  res.status(201).json(createMappingProfile(req.body));
+});
+
+router.put('/:id', requireRole('admin'), (req, res) => {
+  if (req.params.id === DEFAULT_MAPPING_PROFILE_ID) {
+    return res.status(400).json({ error: 'The built-in mapping profile cannot be changed' });
+  }
+
+  const errors = validateMappingProfile(req.body);
+  if (errors.length > 0) {
+    return invalidProfile(res, errors);
+  }
+
+  const profile = updateMappingProfile(req.params.id, req.body);
+  if (!profile) {
+    return res.status(404).json({ error: 'Mapping profile not found' });
+  }
+  res.json(profile);
+});
+
+router.delete('/:id', requireRole('admin'), (req, res) => {
+  if (req.params.id === DEFAULT_MAPPING_PROFILE_ID) {
+    return res.status(400).json({ error: 'The built-in mapping profile cannot be deleted' });
+  }
+  if (!deleteMappingProfile(req.params.id)) {
+    return res.status(404).json({ error: 'Mapping profile not found' });
+  }
+  res.status(204).end();
+});
+
+module.exports = router;
@@ -0,0 +1,268 @@
+const express = require('express');
+const { listReports, getReport, getCachedReport, withoutRows, findSheet, getRowPage, getReportFilePath } = require('../lib/reportStore');
+const { renderReportPng, renderReportPdf, RenderTooLargeError } = require('../lib/renderReport');
+const { exportReportXlsx, exportReportCsv, exportReportJson } = require('../lib/exportReport');
+const { listReportEdits, editReportRow } = require('../lib/reportEdits');
+const { requireRole } = require('../lib/auth');
+const { diffSheets } = require('../../shared/diff');
+const { validateRowEdit } = require('../../shared/edits');
+const { getSheetColumns } = require('../../shared/columns');
+const { validateColumnLayout } = require('../../shared/views');
+const { getSavedView } = require('../lib/savedViews');
+
+const router = express.Router();
+
+// Strip server-only fields before a stored report goes to the client
+const toResponse = ({ storedFile, ...report }) => report;
+
+const RENDER_FORMATS = {
+  png: { contentType: 'image/png', render: renderReportPng },
+  pdf: { contentType: 'application/pdf', render: renderReportPdf }
+};
+
+// Without ?sheet= the XLSX export holds every sheet; CSV and JSON always export one
+const EXPORT_FORMATS = {
+  xlsx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    render: exportReportXlsx
+  },
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    render: (report, sheets, columnLayout) => exportReportCsv(report, sheets[0], columnLayout)
+  },
+  json: {
+    contentType: 'application/json; charset=utf-8',
+    render: (report, sheets, columnLayout) => exportReportJson(report, sheets[0], columnLayout)
+  }
+};
+
+const unsupportedFormat = (res, formats) => res.status(400).json({
+  error: 'Unsupported format',
+  details: `Format must be one of: ${Object.keys(formats).join(', ')}`
+});
+
+const attachmentName = (report, sheetName, format) => {
+  const baseName = String(report.fileName || 'report').replace(/\.[^.]+$/, '');
+  const date = new Date(report.uploadDate || Date.now()).toISOString().split('T')[0];
+  const parts = sheetName ? [baseName, sheetName, date] : [baseName, date];
+  return `${parts.join('-')}.${format}`.replace(/[^\w.-]+/g, '_');
+};
+
+const invalidLayout = (res, errors) =>
+  res.status(400).json({ error: 'Invalid column layout', details: errors.join('; ') });
+
+// Column layout for a render or export: ?layout=<JSON> as the grid has it, or a saved ?view=<id>.
+// Returns { layout } (undefined for the default columns) or { errors }.
+const readColumnLayout = (req) => {
+  if (req.query.layout) {
+    let layout;
+    try {
+      layout = JSON.parse(req.query.layout);
+    } catch (error) {
+      return { errors: ['"layout" is not valid JSON'] };
+    }
+    const errors = validateColumnLayout(layout);
+    return errors.length > 0 ? { errors } : { layout };
+  }
+
+  if (req.query.view) {
+    const view = getSavedView(req.query.view);
+    if (!view || (!view.shared && view.owner !== req.user.username)) {
+      return { errors: [`View "${req.query.view}" not found`] };
+    }
+    return { layout: view.layout };
+  }
+  return { layout: undefined };
+};
+
+// Render one sheet of a report and send it as an attachment
+const sendRender = async (res, report, sheetName, format = 'png', columnLayout) => {
+  const renderer = RENDER_FORMATS[format];
+  if (!renderer) {
+    return unsupportedFormat(res, RENDER_FORMATS);
+  }
+
+  try {
+    const sheet = findSheet(report, sheetName);
+    const buffer = await renderer.render(report, sheet, columnLayout);
+    res.set({
+      'Content-Type': renderer.contentType,
+      'Content-Disposition': `attachment; filename="${attachmentName(report, sheet.name, format)}"`
+    });
+    res.send(buffer);
+  } catch (error) {
+    if (error instanceof RenderTooLargeError) {
+      return res.status(413).json({ error: 'Report too large to render', details: error.message });
+    }
+    console.error('Render error:', error);
+    res.status(500).json({ error: 'Failed to render report', details: error.message });
+  }
+};
+
+// A posted report needs rows to render: a `sheets` array of sheets that each have `data` rows,
+// or, from before reports had sheets, a `data` array
+const isRenderableReport = (report) => {
+  if (!report || typeof report !== 'object') return false;
+  if (report.sheets === undefined) return Array.isArray(report.data);
+  return Array.isArray(report.sheets)
+    && report.sheets.every((sheet) => sheet && typeof sheet === 'object' && Array.isArray(sheet.data));
+};
+
+// Render a report that was parsed but not stored (e.g. by the Vercel function)
+router.post('/render', (req, res, next) => {
+  const { report, sheet, format, layout } = req.body || {};
+  if (!isRenderableReport(report)) {
+    return res.status(400).json({
+      error: 'Invalid report',
+      details: 'Request body must include the parsed report, with a "data" array of rows on each sheet'
+    });
+  }
+  const errors = layout === undefined ? [] : validateColumnLayout(layout);
+  if (errors.length > 0) {
+    return invalidLayout(res, errors);
+  }
+
+  sendRender(res, report, sheet, format, layout).catch(next);
+});
+
+// Saved reports, newest first
+router.get('/', (req, res) => {
+  res.json(listReports());
+});
+
+// ?rows=false leaves the rows out; large sheets are then read page by page from /:id/rows
+router.get('/:id', (req, res) => {
+  const report = getCachedReport(req.params.id);
+  if (!report) {
+    return res.status(404).json({ error: 'Report not found' });
+  }
+
+  res.json(toResponse(req.query.rows === 'false' ? withoutRows(report) : report));
+});
+
+// One page of a sheet's rows: ?sheet=<name>&cursor=<nextCursor of the previous page>&limit=2000
+router.get('/:id/rows', (req, res) => {
+  const report = getCachedReport(req.params.id);
+  if (!report) {
+    return res.status(404).json({ error: 'Report not found' });
+  }
+
+  const { page, error, details } = getRowPage(report, req.query);
+  if (!page) {
+    return res.status(400).json({ error, details });
+  }
+  res.json(page);
+});
+
+// Download the originally uploaded file
+router.get('/:id/file', (req, res) => {
+  const report = getReport(req.params.id);
+  const filePath = report && getReportFilePath(req.params.id);
+  if (!filePath) {
+    return res.status(404).json({ error: 'Report file not found' });
+  }
+
+  res.download(filePath, report.fileName);
+});
+
+// Render a sheet to PNG (default) or PDF: ?format=png|pdf&sheet=<name>, plus ?layout= or ?view=
+router.get('/:id/render', (req, res, next) => {
+  const report = getReport(req.params.id);
+  if (!report) {
+    return res.status(404).json({ error: 'Report not found' });
+  }
+  const { layout, errors } = readColumnLayout(req);
+  if (errors) {
+    return invalidLayout(res, errors);
+  }
+
+  sendRender(res, report, req.query.sheet, req.query.format, layout).catch(next);
+});
+
+// Export the parsed data: ?format=xlsx|csv|json&sheet=<name>, plus ?layout= or ?view=
+router.get('/:id/export', async (req, res) => {
+  const report = getReport(req.params.id);
+  if (!report) {
+    return res.status(404).json({ error: 'Report not found' });
+  }
+
+  const format = req.query.format || 'xlsx';
+  const exporter = EXPORT_FORMATS[format];
+  if (!exporter) {
+    return unsupportedFormat(res, EXPORT_FORMATS);
+  }
+
+  const { layout, errors } = readColumnLayout(req);
+  if (errors) {
+    return invalidLayout(res, errors);
+  }
+
+  const sheet = findSheet(report, req.query.sheet);
+  const wholeWorkbook = format === 'xlsx' && !req.query.sheet && report.sheets?.length > 0;
+  try {
+    const buffer = await exporter.render(report, wholeWorkbook ? report.sheets : [sheet], layout);
+    res.set({
+      'Content-Type': exporter.contentType,
+      'Content-Disposition': `attachment; filename="${attachmentName(report, wholeWorkbook ? '' : sheet.name, format)}"`
+    });
+    res.send(buffer);
+  } catch (error) {
+    console.error('Export error:', error);
+    res.status(500).json({ error: 'Failed to export report', details: error.message });
+  }
+});
+
+// Change notes or status cells of one row: { "sheet": "Day1", "cells": { "Comments": "Rerun at 06:00" } }
+router.patch('/:id/rows/:rowId', requireRole('uploader'), (req, res) => {
+  const report = getReport(req.params.id);
+  if (!report) {
+    return res.status(404).json({ error: 'Report not found' });
+  }
+
+  const sheetName = (req.body && req.body.sheet) || report.sheetName;
+  const sheet = (report.sheets || []).find((candidate) => candidate.name === sheetName);
+  if (!sheet) {
+    return res.status(404).json({ error: `Sheet "${sheetName}" not found` });
+  }
+
+  const errors = validateRowEdit(req.body, getSheetColumns(sheet.data, sheet.columns));
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid edit', details: errors.join('; ') });
+  }
+  if (!sheet.data.some((row) => row.id === req.params.rowId)) {
+    return res.status(404).json({ error: 'Row not found' });
+  }
+
+  res.json(editReportRow(report, sheet.name, req.params.rowId, req.body.cells, req.user.username));
+});
+
+// Who changed which cells, oldest first; ?sheet= limits it to one sheet
+router.get('/:id/edits', (req, res) => {
+  if (!getReport(req.params.id)) {
+    return res.status(404).json({ error: 'Report not found' });
+  }
+
+  res.json(listReportEdits(req.params.id, req.query.sheet));
+});
+
+// Compare :otherId (before) with :id (after), matching rows on Job Details and S.No
+router.get('/:id/diff/:otherId', (req, res) => {
+  const after = getReport(req.params.id);
+  const before = getReport(req.params.otherId);
+  if (!after || !before) {
+    return res.status(404).json({ error: 'Report not found' });
+  }
+
+  const afterSheet = findSheet(after, req.query.sheet);
+  const beforeSheet = findSheet(before, afterSheet.name);
+
+  res.json({
+    beforeId: before.reportId,
+    afterId: after.reportId,
+    beforeSheet: beforeSheet.name,
+    afterSheet: afterSheet.name,
+    ...diffSheets(beforeSheet, afterSheet)
+  });
+});
+
+module.exports = router;
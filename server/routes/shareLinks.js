@@ -0,0 +1,53 @@
+const express = require('express');
+const { hasRole } = require('../../shared/auth');
+const { validateShareLinkInput } = require('../../shared/shareLinks');
+const { listShareLinks, createShareLink, getShareLink, revokeShareLink } = require('../lib/shareLinks');
+const { getReportSummary } = require('../lib/reportStore');
+const { requireRole } = require('../lib/auth');
+
+const router = express.Router();
+
+// Every link, or one report's with ?reportId=. Only the creator of a link or an admin gets its
+// token; anyone else could otherwise pass on links they were never given
+router.get('/', (req, res) => {
+  const isAdmin = hasRole(req.user, 'admin');
+  res.json(listShareLinks(req.query.reportId).map(({ token, ...link }) => (
+    isAdmin || link.createdBy === req.user.username ? { ...link, token } : link
+  )));
+});
+
+// { "reportId": "...", "sheet": "Day1", "filters": "problems=1", "expiresInHours": 24 }
+router.post('/', requireRole('uploader'), (req, res) => {
+  const errors = validateShareLinkInput(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid share link', details: errors.join('; ') });
+  }
+
+  const summary = getReportSummary(req.body.reportId);
+  if (!summary) {
+    return res.status(404).json({ error: 'Report not found' });
+  }
+  if (req.body.sheet && !(summary.sheetNames || []).includes(req.body.sheet)) {
+    return res.status(400).json({ error: `Sheet "${req.body.sheet}" not found` });
+  }
+
+  res.status(201).json(createShareLink(req.body, req.user.username));
+});
+
+// Whoever created a link can revoke it, as can any admin
+router.delete('/:id', requireRole('uploader'), (req, res) => {
+  const link = getShareLink(req.params.id);
+  if (!link) {
+    return res.status(404).json({ error: 'Share link not found' });
+  }
+  if (link.createdBy !== req.user.username && !hasRole(req.user, 'admin')) {
+    return res.status(403).json({
+      error: 'Not allowed',
+      details: `Only ${link.createdBy} or an admin can revoke this link`
+    });
+  }
+
+  res.json(revokeShareLink(req.params.id, req.user.username));
+});
+
+module.exports = router;
@@ -0,0 +1,74 @@
+const express = require('express');
+const { resolveShareToken } = require('../lib/shareLinks');
+const { getCachedReport, withoutRows, getRowPage } = require('../lib/reportStore');
+
+// Reports opened through a share link; no sign-in, the signed token in the URL is the credential
+const router = express.Router();
+
+const GONE_MESSAGES = {
+  expired: 'This link has expired',
+  revoked: 'This link was revoked'
+};
+
+// The link and its report, narrowed to the shared sheet; sends the error and returns null otherwise
+const openSharedReport = (req, res) => {
+  const resolved = resolveShareToken(req.params.token);
+  if (!resolved) {
+    res.status(404).json({ error: 'Share link not found' });
+    return null;
+  }
+  if (resolved.state !== 'active') {
+    res.status(410).json({ error: GONE_MESSAGES[resolved.state] });
+    return null;
+  }
+
+  const { link } = resolved;
+  const report = getCachedReport(link.reportId);
+  if (!report) {
+    res.status(404).json({ error: 'Report not found', details: 'The shared report has been removed' });
+    return null;
+  }
+  if (!link.sheet) {
+    return { link, report };
+  }
+
+  const sheets = (report.sheets || []).filter((sheet) => sheet.name === link.sheet);
+  return {
+    link,
+    report: {
+      ...report,
+      sheetName: link.sheet,
+      sheetNames: [link.sheet],
+      sheets,
+      issues: (report.issues || []).filter((issue) => issue.sheet === link.sheet)
+    }
+  };
+};
+
+router.get('/:token', (req, res) => {
+  const shared = openSharedReport(req, res);
+  if (!shared) return;
+
+  const { link, report: { storedFile, ...report } } = shared;
+  res.json({
+    link: { sheet: link.sheet, filters: link.filters, createdBy: link.createdBy, expiresAt: link.expiresAt },
+    report: withoutRows(report)
+  });
+});
+
+// Pages like /api/reports/:id/rows; a link to one sheet always answers with that sheet
+router.get('/:token/rows', (req, res) => {
+  const shared = openSharedReport(req, res);
+  if (!shared) return;
+
+  const { page, error, details } = getRowPage(shared.report, {
+    ...req.query,
+    sheet: shared.link.sheet || req.query.sheet
+  });
+  if (!page) {
+    return res.status(400).json({ error, details });
+  }
+  res.json(page);
+});
+
+module.exports = router;
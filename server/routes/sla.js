@@ -0,0 +1,28 @@
+const express = require('express');
+const { validateSlaConfig } = require('../../shared/sla');
+const { loadSlaConfig, saveSlaConfig, resetSlaConfig } = require('../lib/slaConfig');
+const { requireRole } = require('../lib/auth');
+
+const router = express.Router();
+
+// Current SLA targets
+router.get('/', (req, res) => {
+  res.json(loadSlaConfig());
+});
+
+// Replace the SLA targets
+router.put('/', requireRole('admin'), (req, res) => {
+  const errors = validateSlaConfig(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid SLA targets', details: errors.join('; ') });
+  }
+
+  res.json(saveSlaConfig(req.body));
+});
+
+// Remove every target
+router.delete('/', requireRole('admin'), (req, res) => {
+  res.json(resetSlaConfig());
+});
+
+module.exports = router;
@@ -0,0 +1,28 @@
+const express = require('express');
+const { validateStatusRuleConfig } = require('../../shared/statusRules');
+const { loadStatusRules, saveStatusRules, resetStatusRules } = require('../lib/statusRules');
+const { requireRole } = require('../lib/auth');
+
+const router = express.Router();
+
+// Current status rule config
+router.get('/', (req, res) => {
+  res.json(loadStatusRules());
+});
+
+// Replace the status rule config
+router.put('/', requireRole('admin'), (req, res) => {
+  const errors = validateStatusRuleConfig(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid status rules', details: errors.join('; ') });
+  }
+
+  res.json(saveStatusRules(req.body));
+});
+
+// Restore the built-in rules
+router.delete('/', requireRole('admin'), (req, res) => {
+  res.json(resetStatusRules());
+});
+
+module.exports = router;
@@ -0,0 +1,73 @@
+const express = require('express');
+const { validateUserInput } = require('../../shared/auth');
+const {
+  listUsers,
+  findUser,
+  findUserByUsername,
+  createUser,
+  updateUser,
+  deleteUser,
+  countAdmins
+} = require('../lib/users');
+const { deleteUserSessions } = require('../lib/sessions');
+
+const router = express.Router();
+
+const invalidUser = (res, errors) =>
+  res.status(400).json({ error: 'Invalid user', details: errors.join('; ') });
+
+// Local accounts (admins only)
+router.get('/', (req, res) => {
+  res.json(listUsers());
+});
+
+router.post('/', (req, res) => {
+  const errors = validateUserInput(req.body);
+  if (errors.length > 0) {
+    return invalidUser(res, errors);
+  }
+  if (findUserByUsername(req.body.username)) {
+    return res.status(409).json({ error: `User "${req.body.username}" already exists` });
+  }
+
+  res.status(201).json(createUser(req.body));
+});
+
+// Change the role, display name or password; the username is fixed
+router.put('/:id', (req, res) => {
+  const { username, ...changes } = req.body || {};
+  const errors = validateUserInput(changes, { partial: true });
+  if (errors.length > 0) {
+    return invalidUser(res, errors);
+  }
+
+  const user = findUser(req.params.id);
+  if (!user) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  if (user.role === 'admin' && changes.role && changes.role !== 'admin' && countAdmins() === 1) {
+    return res.status(400).json({ error: 'The last admin cannot be given another role' });
+  }
+
+  const updated = updateUser(req.params.id, changes);
+  if (changes.password) deleteUserSessions(req.params.id);
+  res.json(updated);
+});
+
+router.delete('/:id', (req, res) => {
+  if (req.params.id === req.user.id) {
+    return res.status(400).json({ error: 'You cannot delete your own account' });
+  }
+
+  const user = findUser(req.params.id);
+  if (user && user.role === 'admin' && countAdmins() === 1) {
+    return res.status(400).json({ error: 'The last admin cannot be deleted' });
+  }
+  if (!deleteUser(req.params.id)) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  deleteUserSessions(req.params.id);
+  res.status(204).end();
+});
+
+module.exports = router;
@@ -0,0 +1,65 @@
+const express = require('express');
+const { hasRole } = require('../../shared/auth');
+const { validateSavedViewInput } = require('../../shared/views');
+const {
+  listSavedViews,
+  getSavedView,
+  createSavedView,
+  updateSavedView,
+  deleteSavedView
+} = require('../lib/savedViews');
+
+const router = express.Router();
+
+const invalidView = (res, errors) =>
+  res.status(400).json({ error: 'Invalid view', details: errors.join('; ') });
+
+// Anyone can keep personal views; sharing one with everybody needs the uploader role
+const checkInput = (req, res) => {
+  const errors = validateSavedViewInput(req.body);
+  if (errors.length > 0) {
+    invalidView(res, errors);
+    return false;
+  }
+  if (req.body.shared && !hasRole(req.user, 'uploader')) {
+    res.status(403).json({ error: 'Not allowed', details: 'Sharing a view needs the uploader role' });
+    return false;
+  }
+  return true;
+};
+
+// A view the user may change: their own, or any view for an admin; sends the error otherwise
+const findOwnView = (req, res) => {
+  const view = getSavedView(req.params.id);
+  if (!view || (!view.shared && view.owner !== req.user.username && !hasRole(req.user, 'admin'))) {
+    res.status(404).json({ error: 'View not found' });
+    return null;
+  }
+  if (view.owner !== req.user.username && !hasRole(req.user, 'admin')) {
+    res.status(403).json({ error: 'Not allowed', details: `Only ${view.owner} or an admin can change this view` });
+    return null;
+  }
+  return view;
+};
+
+router.get('/', (req, res) => {
+  res.json(listSavedViews(req.user.username));
+});
+
+router.post('/', (req, res) => {
+  if (!checkInput(req, res)) return;
+  res.status(201).json(createSavedView(req.body, req.user.username));
+});
+
+router.put('/:id', (req, res) => {
+  if (!findOwnView(req, res) || !checkInput(req, res)) return;
+  res.json(updateSavedView(req.params.id, req.body));
+});
+
+router.delete('/:id', (req, res) => {
+  if (!findOwnView(req, res)) return;
+  deleteSavedView(req.params.id);
+  res.status(204).end();
+});
+
+module.exports = router;
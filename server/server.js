@@ -1,19 +1,48 @@
+require('dotenv').config();
 const express = require('express');
 const cors = require('cors');
 const multer = require('multer');
-const XLSX = require('xlsx');
 const path = require('path');
 const fs = require('fs');
 const helmet = require('helmet');
-require('dotenv').config();
+const { ALLOWED_MIME_TYPES, SheetNotFoundError } = require('../shared/parser');
+const { DEFAULT_MAPPING_PROFILE_ID } = require('../shared/mapping');
+const { getMappingProfile } = require('./lib/mappingProfiles');
+const { ingestReport } = require('./lib/ingestReport');
+const { withoutRows } = require('./lib/reportStore');
+const { ensureJobHistory } = require('./lib/jobHistory');
+const { startFolderWatcher } = require('./lib/folderWatcher');
+const { authenticate, requireRole } = require('./lib/auth');
+const { ensureAdminUser } = require('./lib/users');
+const statusRulesRouter = require('./routes/statusRules');
+const slaRouter = require('./routes/sla');
+const mappingProfilesRouter = require('./routes/mappingProfiles');
+const reportsRouter = require('./routes/reports');
+const jobsRouter = require('./routes/jobs');
+const ingestionRouter = require('./routes/ingestion');
+const eventsRouter = require('./routes/events');
+const authRouter = require('./routes/auth');
+const usersRouter = require('./routes/users');
+const alertRulesRouter = require('./routes/alertRules');
+const alertsRouter = require('./routes/alerts');
+const shareLinksRouter = require('./routes/shareLinks');
+const sharedRouter = require('./routes/shared');
+const viewsRouter = require('./routes/views');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
+// Rows are parsed in chunks and served in pages, but the file itself is read in one blocking call
+// (about 3.5s for an 18MB, 50k-row workbook), so the default stops well before that stalls everyone
+const MAX_UPLOAD_MB = Number(process.env.MAX_UPLOAD_MB) || 25;
 
 // Middleware
 app.use(helmet());
-app.use(cors());
-app.use(express.json());
+// Same-origin by default (the Vite dev server proxies /api); list other front-ends in CORS_ORIGIN
+const corsOrigins = (process.env.CORS_ORIGIN || '').split(',').map((origin) => origin.trim()).filter(Boolean);
+app.use(cors({ origin: corsOrigins.length > 0 ? corsOrigins : false, credentials: true }));
+// Parsed reports can be posted back for rendering, so allow large bodies
+app.use(express.json({ limit: '20mb' }));
+app.use(authenticate);
 
 // Create uploads directory if it doesn't exist
 const uploadsDir = path.join(__dirname, 'uploads');
@@ -35,201 +64,54 @@ const storage = multer.diskStorage({
 const upload = multer({
   storage: storage,
   fileFilter: (req, file, cb) => {
-    const allowedMimes = [
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'application/vnd.ms-excel',
-      'text/csv'
-    ];
-    if (allowedMimes.includes(file.mimetype)) {
+    if (ALLOWED_MIME_TYPES.includes(file.mimetype)) {
       cb(null, true);
     } else {
       cb(new Error('Invalid file type. Only Excel and CSV files are allowed.'));
     }
   },
   limits: {
-    fileSize: 10 * 1024 * 1024 // 10MB limit
+    fileSize: MAX_UPLOAD_MB * 1024 * 1024
   }
 });
 
-// Helper function to convert Excel serial date to time format
-const convertExcelTime = (serial) => {
-  if (typeof serial !== 'number') return serial;
-  
-  // Excel stores time as fraction of day
-  const totalMinutes = Math.round(serial * 24 * 60);
-  const hours = Math.floor(totalMinutes / 60) % 24;
-  const minutes = totalMinutes % 60;
-  
-  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
-};
-
-// Helper function to get formatted cell value
-const getFormattedCellValue = (worksheet, cellAddress) => {
-  const cell = worksheet[cellAddress];
-  if (!cell) return '';
-  
-  // If cell has a formatted text, use it
-  if (cell.w) return cell.w;
-  
-  // If cell has a raw value
-  if (cell.v !== undefined) {
-    // Check if it's a time value (between 0 and 1)
-    if (typeof cell.v === 'number' && cell.v >= 0 && cell.v < 1) {
-      return convertExcelTime(cell.v);
-    }
-    return cell.v;
-  }
-  
-  return '';
-};
-
-// Helper function to determine status and color based on cell value
-const getStatusInfo = (value) => {
-  if (!value || value === null || value === undefined || value === '') {
-    return { status: 'NA', color: '#d9d9d9', type: 'default' };
-  }
-  
-  const strValue = String(value).toUpperCase().trim();
-  
-  // Green status indicators (ACTIVE, PASS, ENABLED, UNSUSPENDED)
-  if (['ACTIVE', 'PASS', 'ENABLED', 'UNSUSPENDED'].includes(strValue)) {
-    return { status: strValue, color: '#00B050', type: 'success' };
-  }
-  
-  // Red status indicators (OFF, FAILED, INACTIVE, SUSPENDED)  
-  if (['OFF', 'FAILED', 'INACTIVE', 'SUSPENDED'].includes(strValue)) {
-    return { status: strValue, color: '#FF0000', type: 'error' };
-  }
-  
-  // Orange status indicators (PENDING)
-  if (['PENDING'].includes(strValue)) {
-    return { status: strValue, color: '#FFC000', type: 'warning' };
-  }
-  
-  // Time values (HH:MM format) - Blue indicators
-  if (/^\d{1,2}:\d{2}$/.test(strValue)) {
-    if (strValue === '00:00') {
-      return { status: strValue, color: '#d9d9d9', type: 'default' };
-    }
-    return { status: strValue, color: '#0070C0', type: 'processing' };
-  }
-  
-  // Date values (DD-MMM format) - Purple indicators  
-  if (/^\d{1,2}-[A-Za-z]{3}$/.test(strValue)) {
-    return { status: strValue, color: '#7030A0', type: 'purple' };
-  }
-  
-  // NA values
-  if (strValue === 'NA') {
-    return { status: 'NA', color: '#d9d9d9', type: 'default' };
-  }
-  
-  // Default for any other values
-  return { status: strValue, color: '#0070C0', type: 'info' };
-};
-
-// Upload and process Excel file
-app.post('/api/upload-excel', upload.single('excel'), (req, res) => {
+// Upload and process Excel file; ?rows=false answers without the rows, which the client then pages through
+app.post('/api/upload-excel', requireRole('uploader'), upload.single('excel'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
     const filePath = req.file.path;
-    
-    // Read the Excel file
-    const workbook = XLSX.readFile(filePath);
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    
-    // Get the range of the worksheet
-    const range = XLSX.utils.decode_range(worksheet['!ref']);
-    
-    // Extract headers from first row
-    const headers = [];
-    for (let col = range.s.c; col <= range.e.c; col++) {
-      const cellAddress = XLSX.utils.encode_cell({ r: range.s.r, c: col });
-      const cellValue = getFormattedCellValue(worksheet, cellAddress);
-      headers.push(cellValue || `Column${col + 1}`);
+
+    const mapping = getMappingProfile(req.body.profile || DEFAULT_MAPPING_PROFILE_ID);
+    if (!mapping) {
+      fs.unlinkSync(filePath);
+      return res.status(400).json({ error: `Unknown mapping profile "${req.body.profile}"` });
     }
     
+    const { report, headers, issues } = await ingestReport(filePath, {
+      originalName: req.file.originalname,
+      sheet: req.body.sheet || undefined,
+      mapping,
+      createdBy: req.user.username
+    });
+
     console.log('Headers found:', headers);
+    report.sheets.forEach(({ name, headerRows }) => {
+      if (headerRows && headerRows.length > 0) console.log(`Header of "${name}" read from row(s) ${headerRows.join(', ')}`);
+    });
+    issues.forEach(({ severity, sheet, row, message }) => {
+      console.log(`${severity === 'error' ? '✗' : '⚠'} ${sheet}${row ? ` row ${row}` : ''}: ${message}`);
+    });
     
-    // Process each data row - completely rewritten for clean processing
-    const jsonData = [];
-    
-    for (let row = range.s.r + 1; row <= range.e.r; row++) {
-      const rowData = {};
-      let hasValidData = false;
-      
-      // Process each column for this row
-      for (let col = range.s.c; col <= range.e.c; col++) {
-        const header = headers[col - range.s.c];
-        const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
-        const cellValue = getFormattedCellValue(worksheet, cellAddress);
-        
-        // Skip processing column headers and empty columns
-        if (!header || header.startsWith('Column')) continue;
-        
-        // Map the header to a clean name
-        let cleanHeader = header;
-        if (header.toLowerCase().includes('s.no') || header.toLowerCase().includes('s no') || header.toLowerCase() === 's.no') {
-          cleanHeader = 'S.No';
-        } else if (header.toLowerCase().includes('job') && header.toLowerCase().includes('detail')) {
-          cleanHeader = 'Job Details';
-        } else if (header.toLowerCase().includes('comment')) {
-          cleanHeader = 'Comments';
-        }
-        
-        // Store the raw value
-        rowData[cleanHeader] = cellValue || '';
-        
-        // Add status info for non-text columns
-        if (!['S.No', 'Job Details', 'Comments'].includes(cleanHeader)) {
-          const statusInfo = getStatusInfo(cellValue);
-          rowData[`${cleanHeader}_status`] = statusInfo.status;
-          rowData[`${cleanHeader}_color`] = statusInfo.color;
-          rowData[`${cleanHeader}_type`] = statusInfo.type;
-        }
-        
-        if (cellValue && cellValue.toString().trim() !== '') {
-          hasValidData = true;
-        }
-      }
-      
-      // Only include rows with valid S.No and Job Details
-      const sNo = rowData['S.No'];
-      const jobDetails = rowData['Job Details'];
-      
-      if (sNo && jobDetails && !isNaN(Number(sNo)) && jobDetails.toString().trim() !== '') {
-        // Add metadata
-        rowData.id = `row-${sNo}`;
-        rowData.rowNumber = Number(sNo);
-        rowData.uploadDate = new Date().toISOString();
-        
-        jsonData.push(rowData);
-        console.log(`✓ Row ${sNo}: "${jobDetails}"`);
-      } else {
-        console.log(`✗ Skipped row ${row}: Invalid S.No="${sNo}" or Job="${jobDetails}"`);
-      }
-    }
-    
-    // Sort by S.No to ensure proper order
-    jsonData.sort((a, b) => (a.rowNumber || 0) - (b.rowNumber || 0));
-    
-    // Clean up the uploaded file
+    // The report keeps its own copy of the original file
     fs.unlinkSync(filePath);
     
-    console.log(`Successfully processed ${jsonData.length} valid rows`);
-    console.log('Sample data:', jsonData[0]);
+    console.log(`Successfully processed ${report.sheets.length} sheet(s), ${report.totalRows} valid rows in "${report.sheetName}"`);
+    console.log(`Saved as report ${report.reportId}`);
     
-    res.json({
-      success: true,
-      data: jsonData,
-      totalRows: jsonData.length,
-      fileName: req.file.originalname,
-      uploadDate: new Date().toISOString()
-    });
+    res.json(req.query.rows === 'false' ? withoutRows(report) : report);
 
   } catch (error) {
     console.error('Error processing Excel file:', error);
@@ -238,6 +120,10 @@ app.post('/api/upload-excel', upload.single('excel'), (req, res) => {
     if (req.file && fs.existsSync(req.file.path)) {
       fs.unlinkSync(req.file.path);
     }
+
+    if (error instanceof SheetNotFoundError) {
+      return res.status(400).json({ error: error.message });
+    }
     
     res.status(500).json({ 
       error: 'Failed to process Excel file',
@@ -246,6 +132,40 @@ app.post('/api/upload-excel', upload.single('excel'), (req, res) => {
   }
 });
 
+// Sign-in and local accounts
+app.use('/api/auth', authRouter);
+app.use('/api/users', requireRole('admin'), usersRouter);
+
+// Status rule config used to colour status cells (changes need an admin)
+app.use('/api/status-rules', requireRole('viewer'), statusRulesRouter);
+app.use('/api/sla', requireRole('viewer'), slaRouter);
+
+// Header-to-role mapping profiles chosen at upload time
+app.use('/api/mapping-profiles', requireRole('viewer'), mappingProfilesRouter);
+
+// Named column layouts for the grid, renders and exports
+app.use('/api/views', requireRole('viewer'), viewsRouter);
+
+// Saved report history
+app.use('/api/reports', requireRole('viewer'), reportsRouter);
+
+// Read-only links to saved reports, and the reports they open (no sign-in needed for those)
+app.use('/api/share-links', requireRole('viewer'), shareLinksRouter);
+app.use('/api/shared', sharedRouter);
+
+// Per-job timelines across saved reports
+app.use('/api/jobs', requireRole('viewer'), jobsRouter);
+
+// Alert rules checked against new reports, and the notifications sent
+app.use('/api/alert-rules', requireRole('viewer'), alertRulesRouter);
+app.use('/api/alerts', requireRole('viewer'), alertsRouter);
+
+// Files picked up from the watched folder
+app.use('/api/ingestion', requireRole('viewer'), ingestionRouter);
+
+// Live updates for open viewers
+app.use('/api/events', requireRole('viewer'), eventsRouter);
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ 
@@ -259,17 +179,42 @@ app.get('/api/health', (req, res) => {
 app.use((error, req, res, next) => {
   if (error instanceof multer.MulterError) {
     if (error.code === 'LIMIT_FILE_SIZE') {
-      return res.status(400).json({ error: 'File too large. Maximum size is 10MB.' });
+      return res.status(400).json({ error: `File too large. Maximum size is ${MAX_UPLOAD_MB}MB.` });
     }
   }
   
+  // express.json only accepts a JSON object or array; anything else is the caller's mistake
+  if (error.type === 'entity.parse.failed') {
+    return res.status(400).json({ error: 'Request body must be a JSON object', details: error.message });
+  }
+
   res.status(500).json({ 
     error: 'Internal server error',
     details: error.message 
   });
 });
 
+const admin = ensureAdminUser();
+if (admin) {
+  console.log(`🔑 Created admin account "${admin.username}"${admin.generated ? ` with password ${admin.password} (change it after signing in)` : ''}`);
+}
+
+const indexedReports = ensureJobHistory();
+if (indexedReports > 0) {
+  console.log(`🗂️ Indexed job history of ${indexedReports} saved report(s)`);
+}
+
 app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📊 Excel Upload API ready at http://localhost:${PORT}/api/upload-excel`);
+
+  // Optional: save every workbook dropped into WATCH_DIR as a report
+  if (process.env.WATCH_DIR) {
+    const { directory, intervalMs } = startFolderWatcher({
+      directory: path.resolve(process.env.WATCH_DIR),
+      intervalMs: (Number(process.env.WATCH_INTERVAL_SECONDS) || 10) * 1000,
+      profileId: process.env.WATCH_PROFILE || DEFAULT_MAPPING_PROFILE_ID
+    });
+    console.log(`📂 Watching ${directory} for new workbooks every ${intervalMs / 1000}s`);
+  }
 });
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlertRule, evaluateAlertRules, validateAlertRule } from '../alerts';
+import { parseWorkbook } from '../parser';
+import { buildWorkbook, dailySheet } from './workbooks';
+
+const NOW = new Date('2024-03-01T08:00:00Z');
+
+const report = parseWorkbook(buildWorkbook(dailySheet('Daily', [
+  [4, 'Fx rates', 'FAILED', 'FAILED', '']
+])), { fileName: 'daily.xlsx' }).response;
+
+const rule = (changes: Partial<AlertRule>): AlertRule => ({
+  id: 'rule',
+  name: 'Failures',
+  trigger: 'status',
+  enabled: true,
+  ...changes
+});
+
+describe('evaluateAlertRules', () => {
+  it('matches status cells by label or type, optionally for one job', () => {
+    const [failed, pending, fxRates] = evaluateAlertRules(report, [
+      rule({ id: 'failed', status: 'failed' }),
+      rule({ id: 'pending', statusType: 'warning' }),
+      rule({ id: 'fx', job: 'FX RATES' })
+    ], NOW);
+
+    assert.equal(failed.count, 3);
+    assert.equal(failed.summary, '3 FAILED cells');
+    assert.deepEqual(failed.cells[0], { sheet: 'Daily', job: 'Ledger sync', column: '06:00', value: 'FAILED', status: 'FAILED' });
+    assert.equal(pending.summary, '1 warning cell');
+    assert.equal(fxRates.summary, '2 error cells in FX RATES');
+  });
+
+  it('counts error cells against a threshold', () => {
+    const matches = evaluateAlertRules(report, [
+      rule({ id: 'two', trigger: 'error-count', threshold: 2 }),
+      rule({ id: 'three', trigger: 'error-count', threshold: 3 })
+    ], NOW);
+
+    assert.deepEqual(matches.map((match) => [match.ruleId, match.summary]), [['two', '3 error cells, more than 2']]);
+  });
+
+  it('skips disabled and snoozed rules', () => {
+    const matches = evaluateAlertRules(report, [
+      rule({ id: 'off', enabled: false }),
+      rule({ id: 'snoozed', snoozedUntil: '2024-03-01T09:00:00Z' }),
+      rule({ id: 'woken', snoozedUntil: '2024-03-01T07:00:00Z' })
+    ], NOW);
+
+    assert.deepEqual(matches.map((match) => match.ruleId), ['woken']);
+  });
+});
+
+describe('validateAlertRule', () => {
+  const senders = ['webhook', 'console'];
+
+  it('accepts a complete rule', () => {
+    assert.deepEqual(validateAlertRule({ name: 'Failures', trigger: 'status', enabled: true, senders: ['console'] }, senders), []);
+  });
+
+  it('rejects anything but an object', () => {
+    assert.deepEqual(validateAlertRule('FAILED', senders), ['Alert rule must be an object']);
+  });
+
+  it('lists every problem with a rule', () => {
+    const errors = validateAlertRule({
+      name: '',
+      trigger: 'error-count',
+      enabled: 'yes',
+      job: 3,
+      statusType: 'fatal',
+      threshold: -1,
+      senders: ['pager']
+    }, senders);
+
+    assert.deepEqual(errors, [
+      '"name" is required',
+      '"enabled" must be true or false',
+      '"job" must be a string',
+      '"statusType" must be one of success, error, warning, processing, purple, info, default',
+      '"threshold" must be a whole number, 0 or more',
+      'Unknown sender "pager"; available: webhook, console'
+    ]);
+  });
+});
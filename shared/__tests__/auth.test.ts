@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthUser, hasRole, readHeaderIdentityConfig, resolveHeaderIdentity, validateUserInput } from '../auth';
+
+const user = (role: AuthUser['role']): AuthUser => ({ id: role, username: role, role, provider: 'local' });
+
+describe('hasRole', () => {
+  it('lets each role do what the roles below it can', () => {
+    assert.equal(hasRole(user('admin'), 'uploader'), true);
+    assert.equal(hasRole(user('uploader'), 'uploader'), true);
+    assert.equal(hasRole(user('viewer'), 'uploader'), false);
+    assert.equal(hasRole(null, 'viewer'), false);
+  });
+});
+
+describe('resolveHeaderIdentity', () => {
+  const config = readHeaderIdentityConfig({
+    AUTH_USER_HEADER: 'X-Forwarded-User',
+    AUTH_ROLE_HEADER: 'X-Forwarded-Role'
+  });
+
+  it('reads the user and role set by the proxy', () => {
+    assert.ok(config);
+    assert.deepEqual(resolveHeaderIdentity({ 'x-forwarded-user': ' jo ', 'x-forwarded-role': 'Uploader' }, config), {
+      id: 'header:jo',
+      username: 'jo',
+      role: 'uploader',
+      provider: 'header'
+    });
+  });
+
+  it('falls back to the default role and needs a user', () => {
+    assert.ok(config);
+    assert.equal(resolveHeaderIdentity({ 'x-forwarded-user': 'jo', 'x-forwarded-role': 'root' }, config)?.role, 'viewer');
+    assert.equal(resolveHeaderIdentity({}, config), null);
+    assert.equal(readHeaderIdentityConfig({}), null);
+  });
+});
+
+describe('validateUserInput', () => {
+  it('accepts a complete account', () => {
+    assert.deepEqual(validateUserInput({ username: 'jo.bloggs', password: 'correct horse', role: 'viewer' }), []);
+  });
+
+  it('rejects anything but an object', () => {
+    assert.deepEqual(validateUserInput('jo'), ['User must be an object']);
+    assert.deepEqual(validateUserInput(null, { partial: true }), ['User must be an object']);
+  });
+
+  it('lists every problem with a new account', () => {
+    assert.deepEqual(validateUserInput({ username: 'j', password: 'short', displayName: 7 }), [
+      '"username" must be 2-64 letters, digits or . _ @ -',
+      '"password" must be at least 8 characters',
+      '"role" must be one of: viewer, uploader, admin',
+      '"displayName" must be a string'
+    ]);
+  });
+
+  it('only checks the fields a change sends', () => {
+    assert.deepEqual(validateUserInput({ role: 'admin' }, { partial: true }), []);
+    assert.deepEqual(validateUserInput({ password: 'short' }, { partial: true }), [
+      '"password" must be at least 8 characters'
+    ]);
+  });
+});
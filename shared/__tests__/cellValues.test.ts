@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyNumberFormat, compareRowCells, formatTypedValue } from '../cellValues';
+import { ExcelRow } from '../types';
+
+describe('classifyNumberFormat', () => {
+  it('tells number formats apart', () => {
+    assert.equal(classifyNumberFormat(undefined), 'number');
+    assert.equal(classifyNumberFormat('General'), 'number');
+    assert.equal(classifyNumberFormat('#,##0.00;[Red]-#,##0.00'), 'number');
+    assert.equal(classifyNumberFormat('0.0%'), 'percent');
+    assert.equal(classifyNumberFormat('dd/mm/yyyy'), 'date');
+    assert.equal(classifyNumberFormat('mmm-yy'), 'date');
+    assert.equal(classifyNumberFormat('h:mm AM/PM'), 'time');
+    assert.equal(classifyNumberFormat('mm:ss'), 'time');
+    assert.equal(classifyNumberFormat('yyyy-mm-dd hh:mm'), 'datetime');
+    assert.equal(classifyNumberFormat('[h]:mm:ss'), 'duration');
+    // Quoted text isn't read as format codes
+    assert.equal(classifyNumberFormat('0 "days"'), 'number');
+  });
+});
+
+describe('formatTypedValue', () => {
+  it('shows times without zero seconds and durations in hours and minutes', () => {
+    assert.equal(formatTypedValue('time', '04:00:00', '4:00'), '04:00');
+    assert.equal(formatTypedValue('time', '04:00:30', '4:00'), '04:00:30');
+    assert.equal(formatTypedValue('duration', 95400, '26:30'), '26h 30m');
+    assert.equal(formatTypedValue('duration', 300, '0:05'), '5m');
+  });
+
+  it('keeps the workbook text for numbers, percentages and empty cells', () => {
+    assert.equal(formatTypedValue('percent', 0.45, '45%'), '45%');
+    assert.equal(formatTypedValue('number', 1234.5, '1,234.5'), '1,234.5');
+    assert.equal(formatTypedValue('date', '', ''), '');
+  });
+});
+
+describe('compareRowCells', () => {
+  const row = (cell: Partial<ExcelRow>, id: string): ExcelRow => ({ id, rowNumber: 0, uploadDate: '', ...cell });
+
+  it('sorts typed values by value, then text naturally, then empty cells', () => {
+    const rows = [
+      row({ Took: '' }, 'empty'),
+      row({ Took: 'Job 10' }, 'job10'),
+      row({ Took: '26:30', Took_value: 95400, Took_kind: 'duration' }, 'long'),
+      row({ Took: 'Job 2' }, 'job2'),
+      row({ Took: '0:05', Took_value: 300, Took_kind: 'duration' }, 'short')
+    ];
+
+    assert.deepEqual(
+      [...rows].sort((a, b) => compareRowCells(a, b, 'Took')).map((sorted) => sorted.id),
+      ['short', 'long', 'job2', 'job10', 'empty']
+    );
+  });
+
+  it('sorts dates and times as ISO text', () => {
+    const early = row({ Run: '2/3/2024', Run_value: '2024-03-02', Run_kind: 'date' }, 'early');
+    const late = row({ Run: '10/3/2024', Run_value: '2024-03-10', Run_kind: 'date' }, 'late');
+
+    assert.ok(compareRowCells(early, late, 'Run') < 0);
+  });
+});
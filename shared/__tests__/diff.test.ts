@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffSheets } from '../diff';
+import { parseWorkbook } from '../parser';
+import { DAILY_HEADER, SampleCell, buildWorkbook } from './workbooks';
+
+// The Daily sheet of a sample workbook with these rows under the usual header
+const parseDaily = (rows: SampleCell[][]) => {
+  const { response } = parseWorkbook(buildWorkbook({ name: 'Daily', rows: [DAILY_HEADER, ...rows] }), {
+    fileName: 'daily.xlsx'
+  });
+  return response.sheets[0];
+};
+
+describe('diffSheets', () => {
+  const before = parseDaily([
+    [1, 'Billing extract', '05:42', 'PASS', ''],
+    [2, 'Ledger sync', 'FAILED', '00:00', ''],
+    [3, 'Card settlement', '05:50', 'PASS', ''],
+    [4, 'Archive', 'PASS', 'PASS', '']
+  ]);
+  const after = parseDaily([
+    [1, 'Billing extract', '06:12', 'FAILED', ''],
+    [2, 'Ledger sync', 'PASS', '00:00', 'Rerun at 07:00'],
+    [3, 'Card settlement', '05:50', 'PASS', ''],
+    [4, 'Fx rates', 'PASS', 'PASS', '']
+  ]);
+
+  it('matches rows on the job and compares status and notes cells', () => {
+    const { rows } = diffSheets(before, after);
+    const byJob = new Map(rows.map((row) => [row.key, row]));
+
+    const billing = byJob.get('billing extract');
+    assert.equal(billing?.change, 'changed');
+    assert.deepEqual(billing?.cells.map(({ column, before: was, after: now, timeShiftMinutes, regression }) => ({
+      column, was, now, timeShiftMinutes, regression
+    })), [
+      { column: '06:00', was: '05:42', now: '06:12', timeShiftMinutes: 30, regression: false },
+      { column: '12:00', was: 'PASS', now: 'FAILED', timeShiftMinutes: undefined, regression: true }
+    ]);
+
+    assert.deepEqual(byJob.get('ledger sync')?.cells.map((cell) => cell.column), ['06:00', 'Comments']);
+    assert.equal(byJob.get('card settlement')?.change, 'unchanged');
+  });
+
+  it('lists a job that took over an S.No as added and the old one as removed', () => {
+    const { rows } = diffSheets(before, after);
+    const added = rows.find((row) => row.change === 'added');
+    const removed = rows.find((row) => row.change === 'removed');
+
+    assert.equal(added?.after?.id, 'row-4');
+    assert.equal(removed?.before?.id, 'row-4');
+    assert.notEqual(added?.key, removed?.key);
+    // Removed rows follow the rows of the newer report
+    assert.equal(rows[rows.length - 1], removed);
+  });
+
+  it('counts changes, regressions, recoveries and slipped times', () => {
+    const { summary } = diffSheets(before, after);
+
+    assert.deepEqual(summary, {
+      added: 1,
+      removed: 1,
+      changed: 2,
+      unchanged: 1,
+      regressions: 1,
+      recoveries: 1,
+      slipped: 1
+    });
+  });
+
+  it('tells jobs listed more than once apart by S.No', () => {
+    const rerun = parseDaily([
+      [1, 'Billing extract', '05:42', 'PASS', ''],
+      [2, 'Billing extract', 'FAILED', '', '']
+    ]);
+    const fixed = parseDaily([
+      [1, 'Billing extract', '05:42', 'PASS', ''],
+      [2, 'Billing extract', 'PASS', '', '']
+    ]);
+    const { rows } = diffSheets(rerun, fixed);
+
+    assert.deepEqual(rows.map((row) => [row.key, row.change]), [
+      ['billing extract#1', 'unchanged'],
+      ['billing extract#2', 'changed']
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_CELL_TEXT_LENGTH, validateRowEdit } from '../edits';
+import { applySlaTarget, applyStatusRules, readTextCell } from '../parser';
+import { DEFAULT_STATUS_RULES } from '../statusRules';
+import { DEFAULT_SLA_CONFIG } from '../sla';
+import { ColumnDef } from '../types';
+
+const COLUMNS: ColumnDef[] = [
+  { key: 'S.No', role: 'id' },
+  { key: 'Job Details', role: 'title' },
+  { key: '06:00', role: 'status' },
+  { key: 'Comments', role: 'notes' }
+];
+
+describe('validateRowEdit', () => {
+  it('accepts text for notes and status cells', () => {
+    assert.deepEqual(validateRowEdit({ cells: { Comments: 'Rerun at 07:00', '06:00': 'ACK' } }, COLUMNS), []);
+    assert.deepEqual(validateRowEdit({ sheet: 'Daily', cells: { Comments: '' } }, COLUMNS), []);
+  });
+
+  it('rejects a malformed request', () => {
+    assert.deepEqual(validateRowEdit('ACK', COLUMNS), ['Edit must be an object']);
+    assert.deepEqual(validateRowEdit({ sheet: 1, cells: {} }, COLUMNS), ['"sheet" must be a string']);
+    assert.deepEqual(validateRowEdit({ cells: ['ACK'] }, COLUMNS), ['"cells" must be an object of column to text']);
+    assert.deepEqual(validateRowEdit({ cells: {} }, COLUMNS), ['"cells" has no changes']);
+  });
+
+  it('lists every cell that cannot be changed', () => {
+    const errors = validateRowEdit({
+      cells: {
+        'Job Details': 'Renamed',
+        Owner: 'ops',
+        '06:00': 7,
+        Comments: 'x'.repeat(MAX_CELL_TEXT_LENGTH + 1)
+      }
+    }, COLUMNS);
+
+    assert.deepEqual(errors, [
+      '"Job Details" is a title column; only notes and status cells can be edited',
+      '"Owner" is not a column of this sheet',
+      'cells["06:00"] must be a string',
+      `cells["Comments"] is longer than ${MAX_CELL_TEXT_LENGTH} characters`
+    ]);
+  });
+});
+
+// An edited cell is typed and coloured again from its new text, as the server does when saving it
+describe('re-reading an edited cell', () => {
+  it('types times entered as text', () => {
+    assert.deepEqual(readTextCell('6:05'), { display: '6:05', value: '06:05:00', kind: 'time' });
+    assert.deepEqual(readTextCell('ACK'), { display: 'ACK', value: 'ACK', kind: 'text' });
+  });
+
+  it('takes the status and SLA state of the new text', () => {
+    const row: Record<string, unknown> = { '06:00': '06:20', '06:00_type': 'error' };
+    const sla = { ...DEFAULT_SLA_CONFIG, targets: [{ id: 't', expected: '06:00', tolerance: 30 }] };
+
+    applyStatusRules(row, '06:00', DEFAULT_STATUS_RULES);
+    applySlaTarget(row, '06:00', 'Billing extract', sla);
+
+    assert.equal(row['06:00_sla'], 'at-risk');
+    assert.equal(row['06:00_slaDelta'], 20);
+    assert.equal(row['06:00_type'], 'warning');
+  });
+});
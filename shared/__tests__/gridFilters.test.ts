@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  EMPTY_FILTERS,
+  applyGridFilters,
+  filtersFromSearchParams,
+  getStatusOptions,
+  hasActiveFilters,
+  writeFiltersToSearchParams
+} from '../gridFilters';
+import { ColumnDef, ExcelRow } from '../types';
+
+const COLUMNS: ColumnDef[] = [
+  { key: 'S.No', role: 'id' },
+  { key: 'Job Details', role: 'title' },
+  { key: '06:00', role: 'status' },
+  { key: '12:00', role: 'status' },
+  { key: 'Comments', role: 'notes' }
+];
+
+const row = (id: string, cells: Record<string, unknown>): ExcelRow => ({ id, rowNumber: 0, uploadDate: '', ...cells });
+
+const ROWS = [
+  row('billing', { 'Job Details': 'Billing extract', '06:00': '05:42', '06:00_type': 'success', '12:00': 'PASS', '12:00_status': 'PASS' }),
+  row('ledger', { 'Job Details': 'Ledger sync', '06:00': 'FAILED', '06:00_status': 'FAILED', '06:00_type': 'error', '12:00': 'PASS', '12:00_status': 'PASS', Comments: 'Rerun at 07:00' }),
+  row('cards', { 'Job Details': 'Card settlement', '06:00': 'PENDING', '06:00_status': 'PENDING', '06:00_type': 'warning', '12:00': 'FAILED', '12:00_status': 'FAILED' })
+];
+
+const ids = (rows: ExcelRow[]) => rows.map((filtered) => filtered.id);
+
+describe('applyGridFilters', () => {
+  it('searches the title and notes columns', () => {
+    assert.deepEqual(ids(applyGridFilters(ROWS, { ...EMPTY_FILTERS, search: ' rerun ' }, COLUMNS)), ['ledger']);
+    assert.deepEqual(ids(applyGridFilters(ROWS, { ...EMPTY_FILTERS, search: 'PENDING' }, COLUMNS)), []);
+  });
+
+  it('keeps rows with an error or warning cell when only problems are shown', () => {
+    assert.deepEqual(ids(applyGridFilters(ROWS, { ...EMPTY_FILTERS, problemsOnly: true }, COLUMNS)), ['ledger', 'cards']);
+  });
+
+  it('matches any selected label within a column and every filtered column', () => {
+    const anyOf = { ...EMPTY_FILTERS, status: { '06:00': ['FAILED', 'PENDING'] } };
+    const both = { ...EMPTY_FILTERS, status: { '06:00': ['FAILED', 'PENDING'], '12:00': ['PASS'] } };
+
+    assert.deepEqual(ids(applyGridFilters(ROWS, anyOf, COLUMNS)), ['ledger', 'cards']);
+    assert.deepEqual(ids(applyGridFilters(ROWS, both, COLUMNS)), ['ledger']);
+    assert.deepEqual(ids(applyGridFilters(ROWS, { ...both, search: 'card' }, COLUMNS)), []);
+  });
+
+  it('ignores columns with nothing selected', () => {
+    const filters = { ...EMPTY_FILTERS, status: { '06:00': [] } };
+    assert.deepEqual(ids(applyGridFilters(ROWS, filters, COLUMNS)), ['billing', 'ledger', 'cards']);
+    assert.equal(hasActiveFilters(filters), false);
+  });
+});
+
+describe('getStatusOptions', () => {
+  it('lists the distinct labels of each status column', () => {
+    assert.deepEqual(getStatusOptions(ROWS, COLUMNS), {
+      '06:00': ['05:42', 'FAILED', 'PENDING'],
+      '12:00': ['FAILED', 'PASS']
+    });
+  });
+});
+
+describe('filters in the page URL', () => {
+  it('round-trips every filter', () => {
+    const filters = { search: 'ledger', status: { '06:00': ['FAILED', 'PENDING'], '12:00': ['PASS'] }, problemsOnly: true };
+    const params = writeFiltersToSearchParams(new URLSearchParams(), filters);
+
+    assert.equal(params.toString(), 'q=ledger&problems=1&status.06%3A00=FAILED&status.06%3A00=PENDING&status.12%3A00=PASS');
+    assert.deepEqual(filtersFromSearchParams(new URLSearchParams(params.toString())), filters);
+  });
+
+  it('replaces earlier filters and keeps other parameters', () => {
+    const params = new URLSearchParams('report=r1&q=old&problems=1&status.06%3A00=FAILED');
+    writeFiltersToSearchParams(params, { ...EMPTY_FILTERS, search: '  ' });
+
+    assert.equal(params.toString(), 'report=r1');
+    assert.deepEqual(filtersFromSearchParams(params), EMPTY_FILTERS);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobRun, JobRunCell, buildJobTimeline, getRunOutcome, toJobKey, toJobRuns } from '../history';
+import { parseWorkbook } from '../parser';
+import { buildWorkbook, dailySheet } from './workbooks';
+
+const run = (uploadDate: string, ...types: JobRunCell['type'][]): JobRun => ({
+  reportId: uploadDate,
+  fileName: 'daily.xlsx',
+  uploadDate,
+  sheet: 'Daily',
+  job: 'Ledger sync',
+  cells: types.map((type, index) => ({ column: `0${index}:00`, value: String(type), type }))
+});
+
+describe('toJobRuns', () => {
+  it('reads every titled row of a saved report as a run', () => {
+    const { response } = parseWorkbook(buildWorkbook(dailySheet('Daily', [[4, '', 'FAILED', '', '']])), { fileName: 'daily.xlsx' });
+    const runs = toJobRuns({ ...response, reportId: 'r1' });
+
+    assert.deepEqual(runs.map((jobRun) => jobRun.job), ['Billing extract', 'Ledger sync', 'Card settlement']);
+    assert.equal(runs[1].reportId, 'r1');
+    assert.deepEqual(runs[1].cells.map((cell) => [cell.column, cell.value, cell.type]), [
+      ['06:00', 'FAILED', 'error'],
+      ['12:00', '00:00', 'default']
+    ]);
+    assert.equal(toJobKey('  Ledger SYNC '), 'ledger sync');
+  });
+});
+
+describe('getRunOutcome', () => {
+  it('takes the worst cell of a run', () => {
+    assert.equal(getRunOutcome(run('2024-03-01', 'success', 'error', 'warning')), 'failed');
+    assert.equal(getRunOutcome(run('2024-03-01', 'success', 'warning')), 'warning');
+    assert.equal(getRunOutcome(run('2024-03-01', 'success', 'default')), 'passed');
+    assert.equal(getRunOutcome(run('2024-03-01')), 'empty');
+  });
+});
+
+describe('buildJobTimeline', () => {
+  it('puts runs from different months in upload order', () => {
+    const timeline = buildJobTimeline('Ledger sync', [
+      run('2024-11-02T06:00:00Z', 'success'),
+      run('2024-02-15T06:00:00Z', 'error'),
+      run('2024-10-30T06:00:00Z', 'warning')
+    ]);
+
+    assert.deepEqual(timeline.runs.map((entry) => [entry.uploadDate.slice(0, 10), entry.outcome]), [
+      ['2024-02-15', 'failed'],
+      ['2024-10-30', 'warning'],
+      ['2024-11-02', 'passed']
+    ]);
+    assert.deepEqual(timeline.counts, { failed: 1, warning: 1, passed: 1, empty: 0 });
+  });
+
+  it('rates failures and flips between failed and not failed, ignoring empty runs', () => {
+    const timeline = buildJobTimeline('Ledger sync', [
+      run('2024-03-01', 'error'),
+      run('2024-03-02', 'success'),
+      run('2024-03-03'),
+      run('2024-03-04', 'error'),
+      run('2024-03-05', 'warning'),
+      run('2024-03-06', 'success')
+    ]);
+
+    // Failed, passed, failed, warning, passed: 2 of 5 failed, 3 flips in 4 steps
+    assert.equal(timeline.failureRate, 0.4);
+    assert.equal(timeline.flakiness, 0.75);
+    assert.equal(timeline.counts.empty, 1);
+  });
+
+  it('is steady for a job that always fails', () => {
+    const timeline = buildJobTimeline('Ledger sync', [run('2024-03-01', 'error'), run('2024-03-02', 'error')]);
+
+    assert.equal(timeline.failureRate, 1);
+    assert.equal(timeline.flakiness, 0);
+  });
+
+  it('handles a single run', () => {
+    const timeline = buildJobTimeline('Ledger sync', [run('2024-03-01', 'error')]);
+
+    assert.equal(timeline.runs.length, 1);
+    assert.equal(timeline.failureRate, 1);
+    assert.equal(timeline.flakiness, 0);
+  });
+
+  it('handles a job with no runs', () => {
+    assert.deepEqual(buildJobTimeline('Unknown job', []), {
+      job: 'Unknown job',
+      runs: [],
+      counts: { failed: 0, warning: 0, passed: 0, empty: 0 },
+      failureRate: 0,
+      flakiness: 0
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_MAPPING_PROFILE, MappingProfile, resolveColumnRole, validateMappingProfile } from '../mapping';
+import { parseWorkbook } from '../parser';
+import { buildWorkbook } from './workbooks';
+
+const BATCH_PROFILE: MappingProfile = {
+  id: 'batch',
+  name: 'Batch scheduler',
+  rules: [
+    { match: 'exact', pattern: 'Seq', role: 'id' },
+    { match: 'contains', pattern: 'job name', role: 'title' },
+    { match: 'regex', pattern: '^remarks?$', role: 'notes' },
+    { match: 'exact', pattern: 'Owner', role: 'ignore' },
+    { match: 'regex', pattern: '^run ', role: 'status' }
+  ],
+  unmatched: 'ignore'
+};
+
+describe('resolveColumnRole', () => {
+  it('maps the usual headers with the default profile', () => {
+    assert.deepEqual(resolveColumnRole(' S.No '), { role: 'id', matched: true });
+    assert.deepEqual(resolveColumnRole('Job Details'), { role: 'title', matched: true });
+    assert.deepEqual(resolveColumnRole('Details of job'), { role: 'title', matched: true });
+    assert.deepEqual(resolveColumnRole('Comments'), { role: 'notes', matched: true });
+    assert.deepEqual(resolveColumnRole('06:00'), { role: 'status', matched: false });
+  });
+
+  it('falls back to the profile\'s unmatched role', () => {
+    assert.deepEqual(resolveColumnRole('Seq', BATCH_PROFILE), { role: 'id', matched: true });
+    assert.deepEqual(resolveColumnRole('Run 1', BATCH_PROFILE), { role: 'status', matched: true });
+    assert.deepEqual(resolveColumnRole('Region', BATCH_PROFILE), { role: 'ignore', matched: false });
+  });
+});
+
+describe('parsing with a mapping profile', () => {
+  const workbook = buildWorkbook({
+    name: 'Batch',
+    rows: [
+      ['Seq', 'Job Name', 'Owner', 'Run 1', 'Region', 'Remarks'],
+      [1, 'Nightly load', 'ops', 'PASS', 'EU', 'ok'],
+      [2, 'Index rebuild', 'dba', 'FAILED', 'US', '']
+    ]
+  });
+
+  it('keeps the mapped columns with their roles and drops ignored ones', () => {
+    const { response, issues } = parseWorkbook(workbook, { fileName: 'batch.xlsx', mapping: BATCH_PROFILE });
+    const [sheet] = response.sheets;
+
+    assert.equal(response.mappingProfile, 'batch');
+    assert.deepEqual(sheet.columns, [
+      { key: 'Seq', role: 'id' },
+      { key: 'Job Name', role: 'title' },
+      { key: 'Run 1', role: 'status' },
+      { key: 'Remarks', role: 'notes' }
+    ]);
+    assert.equal(sheet.data[1]['Run 1_type'], 'error');
+    assert.equal(sheet.data[0].Owner, undefined);
+    assert.deepEqual(issues, []);
+  });
+
+  it('warns about headers the default profile treats as status columns', () => {
+    const { issues } = parseWorkbook(buildWorkbook({
+      name: 'Daily',
+      rows: [['S.No', 'Job Details', 'Owner', '06:00'], [1, 'Nightly load', 'ops', 'PASS']]
+    }), { fileName: 'daily.xlsx' });
+
+    assert.deepEqual(issues.map(({ code, column }) => ({ code, column })), [{ code: 'unknown-header', column: 'Owner' }]);
+  });
+});
+
+describe('validateMappingProfile', () => {
+  it('accepts the default profile', () => {
+    assert.deepEqual(validateMappingProfile(DEFAULT_MAPPING_PROFILE), []);
+  });
+
+  it('rejects anything but an object', () => {
+    assert.deepEqual(validateMappingProfile(undefined), ['Mapping profile must be an object']);
+    assert.deepEqual(validateMappingProfile(['rules']), ['Mapping profile must be an object']);
+  });
+
+  it('lists every problem with a profile', () => {
+    const errors = validateMappingProfile({
+      name: ' ',
+      unmatched: 'notes',
+      rules: [
+        { match: 'starts', pattern: 'S.No', role: 'id' },
+        { match: 'exact', pattern: '', role: 'owner' },
+        7
+      ]
+    });
+
+    assert.deepEqual(errors, [
+      '"name" is required',
+      '"unmatched" must be status or ignore',
+      'rules[0].match must be one of exact, contains, regex',
+      'rules[1].role must be one of id, title, notes, status, ignore',
+      'rules[1].pattern is required',
+      'rules[2] must be an object',
+      'At least one rule must map a header to the "title" role'
+    ]);
+  });
+});
@@ -0,0 +1,324 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import {
+  MAX_IMPORT_ISSUES,
+  PARSE_CHUNK_ROWS,
+  SheetNotFoundError,
+  detectHeader,
+  parseExcelFile,
+  parseWorkbook,
+  parseWorkbookInChunks
+} from '../parser';
+import { buildWorkbook, dailySheet, formatted, removeSample, writeSample } from './workbooks';
+
+const UPLOAD_DATE = '2024-03-01T08:00:00.000Z';
+
+describe('parseExcelFile', () => {
+  let filePath: string;
+
+  before(() => {
+    filePath = writeSample(buildWorkbook(dailySheet()), 'daily.xlsx');
+  });
+
+  after(() => removeSample(filePath));
+
+  it('reads every row keyed by header', () => {
+    const { response, headers } = parseExcelFile(filePath, { fileName: 'daily.xlsx', uploadDate: UPLOAD_DATE });
+
+    assert.equal(response.success, true);
+    assert.equal(response.fileName, 'daily.xlsx');
+    assert.equal(response.sheetName, 'Daily');
+    assert.equal(response.totalRows, 3);
+    assert.deepEqual(headers.Daily, ['S.No', 'Job Details', '06:00', '12:00', 'Comments']);
+
+    const [first] = response.data;
+    assert.equal(first.id, 'row-1');
+    assert.equal(first.rowNumber, 1);
+    assert.equal(first.uploadDate, UPLOAD_DATE);
+    assert.equal(first['Job Details'], 'Billing extract');
+    assert.equal(first['06:00'], '05:42');
+    assert.equal(first.Comments, '');
+  });
+
+  it('colours status cells with the default rules', () => {
+    const { response } = parseExcelFile(filePath, { fileName: 'daily.xlsx', uploadDate: UPLOAD_DATE });
+    const [billing, ledger, settlement] = response.data;
+
+    assert.equal(billing['06:00_type'], 'processing');
+    assert.equal(billing['12:00_status'], 'PASS');
+    assert.equal(billing['12:00_type'], 'success');
+    assert.equal(ledger['06:00_type'], 'error');
+    assert.equal(ledger['06:00_color'], '#FF0000');
+    assert.equal(ledger['12:00_type'], 'default');
+    assert.equal(settlement['06:00_type'], 'warning');
+    // Comments aren't a status column
+    assert.equal(ledger.Comments_status, undefined);
+  });
+});
+
+describe('parseWorkbook', () => {
+  it('sorts rows by S.No and skips rows without an id or a job', () => {
+    const workbook = buildWorkbook(dailySheet('Daily', [
+      [10, 'Month end', 'PASS', 'PASS', ''],
+      [5, 'Archive', '', '', ''],
+      ['', 'No number', 'PASS', '', ''],
+      [7, '', 'PASS', '', '']
+    ]));
+    const { response } = parseWorkbook(workbook, { fileName: 'daily.xlsx' });
+
+    assert.deepEqual(response.data.map((row) => row.rowNumber), [1, 2, 3, 5, 10]);
+  });
+
+  it('parses every sheet and shows the first one with rows', () => {
+    const workbook = buildWorkbook(
+      { name: 'Notes', rows: [['Prepared by ops']] },
+      dailySheet('Region A'),
+      dailySheet('Region B', [[4, 'Fx rates', 'PASS', 'PASS', '']])
+    );
+    const { response } = parseWorkbook(workbook, { fileName: 'regions.xlsx' });
+
+    assert.deepEqual(response.sheetNames, ['Notes', 'Region A', 'Region B']);
+    assert.deepEqual(response.sheets.map((sheet) => sheet.totalRows), [0, 3, 4]);
+    assert.equal(response.sheetName, 'Region A');
+    assert.equal(response.totalRows, 3);
+  });
+
+  it('parses only the requested sheet', () => {
+    const workbook = buildWorkbook(dailySheet('Region A'), dailySheet('Region B'));
+    const { response } = parseWorkbook(workbook, { fileName: 'regions.xlsx', sheet: 'Region B' });
+
+    assert.deepEqual(response.sheets.map((sheet) => sheet.name), ['Region B']);
+    assert.deepEqual(response.sheetNames, ['Region A', 'Region B']);
+    assert.equal(response.sheetName, 'Region B');
+  });
+
+  it('rejects a sheet that is not in the workbook', () => {
+    const workbook = buildWorkbook(dailySheet());
+
+    assert.throws(
+      () => parseWorkbook(workbook, { fileName: 'daily.xlsx', sheet: 'Weekly' }),
+      (error: unknown) => error instanceof SheetNotFoundError && error.sheetNames.includes('Daily')
+    );
+  });
+});
+
+describe('import issues', () => {
+  it('suffixes repeated S.No values and warns about them', () => {
+    const workbook = buildWorkbook(dailySheet('Daily', [
+      [2, 'Ledger sync rerun', 'PASS', '', ''],
+      [2, 'Ledger sync second rerun', 'PASS', '', '']
+    ]));
+    const { response, issues } = parseWorkbook(workbook, { fileName: 'daily.xlsx' });
+
+    assert.deepEqual(response.data.filter((row) => row.rowNumber === 2).map((row) => row.id), ['row-2', 'row-2-2', 'row-2-3']);
+    assert.deepEqual(issues.map(({ code, row, value }) => ({ code, row, value })), [
+      { code: 'duplicate-id', row: 5, value: '2' },
+      { code: 'duplicate-id', row: 6, value: '2' }
+    ]);
+  });
+
+  it('lists skipped rows and times that do not parse', () => {
+    const workbook = buildWorkbook(dailySheet('Daily', [
+      ['', 'No number', 'PASS', '', ''],
+      ['x', 'Bad number', 'PASS', '', ''],
+      [7, '', 'PASS', '', ''],
+      [],
+      [8, 'Late load', '25:10', '', '']
+    ]));
+    const { response, issues } = parseWorkbook(workbook, { fileName: 'daily.xlsx' });
+
+    assert.deepEqual(issues.map(({ severity, code, row, column, message }) => ({ severity, code, row, column, message })), [
+      { severity: 'error', code: 'skipped-row', row: 5, column: 'S.No', message: 'Row skipped: S.No is empty' },
+      { severity: 'error', code: 'skipped-row', row: 6, column: 'S.No', message: 'Row skipped: S.No "x" is not a number' },
+      { severity: 'error', code: 'skipped-row', row: 7, column: 'Job Details', message: 'Row skipped: Job Details is empty' },
+      { severity: 'warning', code: 'invalid-time', row: 9, column: '06:00', message: '"25:10" is not a valid HH:MM time' }
+    ]);
+    // The issues travel with the upload response
+    assert.deepEqual(response.issues, issues);
+  });
+
+  it('reports a sheet without key columns once instead of once per row', () => {
+    const workbook = buildWorkbook(dailySheet(), {
+      name: 'Notes',
+      rows: [['Owner', 'Note'], ['ops', 'Month end freeze'], ['ops', 'New SLA from April']]
+    });
+    const { issues } = parseWorkbook(workbook, { fileName: 'daily.xlsx' });
+
+    assert.deepEqual(issues.map(({ sheet, code, column }) => ({ sheet, code, column })), [
+      { sheet: 'Notes', code: 'missing-column', column: 'S.No' },
+      { sheet: 'Notes', code: 'missing-column', column: 'Job Details' }
+    ]);
+  });
+
+  it(`lists at most ${MAX_IMPORT_ISSUES} issues`, () => {
+    const skipped = Array.from({ length: MAX_IMPORT_ISSUES + 20 }, (_, index) => [`x${index}`, 'Bad number', '', '', '']);
+    const { issues } = parseWorkbook(buildWorkbook(dailySheet('Daily', skipped)), { fileName: 'daily.xlsx' });
+
+    assert.equal(issues.length, MAX_IMPORT_ISSUES + 1);
+    assert.deepEqual(issues[MAX_IMPORT_ISSUES], {
+      severity: 'warning',
+      code: 'truncated',
+      sheet: '',
+      message: '20 more issues were not listed'
+    });
+  });
+});
+
+describe('header detection', () => {
+  const dataRows = [
+    [1, 'Billing extract', '05:42', 'PASS', '05:40', 'PASS', ''],
+    [2, 'Ledger sync', 'FAILED', '', 'PASS', 'PASS', 'Rerun']
+  ];
+
+  it('finds a two-level header under a title banner', () => {
+    const workbook = buildWorkbook({
+      name: 'Daily',
+      rows: [
+        ['CCS Daily Report - March', null, null, null, null, null, null],
+        [],
+        ['S.No', 'Job Details', '01-Mar', null, '02-Mar', null, 'Comments'],
+        [null, null, '06:00', '12:00', '06:00', '12:00', null],
+        ...dataRows
+      ],
+      merges: ['A1:G1', 'A3:A4', 'B3:B4', 'C3:D3', 'E3:F3', 'G3:G4']
+    });
+    const { response, headers, issues } = parseWorkbook(workbook, { fileName: 'daily.xlsx' });
+
+    assert.deepEqual(headers.Daily, [
+      'S.No', 'Job Details', '01-Mar 06:00', '01-Mar 12:00', '02-Mar 06:00', '02-Mar 12:00', 'Comments'
+    ]);
+    assert.deepEqual(response.sheets[0].headerRows, [3, 4]);
+    assert.equal(response.totalRows, 2);
+    assert.equal(response.data[1]['01-Mar 06:00_type'], 'error');
+    // Time slots under a date aren't unknown headers
+    assert.deepEqual(issues, []);
+  });
+
+  it('takes in a group label row above the id and title headers', () => {
+    const workbook = buildWorkbook({
+      name: 'Daily',
+      rows: [
+        ['Daily run', null, null, null, null, null, null],
+        [null, null, '01-Mar', null, '02-Mar', null, null],
+        ['S.No', 'Job Details', '06:00', '12:00', '06:00', '12:00', 'Comments'],
+        ...dataRows
+      ],
+      merges: ['A1:G1', 'C2:D2', 'E2:F2']
+    });
+    const { response, headers } = parseWorkbook(workbook, { fileName: 'daily.xlsx' });
+
+    assert.deepEqual(response.sheets[0].headerRows, [2, 3]);
+    assert.equal(headers.Daily[5], '02-Mar 12:00');
+    assert.equal(response.totalRows, 2);
+  });
+
+  it('suffixes repeated headers so every column keeps its own key', () => {
+    const workbook = buildWorkbook({
+      name: 'Daily',
+      rows: [['S.No', 'Job Details', 'Run', 'Run'], [1, 'Billing extract', 'PASS', 'FAILED']]
+    });
+    const { response } = parseWorkbook(workbook, { fileName: 'daily.xlsx' });
+
+    assert.deepEqual(response.sheets[0].columns?.map((column) => column.key), ['S.No', 'Job Details', 'Run', 'Run (2)']);
+    assert.equal(response.data[0]['Run (2)'], 'FAILED');
+  });
+
+  it('falls back to the first row when no row has an id and a title', () => {
+    const workbook = buildWorkbook({ name: 'Notes', rows: [['Owner', 'Note'], ['ops', 'Month end freeze']] });
+    const worksheet = workbook.Sheets.Notes;
+
+    assert.deepEqual(detectHeader(worksheet, XLSX.utils.decode_range(worksheet['!ref'] as string)), {
+      start: 0,
+      end: 0,
+      names: ['Owner', 'Note'],
+      leaves: ['Owner', 'Note']
+    });
+  });
+});
+
+describe('cell typing', () => {
+  let filePath: string;
+
+  before(() => {
+    filePath = writeSample(buildWorkbook({
+      name: 'Typed',
+      rows: [
+        ['S.No', 'Job Details', 'Run date', 'Started', 'Finished', 'Took', 'Success rate', 'Rows', 'Comments'],
+        [
+          1,
+          'Billing extract',
+          formatted(45352, 'yyyy-mm-dd'),
+          formatted(45352.25, 'yyyy-mm-dd hh:mm'),
+          formatted(0.1666666, 'hh:mm'),
+          formatted(1.1041666667, '[h]:mm'),
+          formatted(0.45, '0%'),
+          formatted(1234.5, '#,##0.0'),
+          '7:05'
+        ]
+      ]
+    }), 'typed.xlsx');
+  });
+
+  after(() => removeSample(filePath));
+
+  it('types cells from their number format', () => {
+    const [row] = parseExcelFile(filePath, { fileName: 'typed.xlsx' }).response.data;
+    const typed = (key: string) => ({ display: row[key], value: row[`${key}_value`], kind: row[`${key}_kind`] });
+
+    assert.deepEqual(typed('Run date'), { display: '2024-03-01', value: '2024-03-01', kind: 'date' });
+    assert.deepEqual(typed('Started'), { display: '2024-03-01 06:00', value: '2024-03-01T06:00:00', kind: 'datetime' });
+    // Rounded to the second, as Excel shows it
+    assert.deepEqual(typed('Finished'), { display: '04:00', value: '04:00:00', kind: 'time' });
+    assert.deepEqual(typed('Took'), { display: '26:30', value: 95400, kind: 'duration' });
+    assert.deepEqual(typed('Success rate'), { display: '45%', value: 0.45, kind: 'percent' });
+    assert.deepEqual(typed('Rows'), { display: '1,234.5', value: 1234.5, kind: 'number' });
+  });
+
+  it('reads times typed as text as times', () => {
+    const [row] = parseExcelFile(filePath, { fileName: 'typed.xlsx' }).response.data;
+
+    assert.equal(row.Comments, '7:05');
+    assert.equal(row.Comments_value, '07:05:00');
+    assert.equal(row.Comments_kind, 'time');
+    // Plain text carries no typed value
+    assert.equal(row['Job Details_kind'], undefined);
+  });
+
+  it('colours a formatted time cell as a time', () => {
+    const [row] = parseExcelFile(filePath, { fileName: 'typed.xlsx' }).response.data;
+
+    assert.equal(row.Finished_type, 'processing');
+  });
+});
+
+describe('chunked parsing', () => {
+  const rowCount = PARSE_CHUNK_ROWS * 2 + 10;
+  const workbook = buildWorkbook(dailySheet('Daily', Array.from({ length: rowCount }, (_, index) => [
+    index + 4,
+    `Job ${index + 4}`,
+    index % 7 === 0 ? 'FAILED' : '05:30',
+    'PASS',
+    ''
+  ])));
+  const options = { fileName: 'big.xlsx', uploadDate: UPLOAD_DATE };
+
+  it('gives the same result as parsing in one go', async () => {
+    const chunked = await parseWorkbookInChunks(workbook, options);
+
+    assert.equal(chunked.response.totalRows, rowCount + 3);
+    assert.deepEqual(chunked, parseWorkbook(workbook, options));
+  });
+
+  it('lets other work run between chunks', async () => {
+    let ticks = 0;
+    const timer = setInterval(() => { ticks += 1; }, 0);
+    try {
+      await parseWorkbookInChunks(workbook, options);
+    } finally {
+      clearInterval(timer);
+    }
+
+    assert.ok(ticks > 0, 'expected the event loop to run while parsing');
+  });
+});
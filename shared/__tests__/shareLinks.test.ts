@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_SHARE_FILTERS_LENGTH, MAX_SHARE_LINK_HOURS, getShareLinkState, validateShareLinkInput } from '../shareLinks';
+
+describe('getShareLinkState', () => {
+  const now = new Date('2024-03-01T08:00:00Z');
+
+  it('tells active, expired and revoked links apart', () => {
+    assert.equal(getShareLinkState({}, now), 'active');
+    assert.equal(getShareLinkState({ expiresAt: '2024-03-01T09:00:00Z' }, now), 'active');
+    assert.equal(getShareLinkState({ expiresAt: '2024-03-01T08:00:00Z' }, now), 'expired');
+    assert.equal(getShareLinkState({ expiresAt: '2024-03-01T09:00:00Z', revokedAt: '2024-02-29T08:00:00Z' }, now), 'revoked');
+  });
+});
+
+describe('validateShareLinkInput', () => {
+  it('accepts a link to a report', () => {
+    assert.deepEqual(validateShareLinkInput({ reportId: 'r1' }), []);
+    assert.deepEqual(validateShareLinkInput({ reportId: 'r1', sheet: 'Day1', filters: 'problems=1', expiresInHours: 24 }), []);
+  });
+
+  it('rejects anything but an object', () => {
+    assert.deepEqual(validateShareLinkInput(['r1']), ['Share link must be an object']);
+    assert.deepEqual(validateShareLinkInput(null), ['Share link must be an object']);
+  });
+
+  it('lists every problem with a link', () => {
+    assert.deepEqual(validateShareLinkInput({
+      sheet: 1,
+      filters: 'q'.repeat(MAX_SHARE_FILTERS_LENGTH + 1),
+      expiresInHours: MAX_SHARE_LINK_HOURS + 1
+    }), [
+      '"reportId" is required',
+      '"sheet" must be a string',
+      `"filters" must be a string of at most ${MAX_SHARE_FILTERS_LENGTH} characters`,
+      `"expiresInHours" must be a number above 0 and at most ${MAX_SHARE_LINK_HOURS}`
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SLA_CONFIG, SlaConfig, evaluateSla, findSlaTarget, validateSlaConfig } from '../sla';
+import { parseWorkbook } from '../parser';
+import { buildWorkbook, dailySheet } from './workbooks';
+
+const SLA: SlaConfig = {
+  ...DEFAULT_SLA_CONFIG,
+  targets: [
+    { id: 'morning', column: '06:00', expected: '05:45', tolerance: 15 },
+    { id: 'billing', job: 'Billing Extract', expected: '05:30', tolerance: 10 },
+    { id: 'billing-noon', job: 'billing extract', column: '12:00', expected: '11:30', tolerance: 0 },
+    { id: 'any', expected: '23:30', tolerance: 30 }
+  ]
+};
+
+describe('findSlaTarget', () => {
+  it('picks the most specific target', () => {
+    assert.equal(findSlaTarget(SLA, 'Billing extract', '12:00')?.id, 'billing-noon');
+    assert.equal(findSlaTarget(SLA, 'Billing extract', '06:00')?.id, 'billing');
+    assert.equal(findSlaTarget(SLA, 'Ledger sync', '06:00')?.id, 'morning');
+    assert.equal(findSlaTarget(SLA, 'Ledger sync', '18:00')?.id, 'any');
+    assert.equal(findSlaTarget(DEFAULT_SLA_CONFIG, 'Ledger sync', '06:00'), undefined);
+  });
+});
+
+describe('evaluateSla', () => {
+  const target = { id: 't', expected: '05:45', tolerance: 15 };
+
+  it('grades a completion time as on time, at risk or breached', () => {
+    assert.deepEqual(evaluateSla('05:30', target), { state: 'on-time', deltaMinutes: -15 });
+    assert.deepEqual(evaluateSla('05:45', target), { state: 'on-time', deltaMinutes: 0 });
+    assert.deepEqual(evaluateSla('06:00', target), { state: 'at-risk', deltaMinutes: 15 });
+    assert.deepEqual(evaluateSla('06:01', target), { state: 'breached', deltaMinutes: 16 });
+    assert.equal(evaluateSla('PASS', target), null);
+  });
+
+  it('measures across midnight the short way round', () => {
+    assert.deepEqual(evaluateSla('00:15', { id: 't', expected: '23:30', tolerance: 30 }), {
+      state: 'breached',
+      deltaMinutes: 45
+    });
+    assert.deepEqual(evaluateSla('23:50', { id: 't', expected: '00:10', tolerance: 0 }), {
+      state: 'on-time',
+      deltaMinutes: -20
+    });
+  });
+});
+
+describe('parsing with SLA targets', () => {
+  it('recolours completion times and leaves other cells alone', () => {
+    const workbook = buildWorkbook(dailySheet('Daily', [[4, 'Fx rates', '06:00', '', '']]));
+    const { response } = parseWorkbook(workbook, { fileName: 'daily.xlsx', sla: SLA });
+    const [billing, ledger, , fxRates] = response.data;
+
+    // 05:42 against billing's 05:30 with 10 minutes' tolerance
+    assert.equal(billing['06:00_sla'], 'breached');
+    assert.equal(billing['06:00_slaDelta'], 12);
+    assert.equal(billing['06:00_type'], 'error');
+    assert.equal(billing['06:00_color'], DEFAULT_SLA_CONFIG.colors.breached);
+    // Statuses and 00:00 placeholders have no time to check
+    assert.equal(billing['12:00_sla'], undefined);
+    assert.equal(ledger['12:00_sla'], undefined);
+    assert.equal(ledger['12:00_type'], 'default');
+    // 06:00 against the morning column's 05:45 with 15 minutes' tolerance
+    assert.equal(fxRates['06:00_sla'], 'at-risk');
+    assert.equal(fxRates['06:00_type'], 'warning');
+  });
+});
+
+describe('validateSlaConfig', () => {
+  it('accepts the default config', () => {
+    assert.deepEqual(validateSlaConfig(DEFAULT_SLA_CONFIG), []);
+    assert.deepEqual(validateSlaConfig(SLA), []);
+  });
+
+  it('rejects anything but an object', () => {
+    assert.deepEqual(validateSlaConfig(42), ['SLA config must be an object']);
+  });
+
+  it('lists every problem with a target and the colours', () => {
+    const errors = validateSlaConfig({
+      targets: [
+        { id: 'a', job: 7, expected: '5:75', tolerance: -1 },
+        { id: 'a', expected: '05:00', tolerance: 1.5 },
+        null
+      ],
+      colors: { 'on-time': '#00B050', 'at-risk': 'amber' }
+    });
+
+    assert.deepEqual(errors, [
+      'targets[0].job must be a string',
+      'targets[0].expected must be an HH:MM time',
+      'targets[0].tolerance must be a whole number of minutes, 0 or more',
+      'targets[1].id "a" is used more than once',
+      'targets[1].tolerance must be a whole number of minutes, 0 or more',
+      'targets[2] must be an object',
+      '"colors.at-risk" must be a #RRGGBB colour',
+      '"colors.breached" must be a #RRGGBB colour'
+    ]);
+  });
+});
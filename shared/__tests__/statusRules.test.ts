@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_STATUS_RULES, StatusRuleConfig, evaluateStatus, validateStatusRuleConfig } from '../statusRules';
+import { parseWorkbook } from '../parser';
+import { buildWorkbook, dailySheet } from './workbooks';
+
+const LATE_RUNS: StatusRuleConfig = {
+  ...DEFAULT_STATUS_RULES,
+  rules: [
+    { id: 'late', match: 'time', from: '09:00', color: '#C00000', type: 'error', status: 'LATE' },
+    ...DEFAULT_STATUS_RULES.rules
+  ]
+};
+
+describe('evaluateStatus', () => {
+  it('resolves the built-in statuses', () => {
+    assert.deepEqual(evaluateStatus('pass'), { status: 'PASS', color: '#00B050', type: 'success' });
+    assert.equal(evaluateStatus(' Failed ').type, 'error');
+    assert.equal(evaluateStatus('05:42').type, 'processing');
+    assert.equal(evaluateStatus('00:00').type, 'default');
+    assert.equal(evaluateStatus('12-Mar').type, 'purple');
+    assert.deepEqual(evaluateStatus(''), DEFAULT_STATUS_RULES.empty);
+    assert.deepEqual(evaluateStatus('rerun'), { status: 'RERUN', ...DEFAULT_STATUS_RULES.fallback });
+  });
+
+  it('uses the first rule that matches', () => {
+    assert.deepEqual(evaluateStatus('09:30', LATE_RUNS), { status: 'LATE', color: '#C00000', type: 'error' });
+    assert.equal(evaluateStatus('08:59', LATE_RUNS).type, 'processing');
+  });
+
+  it('colours parsed status cells with the rules passed in', () => {
+    const { response } = parseWorkbook(buildWorkbook(dailySheet('Daily', [[4, 'Overnight batch', '09:15', '', '']])), {
+      fileName: 'daily.xlsx',
+      statusRules: LATE_RUNS
+    });
+    const overnight = response.data.find((row) => row.rowNumber === 4);
+
+    assert.equal(overnight?.['06:00_status'], 'LATE');
+    assert.equal(overnight?.['06:00_color'], '#C00000');
+  });
+});
+
+describe('validateStatusRuleConfig', () => {
+  it('accepts the default rules', () => {
+    assert.deepEqual(validateStatusRuleConfig(DEFAULT_STATUS_RULES), []);
+  });
+
+  it('rejects anything but an object', () => {
+    assert.deepEqual(validateStatusRuleConfig(null), ['Rule config must be an object']);
+    assert.deepEqual(validateStatusRuleConfig('rules'), ['Rule config must be an object']);
+    assert.deepEqual(validateStatusRuleConfig([]), ['Rule config must be an object']);
+  });
+
+  it('lists every problem with a rule', () => {
+    const errors = validateStatusRuleConfig({
+      ...DEFAULT_STATUS_RULES,
+      rules: [
+        { id: 'a', match: 'exact', values: [1], color: 'red', type: 'success' },
+        { id: 'a', match: 'regex', pattern: '(', color: '#000000', type: 'loud' },
+        { id: 'c', match: 'time', from: '25:00', color: '#000000', type: 'info' },
+        'not a rule'
+      ]
+    });
+
+    // The regular expression error comes from the JavaScript engine
+    assert.match(errors[4], /^rules\[1\]\.pattern is not a valid regular expression: /);
+    assert.deepEqual(errors.filter((_, index) => index !== 4), [
+      'rules[0].color must be a #RRGGBB colour',
+      'rules[0].values must list at least one value',
+      'rules[1].id "a" is used more than once',
+      'rules[1].type must be one of success, error, warning, processing, purple, info, default',
+      'rules[2].from must be an HH:MM time',
+      'rules[3] must be an object'
+    ]);
+  });
+
+  it('needs empty and fallback statuses', () => {
+    const errors = validateStatusRuleConfig({ rules: [], empty: { color: '#ffffff', type: 'default' } });
+
+    assert.deepEqual(errors, [
+      '"fallback" must have a #RRGGBB color and a valid type',
+      '"empty.status" is required'
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { summarizeRows, toBucket } from '../summary';
+import { parseWorkbook } from '../parser';
+import { DEFAULT_SLA_CONFIG } from '../sla';
+import { DAILY_HEADER, SampleCell, buildWorkbook, dailySheet } from './workbooks';
+
+const parseSheet = (rows: SampleCell[][], sla = DEFAULT_SLA_CONFIG) => {
+  const { response } = parseWorkbook(buildWorkbook({ name: 'Daily', rows }), { fileName: 'daily.xlsx', sla });
+  return response.sheets[0];
+};
+
+describe('toBucket', () => {
+  it('counts anything but success, error and warning as default', () => {
+    assert.equal(toBucket('error'), 'error');
+    assert.equal(toBucket('processing'), 'default');
+    assert.equal(toBucket(undefined), 'default');
+  });
+});
+
+describe('summarizeRows', () => {
+  it('counts status cells per slot and overall, skipping empty cells', () => {
+    const { response } = parseWorkbook(buildWorkbook(dailySheet('Daily', [
+      [4, 'Fx rates', 'FAILED', 'FAILED', ''],
+      [5, 'Archive', 'PASS', 'FAILED', ''],
+      [6, 'Backup', '', '', '']
+    ])), { fileName: 'daily.xlsx' });
+    const { data, columns } = response.sheets[0];
+    const summary = summarizeRows(data, columns);
+
+    assert.equal(summary.totalRows, 6);
+    assert.deepEqual(summary.slots, [
+      // 05:42 (processing), FAILED, PENDING, FAILED, PASS; Backup's blank cell isn't counted
+      { column: '06:00', counts: { success: 1, error: 2, warning: 1, default: 1 }, total: 5 },
+      // PASS, 00:00 (default), 11:58 (processing), FAILED, FAILED
+      { column: '12:00', counts: { success: 1, error: 2, warning: 0, default: 2 }, total: 5 }
+    ]);
+    assert.deepEqual(summary.totals, { success: 2, error: 4, warning: 1, default: 3 });
+    assert.equal(summary.failureRate, 0.4);
+    assert.equal(summary.failingJobs, 3);
+  });
+
+  it('lists jobs failing in more than one slot, worst first', () => {
+    const { data, columns } = parseSheet([
+      ['S.No', 'Job Details', '06:00', '12:00', '18:00'],
+      [1, 'Billing extract', 'FAILED', 'FAILED', 'PASS'],
+      [2, 'Ledger sync', 'FAILED', 'FAILED', 'FAILED'],
+      [3, 'Card settlement', 'FAILED', 'PASS', 'PASS']
+    ]);
+
+    assert.deepEqual(summarizeRows(data, columns).repeatFailures, [
+      { job: 'Ledger sync', sNo: '2', columns: ['06:00', '12:00', '18:00'] },
+      { job: 'Billing extract', sNo: '1', columns: ['06:00', '12:00'] }
+    ]);
+  });
+
+  it('counts cells checked against an SLA target', () => {
+    const { data, columns } = parseSheet([DAILY_HEADER, [1, 'Billing extract', '05:42', '06:30', '']], {
+      ...DEFAULT_SLA_CONFIG,
+      targets: [{ id: 'morning', column: '06:00', expected: '05:45', tolerance: 15 }, { id: 'noon', expected: '06:00', tolerance: 15 }]
+    });
+
+    assert.deepEqual(summarizeRows(data, columns).sla, { 'on-time': 1, 'at-risk': 0, breached: 1 });
+  });
+
+  it('summarizes an empty sheet without dividing by zero', () => {
+    const { data, columns } = parseSheet([DAILY_HEADER]);
+    const summary = summarizeRows(data, columns);
+
+    assert.equal(summary.totalRows, 0);
+    assert.deepEqual(summary.totals, { success: 0, error: 0, warning: 0, default: 0 });
+    assert.equal(summary.failureRate, 0);
+    assert.equal(summary.failingJobs, 0);
+    assert.deepEqual(summary.repeatFailures, []);
+    assert.deepEqual(summarizeRows([]).slots, []);
+  });
+});
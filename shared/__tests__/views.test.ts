@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_COLUMN_WIDTH, MIN_COLUMN_WIDTH, applyColumnLayout, getLayoutOrder, validateColumnLayout, validateSavedViewInput } from '../views';
+import { ColumnDef } from '../types';
+
+const COLUMNS: ColumnDef[] = [
+  { key: 'S.No', role: 'id' },
+  { key: 'Job Details', role: 'title' },
+  { key: '06:00', role: 'status' },
+  { key: 'Comments', role: 'notes' }
+];
+
+describe('applyColumnLayout', () => {
+  it('orders, hides, pins and sizes columns by key', () => {
+    const columns = applyColumnLayout(COLUMNS, {
+      order: ['Comments', 'Owner', 'Job Details'],
+      hidden: ['S.No'],
+      pinned: ['06:00'],
+      widths: { Comments: 320 }
+    });
+
+    assert.deepEqual(columns.map((column) => [column.key, column.pinned]), [
+      ['06:00', true],
+      ['Comments', false],
+      ['Job Details', false]
+    ]);
+    assert.equal(columns[1].width, 320);
+  });
+
+  it('keeps hidden columns in the order used for reordering', () => {
+    assert.deepEqual(getLayoutOrder(COLUMNS, { order: ['Comments'], hidden: ['Comments'] }), ['Comments', 'S.No', 'Job Details', '06:00']);
+  });
+});
+
+describe('validateColumnLayout', () => {
+  it('accepts an empty or complete layout', () => {
+    assert.deepEqual(validateColumnLayout({}), []);
+    assert.deepEqual(validateColumnLayout({ order: ['Comments'], hidden: [], pinned: ['S.No'], widths: { Comments: 320 } }), []);
+  });
+
+  it('lists every problem with a layout', () => {
+    assert.deepEqual(validateColumnLayout([]), ['Layout must be an object']);
+    assert.deepEqual(validateColumnLayout({ order: 'Comments', pinned: [1], widths: { Comments: 10, '06:00': '90' } }), [
+      '"order" must be an array of column keys',
+      '"pinned" must be an array of column keys',
+      `widths["Comments"] must be between ${MIN_COLUMN_WIDTH} and ${MAX_COLUMN_WIDTH}`,
+      `widths["06:00"] must be between ${MIN_COLUMN_WIDTH} and ${MAX_COLUMN_WIDTH}`
+    ]);
+  });
+});
+
+describe('validateSavedViewInput', () => {
+  it('checks the name, sharing and layout', () => {
+    assert.deepEqual(validateSavedViewInput({ name: 'Morning shift', shared: false, layout: {} }), []);
+    assert.deepEqual(validateSavedViewInput('Morning shift'), ['View must be an object']);
+    assert.deepEqual(validateSavedViewInput({ name: ' ', shared: 'no' }), [
+      '"name" is required',
+      '"shared" must be true or false',
+      'Layout must be an object'
+    ]);
+  });
+});
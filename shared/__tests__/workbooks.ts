@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+
+// Sample workbooks for the parser tests. They are built here rather than checked in so each test
+// shows the sheet it reads, then written to disk and read back the way uploads are.
+
+export type SampleCell = XLSX.CellObject | string | number | null;
+
+export interface SampleSheet {
+  name: string;
+  rows: SampleCell[][];
+  // Merged ranges in A1 notation, e.g. 'A1:F1'
+  merges?: string[];
+}
+
+// A cell with a number format, as Excel saves dates, times and percentages
+export const formatted = (value: number, format: string): XLSX.CellObject => ({ t: 'n', v: value, z: format });
+
+const toSheet = ({ rows, merges }: SampleSheet): XLSX.WorkSheet => {
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+  if (merges) worksheet['!merges'] = merges.map((merge) => XLSX.utils.decode_range(merge));
+  return worksheet;
+};
+
+export const buildWorkbook = (...sheets: SampleSheet[]): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach((sheet) => XLSX.utils.book_append_sheet(workbook, toSheet(sheet), sheet.name));
+  return workbook;
+};
+
+// Save a workbook to a temporary .xlsx file; remove it with removeSample
+export const writeSample = (workbook: XLSX.WorkBook, fileName = 'sample.xlsx'): string => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ccs-parser-'));
+  const filePath = path.join(directory, fileName);
+  XLSX.writeFile(workbook, filePath);
+  return filePath;
+};
+
+export const removeSample = (filePath: string) =>
+  fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+
+// The report layout most workbooks use: S.No, Job Details, time slots and Comments
+export const DAILY_HEADER = ['S.No', 'Job Details', '06:00', '12:00', 'Comments'];
+
+export const dailySheet = (name = 'Daily', rows: SampleCell[][] = []): SampleSheet => ({
+  name,
+  rows: [
+    DAILY_HEADER,
+    [1, 'Billing extract', '05:42', 'PASS', ''],
+    [2, 'Ledger sync', 'FAILED', '00:00', 'Rerun at 07:00'],
+    [3, 'Card settlement', 'PENDING', '11:58', ''],
+    ...rows
+  ]
+});
@@ -0,0 +1,221 @@
+import { ExcelRow, SheetData, StatusInfoType, UploadResponse } from './types';
+import { getColumnKey, getSheetColumns, getStatusColumns } from './columns';
+import { STATUS_INFO_TYPES } from './statusRules';
+import { isNonEmptyString, isObject } from './validation';
+
+// Rules every new report is checked against; a match is sent through the notification senders.
+// - status:      a status cell with the label `status` (e.g. FAILED), or of `statusType` (error by default)
+// - error-count: more than `threshold` error cells in the report
+// - sla-breach:  a completion time past its SLA target and tolerance
+export type AlertTrigger = 'status' | 'error-count' | 'sla-breach';
+
+export const ALERT_TRIGGERS: AlertTrigger[] = ['status', 'error-count', 'sla-breach'];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  trigger: AlertTrigger;
+  // Only cells of this job (Job Details, case-insensitive); every job when omitted
+  job?: string;
+  // status: label as resolved by the status rules, case-insensitive
+  status?: string;
+  // status: status type to look for when no label is given
+  statusType?: StatusInfoType;
+  // error-count: alert when there are more error cells than this
+  threshold?: number;
+  // Ids of the senders to notify; every configured sender when omitted or empty
+  senders?: string[];
+  enabled: boolean;
+  // No notifications until this time (ISO timestamp)
+  snoozedUntil?: string;
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'snoozedUntil'>;
+
+// A cell that made a rule match
+export interface AlertCell {
+  sheet: string;
+  job: string;
+  column: string;
+  value: string;
+  status: string;
+}
+
+export interface AlertMatch {
+  ruleId: string;
+  ruleName: string;
+  // Matching cells across every sheet of the report
+  count: number;
+  // The first MAX_ALERT_CELLS of them
+  cells: AlertCell[];
+  // One line, e.g. "3 FAILED cells in LOAD_ORDERS"
+  summary: string;
+}
+
+// What the senders get for each matched rule
+export interface AlertNotification {
+  subject: string;
+  // Plain-text body for e-mail and chat
+  text: string;
+  rule: { id: string; name: string; trigger: AlertTrigger };
+  report: { id: string; fileName: string; uploadDate: string };
+  count: number;
+  cells: AlertCell[];
+}
+
+export interface AlertDelivery {
+  sender: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface AlertLogEntry {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  reportId: string;
+  fileName: string;
+  sentAt: string;
+  count: number;
+  summary: string;
+  // One per sender tried; empty when no sender is configured
+  deliveries: AlertDelivery[];
+}
+
+export interface AlertSenderInfo {
+  id: string;
+  label: string;
+  // Whether its environment variables are set
+  configured: boolean;
+}
+
+// GET /api/alerts
+export interface AlertsResponse {
+  senders: AlertSenderInfo[];
+  // Newest first
+  entries: AlertLogEntry[];
+}
+
+export const MAX_ALERT_CELLS = 10;
+
+// A rule can be snoozed for up to a year
+export const MAX_SNOOZE_MINUTES = 365 * 24 * 60;
+
+const normalise = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+export const isSnoozed = (rule: AlertRule, now: Date = new Date()) =>
+  !!rule.snoozedUntil && new Date(rule.snoozedUntil).getTime() > now.getTime();
+
+const cellMatches = (rule: AlertRule, row: ExcelRow, key: string) => {
+  if (String(row[key] ?? '').trim() === '') return false;
+  if (rule.trigger === 'sla-breach') return row[`${key}_sla`] === 'breached';
+  if (rule.trigger === 'status' && rule.status) return normalise(row[`${key}_status`]) === normalise(rule.status);
+  if (rule.trigger === 'status') return row[`${key}_type`] === (rule.statusType || 'error');
+  return row[`${key}_type`] === 'error';
+};
+
+const findCells = (rule: AlertRule, sheet: SheetData): AlertCell[] => {
+  const columns = getSheetColumns(sheet.data, sheet.columns);
+  const titleKey = getColumnKey(columns, 'title') || '';
+  const statusKeys = getStatusColumns(columns);
+  const job = normalise(rule.job);
+
+  const cells: AlertCell[] = [];
+  sheet.data.forEach((row) => {
+    const rowJob = String(row[titleKey] ?? '');
+    if (job && normalise(rowJob) !== job) return;
+
+    statusKeys.forEach((key) => {
+      if (!cellMatches(rule, row, key)) return;
+      cells.push({
+        sheet: sheet.name,
+        job: rowJob,
+        column: key,
+        value: String(row[key] ?? ''),
+        status: String(row[`${key}_status`] ?? '')
+      });
+    });
+  });
+  return cells;
+};
+
+export const describeAlertMatch = (rule: AlertRule, count: number) => {
+  const plural = count === 1 ? '' : 's';
+  const scope = rule.job ? ` in ${rule.job}` : '';
+  if (rule.trigger === 'error-count') {
+    return `${count} error cell${plural}${scope}, more than ${rule.threshold ?? 0}`;
+  }
+  if (rule.trigger === 'sla-breach') {
+    return `${count} SLA breach${count === 1 ? '' : 'es'}${scope}`;
+  }
+  return `${count} ${rule.status ? rule.status.toUpperCase() : rule.statusType || 'error'} cell${plural}${scope}`;
+};
+
+// Enabled, unsnoozed rules the report's rows match
+export const evaluateAlertRules = (report: UploadResponse, rules: AlertRule[], now: Date = new Date()): AlertMatch[] => {
+  // Older responses only carry the first sheet's rows
+  const sheets: SheetData[] = report.sheets?.length
+    ? report.sheets
+    : [{ name: report.sheetName, data: report.data || [], totalRows: report.totalRows }];
+
+  return rules
+    .filter((rule) => rule.enabled && !isSnoozed(rule, now))
+    .flatMap((rule) => {
+      const cells = sheets.flatMap((sheet) => findCells(rule, sheet));
+      const matched = rule.trigger === 'error-count' ? cells.length > (rule.threshold ?? 0) : cells.length > 0;
+      if (!matched) return [];
+
+      return [{
+        ruleId: rule.id,
+        ruleName: rule.name,
+        count: cells.length,
+        cells: cells.slice(0, MAX_ALERT_CELLS),
+        summary: describeAlertMatch(rule, cells.length)
+      }];
+    });
+};
+
+// Check a rule from the API against the known sender ids; returns a list of problems, empty when valid
+export const validateAlertRule = (rule: unknown, senderIds: string[]): string[] => {
+  const errors: string[] = [];
+
+  if (!isObject(rule)) {
+    return ['Alert rule must be an object'];
+  }
+
+  if (!isNonEmptyString(rule.name)) {
+    errors.push('"name" is required');
+  }
+  if (!ALERT_TRIGGERS.includes(rule.trigger as AlertTrigger)) {
+    errors.push(`"trigger" must be one of ${ALERT_TRIGGERS.join(', ')}`);
+  }
+  if (typeof rule.enabled !== 'boolean') {
+    errors.push('"enabled" must be true or false');
+  }
+  (['job', 'status'] as const).forEach((key) => {
+    if (rule[key] !== undefined && typeof rule[key] !== 'string') {
+      errors.push(`"${key}" must be a string`);
+    }
+  });
+  if (rule.statusType !== undefined && !STATUS_INFO_TYPES.includes(rule.statusType as StatusInfoType)) {
+    errors.push(`"statusType" must be one of ${STATUS_INFO_TYPES.join(', ')}`);
+  }
+  if (rule.trigger === 'error-count'
+    && (typeof rule.threshold !== 'number' || !Number.isInteger(rule.threshold) || rule.threshold < 0)) {
+    errors.push('"threshold" must be a whole number, 0 or more');
+  }
+
+  if (rule.senders !== undefined) {
+    if (!Array.isArray(rule.senders)) {
+      errors.push('"senders" must be an array of sender ids');
+    } else {
+      rule.senders
+        .filter((sender: unknown) => !senderIds.includes(sender as string))
+        .forEach((sender: unknown) => {
+          errors.push(`Unknown sender "${sender}"; available: ${senderIds.join(', ')}`);
+        });
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,115 @@
+import { isObject } from './validation';
+
+// Accounts and roles. Each role can do everything the ones before it can:
+// - viewer:   open reports, histories and settings
+// - uploader: also upload workbooks
+// - admin:    also change status rules, SLA targets, mapping profiles and users
+export type UserRole = 'viewer' | 'uploader' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'uploader', 'admin'];
+
+// Where the identity came from: a local account with a session, or a header set by a trusted proxy
+export type AuthProvider = 'local' | 'header';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  displayName?: string;
+  provider: AuthProvider;
+}
+
+// A local account as listed to admins
+export interface UserAccount extends AuthUser {
+  createdAt: string;
+}
+
+export interface UserInput {
+  username?: string;
+  password?: string;
+  role?: UserRole;
+  displayName?: string;
+}
+
+export interface LoginResponse {
+  user: AuthUser;
+  // Also sent as an httpOnly cookie; scripts can pass it as "Authorization: Bearer <token>"
+  token: string;
+  expiresAt: string;
+}
+
+export const isUserRole = (value: unknown): value is UserRole => USER_ROLES.includes(value as UserRole);
+
+export const hasRole = (user: AuthUser | null | undefined, role: UserRole) =>
+  !!user && USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(role);
+
+// Identity from a proxy in front of the app (SSO gateway, Vercel protection...), e.g.
+// AUTH_USER_HEADER=X-Forwarded-User, AUTH_ROLE_HEADER=X-Forwarded-Role, AUTH_DEFAULT_ROLE=viewer
+export interface HeaderIdentityConfig {
+  userHeader: string;
+  roleHeader?: string;
+  defaultRole: UserRole;
+}
+
+export const readHeaderIdentityConfig = (env: Record<string, string | undefined>): HeaderIdentityConfig | null => {
+  if (!env.AUTH_USER_HEADER) return null;
+  return {
+    userHeader: env.AUTH_USER_HEADER.toLowerCase(),
+    roleHeader: env.AUTH_ROLE_HEADER ? env.AUTH_ROLE_HEADER.toLowerCase() : undefined,
+    defaultRole: isUserRole(env.AUTH_DEFAULT_ROLE) ? env.AUTH_DEFAULT_ROLE : 'viewer'
+  };
+};
+
+type RequestHeaders = Record<string, string | string[] | undefined>;
+
+const firstHeader = (headers: RequestHeaders, name: string) => {
+  const value = headers[name];
+  return String(Array.isArray(value) ? value[0] : value ?? '').trim();
+};
+
+// The user named by the identity header, or null when the header is missing
+export const resolveHeaderIdentity = (headers: RequestHeaders, config: HeaderIdentityConfig): AuthUser | null => {
+  const username = firstHeader(headers, config.userHeader);
+  if (!username) return null;
+
+  const role = config.roleHeader ? firstHeader(headers, config.roleHeader).toLowerCase() : '';
+  return {
+    id: `header:${username}`,
+    username,
+    role: isUserRole(role) ? role : config.defaultRole,
+    provider: 'header'
+  };
+};
+
+const USERNAME_PATTERN = /^[a-z0-9._@-]{2,64}$/i;
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Check a new account (or, with `partial`, changes to one); returns a list of problems, empty when valid
+export const validateUserInput = (input: unknown, { partial = false } = {}): string[] => {
+  const errors: string[] = [];
+
+  if (!isObject(input)) {
+    return ['User must be an object'];
+  }
+
+  if (!partial || input.username !== undefined) {
+    if (typeof input.username !== 'string' || !USERNAME_PATTERN.test(input.username)) {
+      errors.push('"username" must be 2-64 letters, digits or . _ @ -');
+    }
+  }
+  if (!partial || input.password !== undefined) {
+    if (typeof input.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH) {
+      errors.push(`"password" must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+  }
+  if (!partial || input.role !== undefined) {
+    if (!isUserRole(input.role)) {
+      errors.push(`"role" must be one of: ${USER_ROLES.join(', ')}`);
+    }
+  }
+  if (input.displayName !== undefined && typeof input.displayName !== 'string') {
+    errors.push('"displayName" must be a string');
+  }
+
+  return errors;
+};
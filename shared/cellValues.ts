@@ -0,0 +1,109 @@
+import { CellKind, CellValue, ExcelRow } from './types';
+
+// Typed cell values: what a cell holds (read from its number format) and how to show and sort it.
+// Typed values in the row payload are JSON-friendly:
+// - number, percent: the number itself (45% is 0.45)
+// - date:            'YYYY-MM-DD'
+// - datetime:        'YYYY-MM-DDTHH:MM:SS' (workbook local time, no zone)
+// - time:            'HH:MM:SS'
+// - duration:        whole seconds
+
+export interface TypedCell {
+  display: string;
+  value: CellValue;
+  kind: CellKind;
+}
+
+// Drop the parts of a number format that aren't format codes: quoted text, escaped and
+// padding characters, and bracketed colours/locales (elapsed-time brackets are checked first)
+const stripLiterals = (format: string) =>
+  format
+    .replace(/"[^"]*"/g, '')
+    .replace(/\\./g, '')
+    .replace(/[_*]./g, '')
+    .replace(/\[[^\]]*\]/g, '');
+
+// Kind of a numeric cell from its number format; a missing or General format is a plain number
+export const classifyNumberFormat = (format?: string): CellKind => {
+  if (!format || format.toLowerCase() === 'general') return 'number';
+
+  // Only the first section applies to positive values
+  const section = format.split(';')[0];
+  if (/\[(h+|m+|s+)\]/i.test(section)) return 'duration';
+
+  const codes = stripLiterals(section);
+  const hasTime = /[hs]|am\/pm|a\/p/i.test(codes);
+  // "m" is minutes next to hours or seconds, otherwise a month
+  const hasDate = /[yd]/i.test(codes) || (!hasTime && /m/i.test(codes));
+
+  if (hasDate && hasTime) return 'datetime';
+  if (hasDate) return 'date';
+  if (hasTime) return 'time';
+  if (codes.includes('%')) return 'percent';
+  return 'number';
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toTimeValue = (hours: number, minutes: number, seconds = 0) =>
+  `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+
+export const toDateValue = (year: number, month: number, day: number) =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+// Grid text for a typed cell; numbers and percentages keep the workbook's own formatting
+export const formatTypedValue = (kind: CellKind | undefined, value: CellValue, display: string): string => {
+  if (value === '' || value === undefined || value === null) return display;
+
+  switch (kind) {
+    case 'date': {
+      const [year, month, day] = String(value).split('-').map(Number);
+      return new Date(year, month - 1, day).toLocaleDateString();
+    }
+    case 'datetime': {
+      const [date, time] = String(value).split('T');
+      return `${formatTypedValue('date', date, display)} ${formatTypedValue('time', time, display)}`;
+    }
+    case 'time': {
+      // Seconds are only shown when there are any
+      const [hours, minutes, seconds] = String(value).split(':');
+      return seconds && seconds !== '00' ? `${hours}:${minutes}:${seconds}` : `${hours}:${minutes}`;
+    }
+    case 'duration': {
+      const totalMinutes = Math.round(Number(value) / 60);
+      const hours = Math.floor(totalMinutes / 60);
+      const minutes = totalMinutes % 60;
+      return hours > 0 ? `${hours}h ${pad(minutes)}m` : `${minutes}m`;
+    }
+    default:
+      return display;
+  }
+};
+
+// Grid text for one cell of a row
+export const formatRowCell = (row: ExcelRow, key: string): string =>
+  formatTypedValue(row[`${key}_kind`], row[`${key}_value`], String(row[key] ?? ''));
+
+const textCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Sort order of one column: typed values by value, then text (naturally, so "Job 2" < "Job 10"),
+// then empty cells
+export const compareRowCells = (a: ExcelRow, b: ExcelRow, key: string): number => {
+  const rank = (row: ExcelRow) => {
+    if (row[`${key}_kind`]) return 0;
+    return String(row[key] ?? '').trim() === '' ? 2 : 1;
+  };
+
+  const rankDifference = rank(a) - rank(b);
+  if (rankDifference !== 0) return rankDifference;
+
+  if (rank(a) === 0) {
+    const aValue = a[`${key}_value`];
+    const bValue = b[`${key}_value`];
+    if (typeof aValue === 'number' && typeof bValue === 'number') return aValue - bValue;
+    // ISO dates and times sort as text; mixed kinds fall back to the same
+    return String(aValue).localeCompare(String(bValue));
+  }
+
+  return textCollator.compare(String(a[key] ?? ''), String(b[key] ?? ''));
+};
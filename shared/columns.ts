@@ -0,0 +1,57 @@
+import { ColumnDef, ColumnRole, ExcelRow } from './types';
+
+// Column model shared by the grid, the server-side renderer, the exports and the diff
+
+export const META_KEYS = ['id', 'rowNumber', 'uploadDate'];
+export const DERIVED_SUFFIXES = ['_status', '_color', '_type', '_value', '_kind', '_sla', '_slaDelta'];
+
+// Reports saved before mapping profiles used these fixed keys and carry no column list
+export const LEGACY_COLUMN_ROLES: Record<string, ColumnDef['role']> = {
+  'S.No': 'id',
+  'Job Details': 'title',
+  'Comments': 'notes'
+};
+
+const ROLE_ORDER: ColumnDef['role'][] = ['id', 'title', 'status', 'notes'];
+
+// True for keys that hold a cell value rather than metadata or derived status info
+export const isDataColumn = (key: string) =>
+  !META_KEYS.includes(key) && !DERIVED_SUFFIXES.some((suffix) => key.endsWith(suffix));
+
+// Display order: id, title, the status columns as they appear, notes last
+export const orderColumns = (columns: ColumnDef[]): ColumnDef[] =>
+  ROLE_ORDER.flatMap((role) => columns.filter((column) => column.role === role));
+
+// The sheet's column list, or one inferred from the legacy keys for older reports
+export const getSheetColumns = (rows: ExcelRow[], columns?: ColumnDef[]): ColumnDef[] => {
+  if (columns && columns.length > 0) return orderColumns(columns);
+
+  const inferred: ColumnDef[] = [];
+  rows.forEach((row) => {
+    Object.keys(row).forEach((key) => {
+      if (isDataColumn(key) && !inferred.some((column) => column.key === key)) {
+        inferred.push({ key, role: LEGACY_COLUMN_ROLES[key] || 'status' });
+      }
+    });
+  });
+  return orderColumns(inferred);
+};
+
+// Key of the first column with a role, if the sheet has one
+export const getColumnKey = (columns: ColumnDef[], role: ColumnRole) =>
+  columns.find((column) => column.role === role)?.key;
+
+export const getStatusColumns = (columns: ColumnDef[]) =>
+  columns.filter((column) => column.role === 'status').map((column) => column.key);
+
+// Default column widths in pixels
+export const getColumnWidth = (column: ColumnDef): number => {
+  if (column.role === 'id') return 50;
+  if (column.role === 'title') return 300;
+  if (column.role === 'notes') return 200;
+  return 90;
+};
+
+// Time values render as plain text unless a status rule flagged them
+export const isPlainTimeCell = (value: unknown, type: string) =>
+  ['time', 'processing', 'default'].includes(type) && String(value ?? '').includes(':');
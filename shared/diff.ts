@@ -0,0 +1,156 @@
+import { CellValue, ColumnDef, ExcelRow, SheetData, StatusInfoType } from './types';
+import { parseTimeOfDay } from './statusRules';
+import { getColumnKey, getSheetColumns } from './columns';
+
+export type RowChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface CellChange {
+  column: string;
+  before: CellValue;
+  after: CellValue;
+  beforeType?: StatusInfoType;
+  afterType?: StatusInfoType;
+  // Set when both values are HH:MM times; positive means the job finished later
+  timeShiftMinutes?: number;
+  // The cell moved into an error or warning state
+  regression: boolean;
+}
+
+export interface RowDiff {
+  key: string;
+  change: RowChange;
+  before?: ExcelRow;
+  after?: ExcelRow;
+  cells: CellChange[];
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  regressions: number;
+  recoveries: number;
+  slipped: number;
+}
+
+export interface ReportDiff {
+  beforeId: string;
+  afterId: string;
+  beforeSheet: string;
+  afterSheet: string;
+  rows: RowDiff[];
+  summary: DiffSummary;
+}
+
+const PROBLEM_TYPES: StatusInfoType[] = ['error', 'warning'];
+
+const normalise = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+// Rows are matched on the title column; the id column only disambiguates jobs listed more than once
+const keyRows = (rows: ExcelRow[], columns: ColumnDef[]) => {
+  const titleKey = getColumnKey(columns, 'title') || '';
+  const idKey = getColumnKey(columns, 'id') || '';
+  const counts = new Map<string, number>();
+  rows.forEach((row) => {
+    const job = normalise(row[titleKey]);
+    counts.set(job, (counts.get(job) || 0) + 1);
+  });
+
+  const keyed = new Map<string, ExcelRow>();
+  rows.forEach((row) => {
+    const job = normalise(row[titleKey]);
+    const key = (counts.get(job) || 0) > 1 ? `${job}#${normalise(row[idKey])}` : job;
+    if (!keyed.has(key)) keyed.set(key, row);
+  });
+  return keyed;
+};
+
+// Status and notes columns are compared by key; id and title are what rows were matched on
+const comparableKeys = (columns: ColumnDef[]) =>
+  columns.filter((column) => column.role === 'status' || column.role === 'notes').map((column) => column.key);
+
+const compareCells = (before: ExcelRow, after: ExcelRow, keys: string[]): CellChange[] => {
+  const columns = new Set(keys);
+  const changes: CellChange[] = [];
+
+  columns.forEach((column) => {
+    const beforeValue: CellValue = before[column] ?? '';
+    const afterValue: CellValue = after[column] ?? '';
+    if (normalise(beforeValue) === normalise(afterValue)) return;
+
+    const beforeType: StatusInfoType | undefined = before[`${column}_type`];
+    const afterType: StatusInfoType | undefined = after[`${column}_type`];
+    const change: CellChange = {
+      column,
+      before: beforeValue,
+      after: afterValue,
+      beforeType,
+      afterType,
+      regression: !!afterType && PROBLEM_TYPES.includes(afterType)
+        && !(beforeType && PROBLEM_TYPES.includes(beforeType))
+    };
+
+    const beforeMinutes = parseTimeOfDay(String(beforeValue));
+    const afterMinutes = parseTimeOfDay(String(afterValue));
+    if (beforeMinutes !== null && afterMinutes !== null) {
+      change.timeShiftMinutes = afterMinutes - beforeMinutes;
+    }
+
+    changes.push(change);
+  });
+
+  return changes;
+};
+
+type DiffableSheet = Pick<SheetData, 'data' | 'columns'>;
+
+// Compare two sheets; rows keep the order of `after`, removed rows follow
+export const diffSheets = (beforeSheet: DiffableSheet, afterSheet: DiffableSheet) => {
+  const beforeColumns = getSheetColumns(beforeSheet.data, beforeSheet.columns);
+  const afterColumns = getSheetColumns(afterSheet.data, afterSheet.columns);
+  const beforeByKey = keyRows(beforeSheet.data, beforeColumns);
+  const afterByKey = keyRows(afterSheet.data, afterColumns);
+  const keys = Array.from(new Set([...comparableKeys(beforeColumns), ...comparableKeys(afterColumns)]));
+  const rows: RowDiff[] = [];
+
+  afterByKey.forEach((after, key) => {
+    const before = beforeByKey.get(key);
+    if (!before) {
+      rows.push({ key, change: 'added', after, cells: [] });
+      return;
+    }
+    const cells = compareCells(before, after, keys);
+    rows.push({ key, change: cells.length > 0 ? 'changed' : 'unchanged', before, after, cells });
+  });
+
+  beforeByKey.forEach((before, key) => {
+    if (!afterByKey.has(key)) {
+      rows.push({ key, change: 'removed', before, cells: [] });
+    }
+  });
+
+  const summary: DiffSummary = {
+    added: 0,
+    removed: 0,
+    changed: 0,
+    unchanged: 0,
+    regressions: 0,
+    recoveries: 0,
+    slipped: 0
+  };
+
+  rows.forEach((row) => {
+    summary[row.change] += 1;
+    row.cells.forEach((cell) => {
+      if (cell.regression) summary.regressions += 1;
+      if (cell.beforeType && PROBLEM_TYPES.includes(cell.beforeType)
+        && cell.afterType && !PROBLEM_TYPES.includes(cell.afterType)) {
+        summary.recoveries += 1;
+      }
+      if ((cell.timeShiftMinutes || 0) > 0) summary.slipped += 1;
+    });
+  });
+
+  return { rows, summary };
+};
@@ -0,0 +1,64 @@
+import { ColumnDef } from './types';
+import { isObject } from './validation';
+
+// Cells changed in the grid after upload. Notes (Comments) hold triage remarks; status cells
+// can be overridden, e.g. "FAILED" to "ACK" once someone has looked at it. Every change is kept.
+
+// One change to one cell, newest last in a report's trail
+export interface CellEdit {
+  id: string;
+  sheet: string;
+  rowId: string;
+  column: string;
+  previousValue: string;
+  value: string;
+  // Username of whoever made the change
+  author: string;
+  editedAt: string;
+}
+
+// PATCH /api/reports/:id/rows/:rowId
+export interface RowEditRequest {
+  // Defaults to the report's active sheet
+  sheet?: string;
+  // New text by column key
+  cells: Record<string, string>;
+}
+
+export const MAX_CELL_TEXT_LENGTH = 2000;
+
+export const isEditableColumn = (column: ColumnDef) => column.role === 'notes' || column.role === 'status';
+
+// Check an edit against the sheet's columns; returns a list of problems, empty when valid
+export const validateRowEdit = (request: unknown, columns: ColumnDef[]): string[] => {
+  if (!isObject(request)) {
+    return ['Edit must be an object'];
+  }
+  if (request.sheet !== undefined && typeof request.sheet !== 'string') {
+    return ['"sheet" must be a string'];
+  }
+  if (!isObject(request.cells)) {
+    return ['"cells" must be an object of column to text'];
+  }
+
+  const entries = Object.entries(request.cells);
+  if (entries.length === 0) {
+    return ['"cells" has no changes'];
+  }
+
+  const errors: string[] = [];
+  entries.forEach(([key, value]) => {
+    const column = columns.find((candidate) => candidate.key === key);
+    if (!column) {
+      errors.push(`"${key}" is not a column of this sheet`);
+    } else if (!isEditableColumn(column)) {
+      errors.push(`"${key}" is a ${column.role} column; only notes and status cells can be edited`);
+    }
+    if (typeof value !== 'string') {
+      errors.push(`cells["${key}"] must be a string`);
+    } else if (value.length > MAX_CELL_TEXT_LENGTH) {
+      errors.push(`cells["${key}"] is longer than ${MAX_CELL_TEXT_LENGTH} characters`);
+    }
+  });
+  return errors;
+};
@@ -0,0 +1,100 @@
+import { ColumnDef, ExcelRow } from './types';
+import { getStatusColumns } from './columns';
+
+// Grid filters; also encoded in the page URL so a filtered view can be shared
+export interface GridFilters {
+  // Matched against the title and notes columns (Job Details and Comments by default)
+  search: string;
+  // Selected status labels per status column
+  status: Record<string, string[]>;
+  // Only rows with at least one error or warning cell
+  problemsOnly: boolean;
+}
+
+export const EMPTY_FILTERS: GridFilters = {
+  search: '',
+  status: {},
+  problemsOnly: false,
+};
+
+const PROBLEM_TYPES = ['error', 'warning'];
+
+// URL parameter names; status filters use one `status.<column>` entry per selected value
+const SEARCH_PARAM = 'q';
+const PROBLEMS_PARAM = 'problems';
+const STATUS_PREFIX = 'status.';
+
+export const hasActiveFilters = (filters: GridFilters) =>
+  !!filters.search.trim()
+  || filters.problemsOnly
+  || Object.values(filters.status).some((values) => values.length > 0);
+
+export const rowHasProblem = (row: ExcelRow) =>
+  Object.keys(row).some((key) => key.endsWith('_type') && PROBLEM_TYPES.includes(row[key]));
+
+// The label a status cell shows for filtering; falls back to the raw value
+export const getStatusLabel = (row: ExcelRow, column: string) =>
+  String(row[`${column}_status`] ?? row[column] ?? '');
+
+// Distinct status labels per status column, sorted, for the column filter dropdowns
+export const getStatusOptions = (rows: ExcelRow[], columns: ColumnDef[]) => {
+  const statusColumns = getStatusColumns(columns);
+  const options: Record<string, string[]> = {};
+  rows.forEach((row) => {
+    statusColumns.forEach((key) => {
+      const label = getStatusLabel(row, key);
+      if (!label) return;
+      options[key] = options[key] || [];
+      if (!options[key].includes(label)) options[key].push(label);
+    });
+  });
+  Object.values(options).forEach((labels) => labels.sort());
+  return options;
+};
+
+// Search looks at the title and notes columns
+export const applyGridFilters = (rows: ExcelRow[], filters: GridFilters, columns: ColumnDef[]) => {
+  const search = filters.search.trim().toLowerCase();
+  const searchKeys = columns
+    .filter((column) => column.role === 'title' || column.role === 'notes')
+    .map((column) => column.key);
+  const statusFilters = Object.entries(filters.status).filter(([, values]) => values.length > 0);
+
+  return rows.filter((row) => {
+    if (search) {
+      const text = searchKeys.map((key) => String(row[key] ?? '')).join(' ').toLowerCase();
+      if (!text.includes(search)) return false;
+    }
+    if (filters.problemsOnly && !rowHasProblem(row)) return false;
+    return statusFilters.every(([column, values]) => values.includes(getStatusLabel(row, column)));
+  });
+};
+
+export const filtersFromSearchParams = (params: URLSearchParams): GridFilters => {
+  const status: Record<string, string[]> = {};
+  params.forEach((value, key) => {
+    if (!key.startsWith(STATUS_PREFIX)) return;
+    const column = key.slice(STATUS_PREFIX.length);
+    status[column] = [...(status[column] || []), value];
+  });
+
+  return {
+    search: params.get(SEARCH_PARAM) || '',
+    status,
+    problemsOnly: params.get(PROBLEMS_PARAM) === '1',
+  };
+};
+
+// Writes the filters into `params`, replacing any filter entries already there
+export const writeFiltersToSearchParams = (params: URLSearchParams, filters: GridFilters) => {
+  Array.from(params.keys())
+    .filter((key) => key === SEARCH_PARAM || key === PROBLEMS_PARAM || key.startsWith(STATUS_PREFIX))
+    .forEach((key) => params.delete(key));
+
+  if (filters.search.trim()) params.set(SEARCH_PARAM, filters.search.trim());
+  if (filters.problemsOnly) params.set(PROBLEMS_PARAM, '1');
+  Object.entries(filters.status).forEach(([column, values]) => {
+    values.forEach((value) => params.append(`${STATUS_PREFIX}${column}`, value));
+  });
+  return params;
+};
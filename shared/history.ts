@@ -0,0 +1,114 @@
+import { ExcelRow, SheetData, StatusInfoType, UploadResponse } from './types';
+import { getColumnKey, getSheetColumns, getStatusColumns } from './columns';
+import { SlaState } from './sla';
+
+// One time-slot cell of a job in one upload
+export interface JobRunCell {
+  column: string;
+  value: string;
+  status?: string;
+  type?: StatusInfoType;
+  sla?: SlaState;
+  slaDelta?: number;
+}
+
+// A job as it appeared in one sheet of one upload
+export interface JobRun {
+  reportId: string;
+  fileName: string;
+  uploadDate: string;
+  sheet: string;
+  job: string;
+  cells: JobRunCell[];
+}
+
+// Worst status of a run: any error cell fails it, any warning flags it
+export type JobRunOutcome = 'failed' | 'warning' | 'passed' | 'empty';
+
+export interface JobTimelineEntry extends JobRun {
+  outcome: JobRunOutcome;
+}
+
+export interface JobTimeline {
+  job: string;
+  // Oldest first
+  runs: JobTimelineEntry[];
+  counts: Record<JobRunOutcome, number>;
+  // Failed runs as a share of runs with any status, 0..1
+  failureRate: number;
+  // How often the outcome flips between failed and not failed from one run to the next, 0..1;
+  // 0 for a job that always passes (or always fails), 1 for one that alternates every run
+  flakiness: number;
+}
+
+// Jobs are matched on their trimmed, lower-cased Job Details
+export const toJobKey = (job: string) => String(job ?? '').trim().toLowerCase();
+
+const toRunCells = (row: ExcelRow, statusColumns: string[]): JobRunCell[] =>
+  statusColumns
+    .filter((column) => String(row[column] ?? '').trim() !== '')
+    .map((column) => {
+      const cell: JobRunCell = { column, value: String(row[column]) };
+      if (row[`${column}_status`] !== undefined) cell.status = row[`${column}_status`];
+      if (row[`${column}_type`] !== undefined) cell.type = row[`${column}_type`];
+      if (row[`${column}_sla`] !== undefined) cell.sla = row[`${column}_sla`];
+      if (row[`${column}_slaDelta`] !== undefined) cell.slaDelta = row[`${column}_slaDelta`];
+      return cell;
+    });
+
+// Every job of every sheet in a saved report
+export const toJobRuns = (report: UploadResponse & { reportId: string }): JobRun[] => {
+  const sheets: SheetData[] = report.sheets?.length
+    ? report.sheets
+    : [{ name: report.sheetName || '', data: report.data || [], totalRows: report.totalRows || 0 }];
+
+  return sheets.flatMap((sheet) => {
+    const columns = getSheetColumns(sheet.data, sheet.columns);
+    const titleKey = getColumnKey(columns, 'title');
+    if (!titleKey) return [];
+    const statusColumns = getStatusColumns(columns);
+
+    return sheet.data
+      .filter((row) => String(row[titleKey] ?? '').trim() !== '')
+      .map((row) => ({
+        reportId: report.reportId,
+        fileName: report.fileName,
+        uploadDate: report.uploadDate,
+        sheet: sheet.name,
+        job: String(row[titleKey]).trim(),
+        cells: toRunCells(row, statusColumns)
+      }));
+  });
+};
+
+export const getRunOutcome = (run: JobRun): JobRunOutcome => {
+  const types = run.cells.map((cell) => cell.type);
+  if (types.includes('error')) return 'failed';
+  if (types.includes('warning')) return 'warning';
+  return run.cells.length > 0 ? 'passed' : 'empty';
+};
+
+// Timeline of one job's runs with its failure rate and flakiness
+export const buildJobTimeline = (job: string, runs: JobRun[]): JobTimeline => {
+  const sorted = [...runs].sort((a, b) => a.uploadDate.localeCompare(b.uploadDate));
+  const entries: JobTimelineEntry[] = sorted.map((run) => ({ ...run, outcome: getRunOutcome(run) }));
+
+  const counts: Record<JobRunOutcome, number> = { failed: 0, warning: 0, passed: 0, empty: 0 };
+  entries.forEach((entry) => {
+    counts[entry.outcome] += 1;
+  });
+
+  const withStatus = entries.filter((entry) => entry.outcome !== 'empty');
+  let flips = 0;
+  for (let index = 1; index < withStatus.length; index++) {
+    if ((withStatus[index].outcome === 'failed') !== (withStatus[index - 1].outcome === 'failed')) flips += 1;
+  }
+
+  return {
+    job,
+    runs: entries,
+    counts,
+    failureRate: withStatus.length > 0 ? counts.failed / withStatus.length : 0,
+    flakiness: withStatus.length > 1 ? flips / (withStatus.length - 1) : 0
+  };
+};
@@ -0,0 +1,120 @@
+import { ColumnRole } from './types';
+import { errorMessage, isNonEmptyString, isObject } from './validation';
+
+// How a mapping rule recognises a header (all case-insensitive):
+// - exact:    the trimmed header equals `pattern`
+// - contains: the header contains `pattern`
+// - regex:    the header matches `pattern`
+export type MappingMatch = 'exact' | 'contains' | 'regex';
+
+export interface MappingRule {
+  match: MappingMatch;
+  pattern: string;
+  role: ColumnRole;
+}
+
+// A named set of rules mapping workbook headers to column roles; the first matching rule wins
+export interface MappingProfile {
+  id: string;
+  name: string;
+  description?: string;
+  rules: MappingRule[];
+  // Role for headers that no rule matches
+  unmatched: 'status' | 'ignore';
+}
+
+export const COLUMN_ROLES: ColumnRole[] = ['id', 'title', 'notes', 'status', 'ignore'];
+export const MAPPING_MATCHES: MappingMatch[] = ['exact', 'contains', 'regex'];
+
+export const DEFAULT_MAPPING_PROFILE_ID = 'default';
+
+// The header aliases the parser has always recognised
+export const DEFAULT_MAPPING_PROFILE: MappingProfile = {
+  id: DEFAULT_MAPPING_PROFILE_ID,
+  name: 'CCS export',
+  description: 'S.No, Job Details and Comments; every other column is a status column',
+  rules: [
+    { match: 'contains', pattern: 's.no', role: 'id' },
+    { match: 'contains', pattern: 's no', role: 'id' },
+    { match: 'regex', pattern: 'job.*detail|detail.*job', role: 'title' },
+    { match: 'contains', pattern: 'comment', role: 'notes' }
+  ],
+  unmatched: 'status'
+};
+
+const ruleMatches = (rule: MappingRule, header: string): boolean => {
+  const value = header.trim().toLowerCase();
+  const pattern = rule.pattern.trim().toLowerCase();
+  switch (rule.match) {
+    case 'exact':
+      return value === pattern;
+    case 'contains':
+      return value.includes(pattern);
+    case 'regex':
+      return new RegExp(rule.pattern, 'i').test(header.trim());
+    default:
+      return false;
+  }
+};
+
+// Role for one header; `matched` is false when it fell through to `unmatched`
+export const resolveColumnRole = (
+  header: string,
+  profile: MappingProfile = DEFAULT_MAPPING_PROFILE
+): { role: ColumnRole; matched: boolean } => {
+  const rule = profile.rules.find((candidate) => ruleMatches(candidate, header));
+  return rule ? { role: rule.role, matched: true } : { role: profile.unmatched, matched: false };
+};
+
+// Check a profile from the API; returns a list of problems, empty when valid
+export const validateMappingProfile = (profile: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (!isObject(profile)) {
+    return ['Mapping profile must be an object'];
+  }
+
+  if (!isNonEmptyString(profile.name)) {
+    errors.push('"name" is required');
+  }
+  if (profile.unmatched !== 'status' && profile.unmatched !== 'ignore') {
+    errors.push('"unmatched" must be status or ignore');
+  }
+
+  if (!Array.isArray(profile.rules)) {
+    errors.push('"rules" must be an array');
+    return errors;
+  }
+
+  const rules: unknown[] = profile.rules;
+  rules.forEach((rule, index) => {
+    const label = `rules[${index}]`;
+    if (!isObject(rule)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (!MAPPING_MATCHES.includes(rule.match as MappingMatch)) {
+      errors.push(`${label}.match must be one of ${MAPPING_MATCHES.join(', ')}`);
+    }
+    if (!COLUMN_ROLES.includes(rule.role as ColumnRole)) {
+      errors.push(`${label}.role must be one of ${COLUMN_ROLES.join(', ')}`);
+    }
+    if (!isNonEmptyString(rule.pattern)) {
+      errors.push(`${label}.pattern is required`);
+    } else if (rule.match === 'regex') {
+      try {
+        new RegExp(rule.pattern, 'i');
+      } catch (error) {
+        errors.push(`${label}.pattern is not a valid regular expression: ${errorMessage(error)}`);
+      }
+    }
+  });
+
+  ['id', 'title'].forEach((role) => {
+    if (!rules.some((rule) => isObject(rule) && rule.role === role)) {
+      errors.push(`At least one rule must map a header to the "${role}" role`);
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,551 @@
+import * as XLSX from 'xlsx';
+import { CellKind, CellValue, ColumnDef, ExcelRow, ImportIssue, SheetData, StatusInfo, UploadResponse } from './types';
+import { DEFAULT_STATUS_RULES, StatusRuleConfig, evaluateStatus, parseTimeOfDay } from './statusRules';
+import { DEFAULT_MAPPING_PROFILE, MappingProfile, resolveColumnRole } from './mapping';
+import { orderColumns } from './columns';
+import { DEFAULT_SLA_CONFIG, SLA_STATUS_TYPES, SlaConfig, evaluateSla, findSlaTarget } from './sla';
+import { TypedCell, classifyNumberFormat, toDateValue, toTimeValue } from './cellValues';
+
+// Upload limit of the serverless function; the Express server reads MAX_UPLOAD_MB instead
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // 10MB limit
+
+export const ALLOWED_MIME_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+  'text/csv'
+];
+
+// Every sheet needs one column for each of these roles
+const REQUIRED_ROLES: { role: 'id' | 'title'; label: string }[] = [
+  { role: 'id', label: 'S.No' },
+  { role: 'title', label: 'Job Details' }
+];
+
+// Keeps the response small when a whole sheet is malformed
+export const MAX_IMPORT_ISSUES = 500;
+
+// Looks like a time (digits around a colon) but isn't a valid HH:MM
+const looksLikeTime = (value: string) => /^\d+:\d+/.test(value.trim());
+
+// How many rows to search for the header, and how many rows a merged header may span
+const HEADER_SCAN_ROWS = 20;
+const MAX_HEADER_DEPTH = 3;
+
+// Sheet rows read between pauses by the chunked parsers, so a big workbook doesn't hold up the server
+export const PARSE_CHUNK_ROWS = 2000;
+
+export interface ParseOptions {
+  fileName: string;
+  uploadDate?: string;
+  // Parse only this sheet instead of every sheet in the workbook
+  sheet?: string;
+  // Rules used to colour status cells; defaults to DEFAULT_STATUS_RULES
+  statusRules?: StatusRuleConfig;
+  // Maps headers to column roles; defaults to DEFAULT_MAPPING_PROFILE
+  mapping?: MappingProfile;
+  // Expected completion times; defaults to DEFAULT_SLA_CONFIG (none)
+  sla?: SlaConfig;
+}
+
+export interface ParseResult {
+  response: UploadResponse;
+  headers: Record<string, string[]>;
+  issues: ImportIssue[];
+}
+
+export class SheetNotFoundError extends Error {
+  constructor(public sheet: string, public sheetNames: string[]) {
+    super(`Sheet "${sheet}" not found. Available sheets: ${sheetNames.join(', ')}`);
+    this.name = 'SheetNotFoundError';
+  }
+}
+
+const EMPTY_CELL: TypedCell = { display: '', value: '', kind: 'text' };
+
+// Typed value of a number read with the given kind; Excel stores dates and times as days since 1900
+const toTypedValue = (serial: number, kind: CellKind): CellValue => {
+  if (kind === 'duration') return Math.round(serial * 24 * 60 * 60);
+  if (kind !== 'date' && kind !== 'time' && kind !== 'datetime') return serial;
+
+  // Round to the second first so 0.1666666 reads as 04:00:00 like Excel shows it, not 03:59:59
+  const parts = XLSX.SSF.parse_date_code(Math.round(serial * 24 * 60 * 60) / (24 * 60 * 60));
+  if (!parts) return serial;
+
+  const date = toDateValue(parts.y, parts.m, parts.d);
+  const time = toTimeValue(parts.H, parts.M, Math.round(parts.S));
+  if (kind === 'date') return date;
+  if (kind === 'time') return time;
+  return `${date}T${time}`;
+};
+
+// Times typed as text (common in CSV exports, or edited in the grid) still format and sort as times
+export const readTextCell = (display: string): TypedCell => {
+  const minutes = parseTimeOfDay(display);
+  if (minutes !== null) {
+    return { display, value: toTimeValue(Math.floor(minutes / 60), minutes % 60), kind: 'time' };
+  }
+  return { display, value: display, kind: 'text' };
+};
+
+// Read a cell as the text the workbook shows plus a typed value classified from its number format
+export const readCell = (worksheet: XLSX.WorkSheet, cellAddress: string): TypedCell => {
+  const cell: XLSX.CellObject | undefined = worksheet[cellAddress];
+  if (!cell || cell.v === undefined || cell.v === null) return EMPTY_CELL;
+
+  // Workbooks read with cellDates hold real dates
+  if (cell.v instanceof Date) {
+    const value = cell.v.toISOString().slice(0, 19);
+    return { display: cell.w ?? value, value, kind: 'datetime' };
+  }
+
+  if (cell.t === 'n' && typeof cell.v === 'number') {
+    const kind = classifyNumberFormat(cell.z === undefined ? undefined : String(cell.z));
+    const display = cell.w ?? XLSX.SSF.format(cell.z ?? 'General', cell.v);
+    return { display, value: toTypedValue(cell.v, kind), kind };
+  }
+
+  return readTextCell(cell.w ?? String(cell.v));
+};
+
+// The text a cell shows in the workbook
+export const getFormattedCellValue = (worksheet: XLSX.WorkSheet, cellAddress: string): CellValue =>
+  readCell(worksheet, cellAddress).display;
+
+// Helper function to determine status and color based on cell value
+export const getStatusInfo = (
+  value: CellValue | null | undefined,
+  statusRules: StatusRuleConfig = DEFAULT_STATUS_RULES
+): StatusInfo => evaluateStatus(value, statusRules);
+
+// Set the status, colour and type of one status cell of a row from its text
+export const applyStatusRules = (row: Record<string, any>, key: string, statusRules: StatusRuleConfig) => {
+  const statusInfo = getStatusInfo(row[key], statusRules);
+  row[`${key}_status`] = statusInfo.status;
+  row[`${key}_color`] = statusInfo.color;
+  row[`${key}_type`] = statusInfo.type;
+};
+
+// Check one status cell against the job's SLA target and recolour it; placeholders the status
+// rules mark as default (00:00) and cells without a target or a time are left alone
+export const applySlaTarget = (row: Record<string, any>, key: string, job: string, sla: SlaConfig) => {
+  if (row[`${key}_type`] === 'default') return;
+  const target = findSlaTarget(sla, job, key);
+  const result = target ? evaluateSla(String(row[key] ?? ''), target) : null;
+  if (!result) return;
+
+  row[`${key}_sla`] = result.state;
+  row[`${key}_slaDelta`] = result.deltaMinutes;
+  row[`${key}_color`] = sla.colors[result.state];
+  row[`${key}_type`] = SLA_STATUS_TYPES[result.state];
+};
+
+const findMerge = (merges: XLSX.Range[], row: number, col: number) =>
+  merges.find((merge) => row >= merge.s.r && row <= merge.e.r && col >= merge.s.c && col <= merge.e.c);
+
+export interface HeaderLayout {
+  // 0-based sheet rows the header spans
+  start: number;
+  end: number;
+  // One name per sheet column; levels of a multi-row header are joined with a space
+  names: string[];
+  // The bottom level of each name, e.g. the time slot under a date
+  leaves: string[];
+}
+
+// Find the header: the first row in which the mapping recognises both an id and a title column
+// (falling back to the first row), extended down over vertically merged cells and over the
+// sub-header row under a merged group label such as a date above its time slots
+export const detectHeader = (
+  worksheet: XLSX.WorkSheet,
+  range: XLSX.Range,
+  mapping: MappingProfile = DEFAULT_MAPPING_PROFILE
+): HeaderLayout => {
+  const merges = worksheet['!merges'] || [];
+  const columnCount = range.e.c - range.s.c + 1;
+
+  const readCell = (row: number, col: number) => {
+    const value = getFormattedCellValue(worksheet, XLSX.utils.encode_cell({ r: row, c: col }));
+    return value ? String(value).trim() : '';
+  };
+  // Merged cells read as the value of their top-left cell
+  const readMergedCell = (row: number, col: number) => {
+    const merge = findMerge(merges, row, col);
+    return merge ? readCell(merge.s.r, merge.s.c) : readCell(row, col);
+  };
+  const findRoleColumn = (values: string[], role: 'id' | 'title') => values.findIndex((value) => {
+    if (!value) return false;
+    const resolved = resolveColumnRole(value, mapping);
+    return resolved.matched && resolved.role === role;
+  });
+
+  let start = range.s.r;
+  let idColumn = -1;
+  let titleColumn = -1;
+  const lastScanRow = Math.min(range.e.r, range.s.r + HEADER_SCAN_ROWS - 1);
+  for (let row = range.s.r; row <= lastScanRow; row++) {
+    const values = Array.from({ length: columnCount }, (_, index) => readMergedCell(row, range.s.c + index));
+    const idIndex = findRoleColumn(values, 'id');
+    const titleIndex = findRoleColumn(values, 'title');
+    if (idIndex >= 0 && titleIndex >= 0) {
+      start = row;
+      idColumn = range.s.c + idIndex;
+      titleColumn = range.s.c + titleIndex;
+      break;
+    }
+  }
+
+  // A group label merged across the row above belongs to the header too; a title banner
+  // merged across the whole sheet also covers the id or title column, so it doesn't count
+  if (idColumn >= 0 && start > range.s.r) {
+    const isGroupLabel = (merge: XLSX.Range) =>
+      merge.s.r === start - 1 && merge.e.c > merge.s.c
+      && ![idColumn, titleColumn].some((col) => col >= merge.s.c && col <= merge.e.c);
+    if (merges.some(isGroupLabel)) start -= 1;
+  }
+
+  let end = start;
+  const lastHeaderRow = Math.min(range.e.r, start + MAX_HEADER_DEPTH - 1);
+  while (end < lastHeaderRow) {
+    const headerMerges = merges.filter((merge) => merge.s.r >= start && merge.s.r <= end);
+    const mergedTo = Math.max(end, ...headerMerges.map((merge) => merge.e.r));
+    if (mergedTo > end) {
+      end = Math.min(mergedTo, lastHeaderRow);
+      continue;
+    }
+
+    // Data rows have an id; a row of sub-headers under a group label is empty there or repeats the id header
+    const next = end + 1;
+    const hasSubHeaders = headerMerges
+      .filter((merge) => merge.e.c > merge.s.c)
+      .some((merge) => {
+        for (let col = merge.s.c; col <= merge.e.c; col++) {
+          if (readCell(next, col)) return true;
+        }
+        return false;
+      });
+    const nextId = idColumn >= 0 ? readCell(next, idColumn) : '';
+    if (!hasSubHeaders || (nextId && findRoleColumn([nextId], 'id') < 0)) break;
+    end = next;
+  }
+
+  const names: string[] = [];
+  const leaves: string[] = [];
+  for (let col = range.s.c; col <= range.e.c; col++) {
+    const parts: string[] = [];
+    for (let row = start; row <= end; row++) {
+      // Group labels fill their whole merged span; on the bottom row only the merge's own column is named
+      const merge = findMerge(merges, row, col);
+      const value = row < end || !merge || merge.s.c === col ? readMergedCell(row, col) : '';
+      if (value && parts[parts.length - 1] !== value) parts.push(value);
+    }
+    names.push(parts.join(' '));
+    leaves.push(parts[parts.length - 1] || '');
+  }
+
+  return { start, end, names, leaves };
+};
+
+export interface WorksheetParse {
+  headers: string[];
+  headerRows: number[];
+  columns: ColumnDef[];
+  data: ExcelRow[];
+  issues: ImportIssue[];
+}
+
+// The parsers below are generators that pause every PARSE_CHUNK_ROWS sheet rows; these run them
+// straight through, or with a turn of the event loop at every pause
+const runSteps = <T>(steps: Generator<void, T>): T => {
+  let step = steps.next();
+  while (!step.done) step = steps.next();
+  return step.value;
+};
+
+const runStepsInChunks = async <T>(steps: Generator<void, T>): Promise<T> => {
+  let step = steps.next();
+  while (!step.done) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    step = steps.next();
+  }
+  return step.value;
+};
+
+// Parse one worksheet into rows keyed by header, with each column's role from the mapping profile
+function* parseWorksheetSteps(
+  worksheet: XLSX.WorkSheet,
+  sheetName: string,
+  uploadDate: string,
+  statusRules: StatusRuleConfig = DEFAULT_STATUS_RULES,
+  mapping: MappingProfile = DEFAULT_MAPPING_PROFILE,
+  sla: SlaConfig = DEFAULT_SLA_CONFIG
+): Generator<void, WorksheetParse> {
+  const data: ExcelRow[] = [];
+  const issues: ImportIssue[] = [];
+  const columns: ColumnDef[] = [];
+
+  if (!worksheet['!ref']) {
+    return { headers: [] as string[], headerRows: [] as number[], columns, data, issues };
+  }
+
+  // Get the range of the worksheet
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const header = detectHeader(worksheet, range, mapping);
+  const headers = header.names;
+  const headerRow = header.start + 1;
+  const headerRows = Array.from({ length: header.end - header.start + 1 }, (_, index) => headerRow + index);
+
+  // Column definition per sheet column; null for columns that are skipped
+  const sheetColumns: (ColumnDef | null)[] = headers.map((name, index) => {
+    // Columns without a header are skipped
+    if (!name) return null;
+
+    const { role, matched } = resolveColumnRole(name, mapping);
+    if (role === 'ignore') return null;
+
+    // Repeated headers get a suffix so every column has its own key
+    let key = name;
+    for (let copy = 2; columns.some((column) => column.key === key); copy += 1) {
+      key = `${name} (${copy})`;
+    }
+
+    const cell = XLSX.utils.encode_cell({ r: header.start, c: range.s.c + index });
+    let columnRole = role;
+    if ((role === 'id' || role === 'title') && columns.some((column) => column.role === role)) {
+      columnRole = 'notes';
+      issues.push({
+        severity: 'warning',
+        code: 'duplicate-role',
+        sheet: sheetName,
+        row: headerRow,
+        column: key,
+        cell,
+        message: `"${name}" also maps to ${role}; the first such column is used and this one is kept as notes`
+      });
+    } else if (role === 'status' && !matched && parseTimeOfDay(header.leaves[index]) === null) {
+      // Anything that isn't a mapped header or a time slot is still parsed as a status column
+      issues.push({
+        severity: 'warning',
+        code: 'unknown-header',
+        sheet: sheetName,
+        row: headerRow,
+        column: key,
+        cell,
+        message: `Unrecognised header "${name}" is treated as a status column`
+      });
+    }
+
+    const column: ColumnDef = { key, role: columnRole };
+    columns.push(column);
+    return column;
+  });
+
+  const idKey = columns.find((column) => column.role === 'id')?.key;
+  const titleKey = columns.find((column) => column.role === 'title')?.key;
+  const missingRoles = REQUIRED_ROLES.filter(({ role }) => !columns.some((column) => column.role === role));
+
+  // A sheet without the key columns (e.g. a notes tab) gets one issue per missing column, not one per row
+  if (missingRoles.length > 0) {
+    // Header warnings are noise on a sheet that can't be loaded at all
+    issues.length = 0;
+    missingRoles.forEach(({ role, label }) => {
+      issues.push({
+        severity: 'error',
+        code: 'missing-column',
+        sheet: sheetName,
+        row: headerRow,
+        column: label,
+        message: `No column maps to ${role} (${label}) with the "${mapping.name}" mapping, so every row is skipped`
+      });
+    });
+  }
+
+  const seenIds = new Map<string, number>();
+
+  // Process each data row
+  for (let row = header.end + 1; row <= range.e.r; row++) {
+    if ((row - header.end) % PARSE_CHUNK_ROWS === 0) yield;
+
+    const rowData: Record<string, CellValue> = {};
+    const rowIssues: ImportIssue[] = [];
+    let isBlank = true;
+
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const column = sheetColumns[col - range.s.c];
+      if (!column) continue;
+
+      const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
+      const cell = readCell(worksheet, cellAddress);
+      const cellValue = cell.display;
+
+      // Store the display text, plus the typed value for anything that isn't plain text
+      rowData[column.key] = cellValue;
+      if (cell.kind !== 'text') {
+        rowData[`${column.key}_value`] = cell.value;
+        rowData[`${column.key}_kind`] = cell.kind;
+      }
+      if (cellValue.trim() !== '') isBlank = false;
+
+      // Add status info for status columns only
+      if (column.role === 'status') {
+        applyStatusRules(rowData, column.key, statusRules);
+
+        const text = String(cellValue ?? '');
+        if (looksLikeTime(text) && parseTimeOfDay(text) === null) {
+          rowIssues.push({
+            severity: 'warning',
+            code: 'invalid-time',
+            sheet: sheetName,
+            row: row + 1,
+            column: column.key,
+            cell: cellAddress,
+            value: cellValue,
+            message: `"${text}" is not a valid HH:MM time`
+          });
+        }
+      }
+    }
+
+    // Blank lines aren't worth reporting, and a sheet missing key columns was reported above
+    if (isBlank || !idKey || !titleKey) continue;
+
+    // SLA targets recolour completion times
+    if (sla.targets.length > 0) {
+      const job = String(rowData[titleKey] ?? '');
+      columns.forEach(({ key, role }) => {
+        if (role === 'status') applySlaTarget(rowData, key, job, sla);
+      });
+    }
+
+    // Only include rows with a numeric id and a title
+    const sNo = rowData[idKey] ?? '';
+    const jobDetails = rowData[titleKey] ?? '';
+
+    if (sNo && jobDetails && !isNaN(Number(sNo)) && jobDetails.toString().trim() !== '') {
+      // Repeated ids get a suffix so row ids stay unique
+      const baseId = `row-${sNo}`;
+      const occurrence = (seenIds.get(baseId) || 0) + 1;
+      seenIds.set(baseId, occurrence);
+      if (occurrence > 1) {
+        rowIssues.push({
+          severity: 'warning',
+          code: 'duplicate-id',
+          sheet: sheetName,
+          row: row + 1,
+          column: idKey,
+          value: sNo,
+          message: `${idKey} ${sNo} appears more than once`
+        });
+      }
+
+      data.push({
+        ...rowData,
+        id: occurrence > 1 ? `${baseId}-${occurrence}` : baseId,
+        rowNumber: Number(sNo),
+        uploadDate
+      });
+      issues.push(...rowIssues);
+    } else {
+      const badId = !String(sNo).trim() || isNaN(Number(sNo));
+      const reason = !String(sNo).trim()
+        ? `${idKey} is empty`
+        : isNaN(Number(sNo))
+          ? `${idKey} "${sNo}" is not a number`
+          : `${titleKey} is empty`;
+      issues.push({
+        severity: 'error',
+        code: 'skipped-row',
+        sheet: sheetName,
+        row: row + 1,
+        column: badId ? idKey : titleKey,
+        value: badId ? sNo : jobDetails,
+        message: `Row skipped: ${reason}`
+      });
+    }
+  }
+
+  // Sort by S.No to ensure proper order
+  data.sort((a, b) => (a.rowNumber || 0) - (b.rowNumber || 0));
+
+  return { headers, headerRows, columns: orderColumns(columns), data, issues };
+}
+
+export const parseWorksheet = (...args: Parameters<typeof parseWorksheetSteps>) =>
+  runSteps(parseWorksheetSteps(...args));
+
+// Parse every sheet (or the requested one) of a workbook into the upload response payload
+function* parseWorkbookSteps(workbook: XLSX.WorkBook, options: ParseOptions): Generator<void, ParseResult> {
+  const uploadDate = options.uploadDate || new Date().toISOString();
+  const sheetNames = workbook.SheetNames;
+
+  if (options.sheet && !sheetNames.includes(options.sheet)) {
+    throw new SheetNotFoundError(options.sheet, sheetNames);
+  }
+
+  const sheets: SheetData[] = [];
+  const headers: Record<string, string[]> = {};
+  const allIssues: ImportIssue[] = [];
+
+  const mapping = options.mapping || DEFAULT_MAPPING_PROFILE;
+
+  for (const name of options.sheet ? [options.sheet] : sheetNames) {
+    const parsed: WorksheetParse = yield* parseWorksheetSteps(
+      workbook.Sheets[name], name, uploadDate, options.statusRules, mapping, options.sla
+    );
+    sheets.push({
+      name,
+      data: parsed.data,
+      totalRows: parsed.data.length,
+      columns: parsed.columns,
+      headerRows: parsed.headerRows
+    });
+    headers[name] = parsed.headers;
+    allIssues.push(...parsed.issues);
+  }
+
+  const issues = allIssues.slice(0, MAX_IMPORT_ISSUES);
+  if (allIssues.length > MAX_IMPORT_ISSUES) {
+    issues.push({
+      severity: 'warning',
+      code: 'truncated',
+      sheet: '',
+      message: `${allIssues.length - MAX_IMPORT_ISSUES} more issues were not listed`
+    });
+  }
+
+  // The first sheet with rows is shown by default
+  const active = sheets.find((sheet) => sheet.totalRows > 0) || sheets[0];
+
+  return {
+    response: {
+      success: true,
+      data: active ? active.data : [],
+      totalRows: active ? active.totalRows : 0,
+      fileName: options.fileName,
+      uploadDate,
+      sheetName: active ? active.name : '',
+      sheetNames,
+      sheets,
+      issues,
+      mappingProfile: mapping.id
+    },
+    headers,
+    issues
+  };
+}
+
+export const parseWorkbook = (workbook: XLSX.WorkBook, options: ParseOptions): ParseResult =>
+  runSteps(parseWorkbookSteps(workbook, options));
+
+// Same result as parseWorkbook, but other requests are served between chunks of rows
+export const parseWorkbookInChunks = (workbook: XLSX.WorkBook, options: ParseOptions): Promise<ParseResult> =>
+  runStepsInChunks(parseWorkbookSteps(workbook, options));
+
+// Synchronous: SheetJS unpacks the whole file at once, so only the row parsing after it can yield
+const readWorkbookFile = (filePath: string) => XLSX.readFile(filePath, { cellNF: true });
+
+// Read and parse an uploaded file from disk
+export const parseExcelFile = (filePath: string, options: ParseOptions): ParseResult =>
+  parseWorkbook(readWorkbookFile(filePath), options);
+
+export const parseExcelFileInChunks = (filePath: string, options: ParseOptions): Promise<ParseResult> =>
+  parseWorkbookInChunks(readWorkbookFile(filePath), options);
@@ -0,0 +1,78 @@
+import { Report } from './types';
+import { isObject } from './validation';
+
+// Read-only links to a saved report that open without signing in. The token in the URL is the
+// link id signed by the server, so links can't be guessed, and a revoked or expired link stops
+// working even if someone kept the URL.
+
+export interface ShareLink {
+  id: string;
+  reportId: string;
+  // Only this sheet is shared; every sheet when omitted
+  sheet?: string;
+  // Grid filters the viewer opens with, in the page-URL encoding (q, problems, status.<column>)
+  filters?: string;
+  // Username of whoever created the link
+  createdBy: string;
+  createdAt: string;
+  // No expiry when omitted
+  expiresAt?: string;
+  revokedAt?: string;
+  revokedBy?: string;
+  // Signed token for the /shared/<token> URL; left out of lists for links the caller didn't
+  // create, unless they are an admin
+  token?: string;
+}
+
+// POST /api/share-links
+export interface ShareLinkInput {
+  reportId: string;
+  sheet?: string;
+  filters?: string;
+  // Hours until the link stops working; never expires when omitted
+  expiresInHours?: number;
+}
+
+// GET /api/shared/:token; rows are read page by page from /api/shared/:token/rows
+export interface SharedReport {
+  link: Pick<ShareLink, 'sheet' | 'filters' | 'createdBy' | 'expiresAt'>;
+  report: Report;
+}
+
+export type ShareLinkState = 'active' | 'expired' | 'revoked';
+
+// A year is the longest a link can be given
+export const MAX_SHARE_LINK_HOURS = 24 * 365;
+
+// Longer filter strings are refused so a link can't be used to store arbitrary data
+export const MAX_SHARE_FILTERS_LENGTH = 2000;
+
+export const getShareLinkState = (link: Pick<ShareLink, 'expiresAt' | 'revokedAt'>, now: Date = new Date()): ShareLinkState => {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+};
+
+// Check a new link from the API; returns a list of problems, empty when valid
+export const validateShareLinkInput = (input: unknown): string[] => {
+  if (!isObject(input)) {
+    return ['Share link must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (!input.reportId || typeof input.reportId !== 'string') {
+    errors.push('"reportId" is required');
+  }
+  if (input.sheet !== undefined && typeof input.sheet !== 'string') {
+    errors.push('"sheet" must be a string');
+  }
+  if (input.filters !== undefined
+    && (typeof input.filters !== 'string' || input.filters.length > MAX_SHARE_FILTERS_LENGTH)) {
+    errors.push(`"filters" must be a string of at most ${MAX_SHARE_FILTERS_LENGTH} characters`);
+  }
+  if (input.expiresInHours !== undefined
+    && (typeof input.expiresInHours !== 'number' || !(input.expiresInHours > 0) || input.expiresInHours > MAX_SHARE_LINK_HOURS)) {
+    errors.push(`"expiresInHours" must be a number above 0 and at most ${MAX_SHARE_LINK_HOURS}`);
+  }
+  return errors;
+};
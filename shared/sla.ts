@@ -0,0 +1,145 @@
+import { StatusInfoType } from './types';
+import { parseTimeOfDay } from './statusRules';
+import { isNonEmptyString, isObject } from './validation';
+
+// Where a completion time stands against its target:
+// - on-time:  at or before `expected`
+// - at-risk:  late, but within `tolerance` minutes of `expected`
+// - breached: more than `tolerance` minutes late
+export type SlaState = 'on-time' | 'at-risk' | 'breached';
+
+export interface SlaTarget {
+  id: string;
+  // Job Details value the target applies to (case-insensitive); every job when omitted
+  job?: string;
+  // Time-slot column the target applies to; every status column when omitted
+  column?: string;
+  // Expected completion time, HH:MM
+  expected: string;
+  // Minutes after `expected` that are at risk rather than breached
+  tolerance: number;
+  description?: string;
+}
+
+export interface SlaConfig {
+  targets: SlaTarget[];
+  colors: Record<SlaState, string>;
+}
+
+export interface SlaResult {
+  state: SlaState;
+  // Minutes after the expected time; negative when early
+  deltaMinutes: number;
+}
+
+export const SLA_STATES: SlaState[] = ['on-time', 'at-risk', 'breached'];
+
+// Status type each state is reported as, so filters, exports and the summary treat breaches as failures
+export const SLA_STATUS_TYPES: Record<SlaState, StatusInfoType> = {
+  'on-time': 'success',
+  'at-risk': 'warning',
+  breached: 'error'
+};
+
+// No targets: time cells keep the colour the status rules give them
+export const DEFAULT_SLA_CONFIG: SlaConfig = {
+  targets: [],
+  colors: {
+    'on-time': '#00B050',
+    'at-risk': '#FFC000',
+    breached: '#FF0000'
+  }
+};
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+const normalise = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+// The most specific target for a job and column: job and column, then job, then column, then neither
+export const findSlaTarget = (config: SlaConfig, job: string, column: string): SlaTarget | undefined => {
+  const jobName = normalise(job);
+  const columnName = normalise(column);
+  const candidates = config.targets.filter((target) =>
+    (!target.job || normalise(target.job) === jobName)
+    && (!target.column || normalise(target.column) === columnName));
+
+  const specificity = (target: SlaTarget) => (target.job ? 2 : 0) + (target.column ? 1 : 0);
+  return candidates.reduce<SlaTarget | undefined>(
+    (best, target) => (!best || specificity(target) > specificity(best) ? target : best),
+    undefined
+  );
+};
+
+// Compare an HH:MM completion time with a target; null when the value isn't a time
+export const evaluateSla = (value: string, target: SlaTarget): SlaResult | null => {
+  const actual = parseTimeOfDay(value);
+  const expected = parseTimeOfDay(target.expected);
+  if (actual === null || expected === null) return null;
+
+  // Take the nearer side of midnight, so 00:15 against 23:30 is 45 minutes late
+  let deltaMinutes = actual - expected;
+  if (deltaMinutes > MINUTES_PER_DAY / 2) deltaMinutes -= MINUTES_PER_DAY;
+  if (deltaMinutes < -MINUTES_PER_DAY / 2) deltaMinutes += MINUTES_PER_DAY;
+
+  const state: SlaState = deltaMinutes <= 0
+    ? 'on-time'
+    : deltaMinutes <= target.tolerance ? 'at-risk' : 'breached';
+  return { state, deltaMinutes };
+};
+
+// "35 min late", "10 min early" or "on time"
+export const describeSlaDelta = (deltaMinutes: number) => {
+  if (deltaMinutes === 0) return 'on time';
+  return `${Math.abs(deltaMinutes)} min ${deltaMinutes > 0 ? 'late' : 'early'}`;
+};
+
+// Check an SLA config from the API; returns a list of problems, empty when valid
+export const validateSlaConfig = (config: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (!isObject(config)) {
+    return ['SLA config must be an object'];
+  }
+
+  if (!Array.isArray(config.targets)) {
+    errors.push('"targets" must be an array');
+  } else {
+    const ids = new Set<string>();
+    config.targets.forEach((target: unknown, index: number) => {
+      const label = `targets[${index}]`;
+      if (!isObject(target)) {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+      if (!isNonEmptyString(target.id)) {
+        errors.push(`${label}.id is required`);
+      } else if (ids.has(target.id)) {
+        errors.push(`${label}.id "${target.id}" is used more than once`);
+      } else {
+        ids.add(target.id);
+      }
+      (['job', 'column'] as const).forEach((key) => {
+        if (target[key] !== undefined && typeof target[key] !== 'string') {
+          errors.push(`${label}.${key} must be a string`);
+        }
+      });
+      if (typeof target.expected !== 'string' || parseTimeOfDay(target.expected) === null) {
+        errors.push(`${label}.expected must be an HH:MM time`);
+      }
+      if (typeof target.tolerance !== 'number' || !Number.isInteger(target.tolerance) || target.tolerance < 0) {
+        errors.push(`${label}.tolerance must be a whole number of minutes, 0 or more`);
+      }
+    });
+  }
+
+  const colors = isObject(config.colors) ? config.colors : {};
+  SLA_STATES.forEach((state) => {
+    const color = colors[state];
+    if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) {
+      errors.push(`"colors.${state}" must be a #RRGGBB colour`);
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,239 @@
+import { CellValue, StatusInfo, StatusInfoType } from './types';
+import { errorMessage, isNonEmptyString, isObject, isStringArray } from './validation';
+
+// How a rule decides whether it applies to a cell value:
+// - exact: the upper-cased value is one of `values`
+// - regex: the value matches `pattern` (case-insensitive)
+// - time:  the value is HH:MM and falls within [`from`, `to`)
+export type StatusRuleMatch = 'exact' | 'regex' | 'time';
+
+export interface StatusRule {
+  id: string;
+  match: StatusRuleMatch;
+  values?: string[];
+  pattern?: string;
+  from?: string;
+  to?: string;
+  // Label shown in the grid; defaults to the upper-cased cell value
+  status?: string;
+  color: string;
+  type: StatusInfoType;
+  description?: string;
+}
+
+export interface StatusRuleConfig {
+  rules: StatusRule[];
+  // Applied to empty cells
+  empty: StatusInfo;
+  // Applied when no rule matches
+  fallback: Omit<StatusInfo, 'status'>;
+}
+
+export const STATUS_INFO_TYPES: StatusInfoType[] = [
+  'success',
+  'error',
+  'warning',
+  'processing',
+  'purple',
+  'info',
+  'default'
+];
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && COLOR_PATTERN.test(value);
+
+const isStatusInfoType = (value: unknown): value is StatusInfoType =>
+  STATUS_INFO_TYPES.includes(value as StatusInfoType);
+
+// Rules matching the statuses the parser has always recognised
+export const DEFAULT_STATUS_RULES: StatusRuleConfig = {
+  rules: [
+    {
+      id: 'success',
+      match: 'exact',
+      values: ['ACTIVE', 'PASS', 'ENABLED', 'UNSUSPENDED'],
+      color: '#00B050',
+      type: 'success',
+      description: 'Green status indicators'
+    },
+    {
+      id: 'error',
+      match: 'exact',
+      values: ['OFF', 'FAILED', 'INACTIVE', 'SUSPENDED'],
+      color: '#FF0000',
+      type: 'error',
+      description: 'Red status indicators'
+    },
+    {
+      id: 'warning',
+      match: 'exact',
+      values: ['PENDING'],
+      color: '#FFC000',
+      type: 'warning',
+      description: 'Orange status indicators'
+    },
+    {
+      id: 'midnight',
+      match: 'exact',
+      values: ['00:00'],
+      color: '#d9d9d9',
+      type: 'default',
+      description: 'Empty time slot'
+    },
+    {
+      id: 'time',
+      match: 'regex',
+      pattern: '^\\d{1,2}:\\d{2}$',
+      color: '#0070C0',
+      type: 'processing',
+      description: 'Time values (HH:MM format)'
+    },
+    {
+      id: 'date',
+      match: 'regex',
+      pattern: '^\\d{1,2}-[A-Za-z]{3}$',
+      color: '#7030A0',
+      type: 'purple',
+      description: 'Date values (DD-MMM format)'
+    },
+    {
+      id: 'na',
+      match: 'exact',
+      values: ['NA'],
+      status: 'NA',
+      color: '#d9d9d9',
+      type: 'default',
+      description: 'Not applicable'
+    }
+  ],
+  empty: { status: 'NA', color: '#d9d9d9', type: 'default' },
+  fallback: { color: '#0070C0', type: 'info' }
+};
+
+// Convert HH:MM to minutes after midnight, or null if it isn't a time
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = TIME_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+};
+
+const ruleMatches = (rule: StatusRule, strValue: string): boolean => {
+  switch (rule.match) {
+    case 'exact':
+      return (rule.values || []).some((value) => value.toUpperCase().trim() === strValue);
+    case 'regex':
+      return !!rule.pattern && new RegExp(rule.pattern, 'i').test(strValue);
+    case 'time': {
+      const minutes = parseTimeOfDay(strValue);
+      if (minutes === null) return false;
+      if (rule.from && minutes < (parseTimeOfDay(rule.from) ?? 0)) return false;
+      if (rule.to && minutes >= (parseTimeOfDay(rule.to) ?? 24 * 60)) return false;
+      return true;
+    }
+    default:
+      return false;
+  }
+};
+
+// Resolve the status, color and type of a cell value; the first matching rule wins
+export const evaluateStatus = (
+  value: CellValue | null | undefined,
+  config: StatusRuleConfig = DEFAULT_STATUS_RULES
+): StatusInfo => {
+  if (!value || String(value).trim() === '') {
+    return { ...config.empty };
+  }
+
+  const strValue = String(value).toUpperCase().trim();
+  const rule = config.rules.find((candidate) => ruleMatches(candidate, strValue));
+
+  if (rule) {
+    return { status: rule.status || strValue, color: rule.color, type: rule.type };
+  }
+
+  return { status: strValue, ...config.fallback };
+};
+
+// Check a rule config from the API; returns a list of problems, empty when valid
+export const validateStatusRuleConfig = (config: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (!isObject(config)) {
+    return ['Rule config must be an object'];
+  }
+
+  if (!Array.isArray(config.rules)) {
+    errors.push('"rules" must be an array');
+  } else {
+    const ids = new Set<string>();
+    config.rules.forEach((rule: unknown, index: number) => {
+      const label = `rules[${index}]`;
+      if (!isObject(rule)) {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+      if (!isNonEmptyString(rule.id)) {
+        errors.push(`${label}.id is required`);
+      } else if (ids.has(rule.id)) {
+        errors.push(`${label}.id "${rule.id}" is used more than once`);
+      } else {
+        ids.add(rule.id);
+      }
+      if (!isColor(rule.color)) {
+        errors.push(`${label}.color must be a #RRGGBB colour`);
+      }
+      if (!isStatusInfoType(rule.type)) {
+        errors.push(`${label}.type must be one of ${STATUS_INFO_TYPES.join(', ')}`);
+      }
+
+      if (rule.match === 'exact') {
+        if (!isStringArray(rule.values) || rule.values.length === 0) {
+          errors.push(`${label}.values must list at least one value`);
+        }
+      } else if (rule.match === 'regex') {
+        if (!isNonEmptyString(rule.pattern)) {
+          errors.push(`${label}.pattern is required`);
+        } else {
+          try {
+            new RegExp(rule.pattern, 'i');
+          } catch (error) {
+            errors.push(`${label}.pattern is not a valid regular expression: ${errorMessage(error)}`);
+          }
+        }
+      } else if (rule.match === 'time') {
+        if (!rule.from && !rule.to) {
+          errors.push(`${label} needs a "from" or "to" time`);
+        }
+        (['from', 'to'] as const).forEach((key) => {
+          if (rule[key] && parseTimeOfDay(String(rule[key])) === null) {
+            errors.push(`${label}.${key} must be an HH:MM time`);
+          }
+        });
+      } else {
+        errors.push(`${label}.match must be one of exact, regex, time`);
+      }
+      if (rule.status !== undefined && typeof rule.status !== 'string') {
+        errors.push(`${label}.status must be text`);
+      }
+    });
+  }
+
+  (['empty', 'fallback'] as const).forEach((key) => {
+    const info = config[key];
+    if (!isObject(info) || !isColor(info.color) || !isStatusInfoType(info.type)) {
+      errors.push(`"${key}" must have a #RRGGBB color and a valid type`);
+    }
+  });
+  if (isObject(config.empty) && !isNonEmptyString(config.empty.status)) {
+    errors.push('"empty.status" is required');
+  }
+
+  return errors;
+};
@@ -0,0 +1,92 @@
+import { ColumnDef, ExcelRow, StatusInfoType } from './types';
+import { getColumnKey, getSheetColumns, getStatusColumns } from './columns';
+import { SlaState } from './sla';
+
+// Status types collapse into these buckets; info/processing/purple count as default
+export type SummaryBucket = 'success' | 'error' | 'warning' | 'default';
+
+export type BucketCounts = Record<SummaryBucket, number>;
+
+export interface SlotSummary {
+  column: string;
+  counts: BucketCounts;
+  total: number;
+}
+
+export interface FailingJob {
+  job: string;
+  sNo: string;
+  columns: string[];
+}
+
+export interface SheetSummary {
+  totalRows: number;
+  slots: SlotSummary[];
+  totals: BucketCounts;
+  // Error cells as a share of all non-empty status cells, 0..1
+  failureRate: number;
+  // Rows with at least one error cell
+  failingJobs: number;
+  // Jobs failing in more than one time slot, worst first
+  repeatFailures: FailingJob[];
+  // Time cells checked against an SLA target, by outcome
+  sla: Record<SlaState, number>;
+}
+
+export const toBucket = (type: StatusInfoType | string | undefined): SummaryBucket => {
+  if (type === 'success' || type === 'error' || type === 'warning') return type;
+  return 'default';
+};
+
+const emptyCounts = (): BucketCounts => ({ success: 0, error: 0, warning: 0, default: 0 });
+
+export const summarizeRows = (rows: ExcelRow[], sheetColumns?: ColumnDef[]): SheetSummary => {
+  const allColumns = getSheetColumns(rows, sheetColumns);
+  const titleKey = getColumnKey(allColumns, 'title') || '';
+  const idKey = getColumnKey(allColumns, 'id') || '';
+  const columns = getStatusColumns(allColumns);
+  const slots: SlotSummary[] = columns.map((column) => ({ column, counts: emptyCounts(), total: 0 }));
+  const totals = emptyCounts();
+  const repeatFailures: FailingJob[] = [];
+  const sla: Record<SlaState, number> = { 'on-time': 0, 'at-risk': 0, breached: 0 };
+  let failingJobs = 0;
+
+  rows.forEach((row) => {
+    const failedColumns: string[] = [];
+    slots.forEach((slot) => {
+      const value = row[slot.column];
+      if (value === undefined || value === null || String(value).trim() === '') return;
+
+      const bucket = toBucket(row[`${slot.column}_type`]);
+      slot.counts[bucket] += 1;
+      slot.total += 1;
+      totals[bucket] += 1;
+      if (bucket === 'error') failedColumns.push(slot.column);
+
+      const slaState: SlaState | undefined = row[`${slot.column}_sla`];
+      if (slaState && slaState in sla) sla[slaState] += 1;
+    });
+
+    if (failedColumns.length > 0) failingJobs += 1;
+    if (failedColumns.length > 1) {
+      repeatFailures.push({
+        job: String(row[titleKey] ?? ''),
+        sNo: String(row[idKey] ?? ''),
+        columns: failedColumns
+      });
+    }
+  });
+
+  const cellCount = slots.reduce((total, slot) => total + slot.total, 0);
+  repeatFailures.sort((a, b) => b.columns.length - a.columns.length);
+
+  return {
+    totalRows: rows.length,
+    slots,
+    totals,
+    failureRate: cellCount > 0 ? totals.error / cellCount : 0,
+    failingJobs,
+    repeatFailures,
+    sla
+  };
+};
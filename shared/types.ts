@@ -0,0 +1,164 @@
+// Types shared by the Express server, the Vercel functions and the React client.
+// Keep this file free of runtime imports so the client can pull it in as types only.
+
+import type { AlertLogEntry } from './alerts';
+
+export type CellValue = string | number | boolean;
+
+// What a cell holds, classified from its number format; see shared/cellValues.ts for the typed value of each
+export type CellKind = 'text' | 'number' | 'percent' | 'date' | 'time' | 'datetime' | 'duration';
+
+export type StatusInfoType =
+  | 'success'
+  | 'error'
+  | 'warning'
+  | 'processing'
+  | 'purple'
+  | 'info'
+  | 'default';
+
+export interface StatusInfo {
+  status: string;
+  color: string;
+  type: StatusInfoType;
+}
+
+export interface ExcelRow {
+  id: string;
+  rowNumber: number;
+  uploadDate: string;
+  [key: string]: any;
+}
+
+// What a column means to the viewer, decided by the mapping profile used at upload:
+// - id:     the row number (S.No); required
+// - title:  the job name (Job Details); required, rows are matched on it across reports
+// - notes:  free text (Comments)
+// - status: a time slot or status cell that gets coloured by the status rules
+// - ignore: dropped while parsing
+export type ColumnRole = 'id' | 'title' | 'notes' | 'status' | 'ignore';
+
+export interface ColumnDef {
+  // Row key, i.e. the header as it appears in the workbook
+  key: string;
+  role: Exclude<ColumnRole, 'ignore'>;
+}
+
+export interface SheetData {
+  name: string;
+  data: ExcelRow[];
+  totalRows: number;
+  // Column roles in display order; missing on reports saved before mapping profiles
+  columns?: ColumnDef[];
+  // 1-based sheet rows the header was read from, e.g. [3, 4] for a two-level header under a title banner
+  headerRows?: number[];
+}
+
+export interface UploadResponse {
+  success: boolean;
+  // Rows of the active sheet, kept at the top level for older clients
+  data: ExcelRow[];
+  totalRows: number;
+  fileName: string;
+  uploadDate: string;
+  sheetName: string;
+  sheetNames: string[];
+  sheets: SheetData[];
+  // Set when the server saved the upload to its report history
+  reportId?: string;
+  // Rows that were skipped or look wrong; missing on reports saved before issues were tracked
+  issues?: ImportIssue[];
+  // Id of the mapping profile the headers were read with
+  mappingProfile?: string;
+}
+
+// How a saved report arrived: uploaded in the browser or picked up from the watched folder
+export type ReportSource = 'upload' | 'watch';
+
+export interface ReportSummary {
+  id: string;
+  fileName: string;
+  uploadDate: string;
+  sheetNames: string[];
+  totalRows: number;
+  fileSize: number;
+  // Missing on reports saved before sources and hashes were recorded
+  source?: ReportSource;
+  // sha256 of the original file, used to skip files that were already ingested
+  contentHash?: string;
+  // Username of the uploader; missing on watched-folder reports and older ones
+  createdBy?: string;
+  // Last time a cell was edited in the grid
+  updatedAt?: string;
+}
+
+export interface Report extends UploadResponse {
+  reportId: string;
+  source?: ReportSource;
+  createdBy?: string;
+  updatedAt?: string;
+}
+
+// GET /api/reports/:id/rows - one page of a sheet's rows
+export interface RowPage {
+  sheet: string;
+  rows: ExcelRow[];
+  totalRows: number;
+  // Pass back as ?cursor= for the next page; null after the last one
+  nextCursor: string | null;
+}
+
+export type IngestionStatus = 'ingested' | 'duplicate' | 'failed';
+
+// One file the folder watcher picked up, newest first in the log
+export interface IngestionLogEntry {
+  id: string;
+  fileName: string;
+  filePath: string;
+  detectedAt: string;
+  status: IngestionStatus;
+  contentHash?: string;
+  // The new report, or the existing one a duplicate matched
+  reportId?: string;
+  totalRows?: number;
+  issues?: number;
+  error?: string;
+}
+
+// Pushed to open viewers over GET /api/events
+export type ServerEvent =
+  | { type: 'report-created'; report: ReportSummary }
+  // Sent after a grid edit with the row as it now is; sheet and row are missing for other updates
+  | { type: 'report-updated'; report: ReportSummary; sheet?: string; row?: ExcelRow }
+  | { type: 'ingestion'; entry: IngestionLogEntry }
+  | { type: 'alert'; entry: AlertLogEntry };
+
+export interface IngestionStatusResponse {
+  // Absolute path of the watched folder, or null when watching is off
+  directory: string | null;
+  intervalMs: number | null;
+  entries: IngestionLogEntry[];
+}
+
+export type ImportIssueSeverity = 'error' | 'warning';
+
+export type ImportIssueCode =
+  | 'missing-column'
+  | 'unknown-header'
+  | 'duplicate-role'
+  | 'skipped-row'
+  | 'duplicate-id'
+  | 'invalid-time'
+  | 'truncated';
+
+// A problem found while parsing; row is the 1-based sheet row and cell its A1 address
+export interface ImportIssue {
+  severity: ImportIssueSeverity;
+  code: ImportIssueCode;
+  sheet: string;
+  message: string;
+  row?: number;
+  column?: string;
+  cell?: string;
+  value?: CellValue;
+}
@@ -0,0 +1,17 @@
+// Narrowing helpers for the validators that check request bodies, which arrive as unknown JSON
+
+export type JsonObject = Record<string, unknown>;
+
+// A JSON object; arrays and null don't count
+export const isObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// Message of a caught error, e.g. from new RegExp()
+export const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
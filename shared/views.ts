@@ -0,0 +1,113 @@
+import { ColumnDef } from './types';
+import { getColumnWidth } from './columns';
+import { isNonEmptyString, isObject, isStringArray } from './validation';
+
+// How a sheet's columns are arranged. The grid, the PNG/PDF renderer and the data exports all
+// lay columns out through applyColumnLayout, so a view looks the same wherever it is used.
+// Columns are matched by key; keys a sheet doesn't have are ignored.
+export interface ColumnLayout {
+  // Keys in display order; columns not listed keep their default place after these
+  order?: string[];
+  hidden?: string[];
+  // Kept at the left edge while the grid scrolls sideways
+  pinned?: string[];
+  // Pixel widths by key; other columns keep their default width
+  widths?: Record<string, number>;
+}
+
+// A named layout; personal views are only listed for their owner, shared ones for everybody
+export interface SavedView {
+  id: string;
+  name: string;
+  layout: ColumnLayout;
+  shared: boolean;
+  // Username of whoever saved it
+  owner: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SavedViewInput = Pick<SavedView, 'name' | 'layout' | 'shared'>;
+
+export interface LaidOutColumn extends ColumnDef {
+  width: number;
+  pinned: boolean;
+}
+
+export const MIN_COLUMN_WIDTH = 40;
+export const MAX_COLUMN_WIDTH = 1200;
+
+export const isEmptyLayout = (layout?: ColumnLayout) =>
+  !layout
+  || ((layout.order || []).length === 0
+    && (layout.hidden || []).length === 0
+    && (layout.pinned || []).length === 0
+    && Object.keys(layout.widths || {}).length === 0);
+
+// Visible columns in display order (pinned ones first) with their widths
+export const applyColumnLayout = (columns: ColumnDef[], layout: ColumnLayout = {}): LaidOutColumn[] => {
+  const order = layout.order || [];
+  const hidden = layout.hidden || [];
+  const pinned = layout.pinned || [];
+  // Listed keys first, then the rest in their default order
+  const position = (column: ColumnDef, index: number) => {
+    const listed = order.indexOf(column.key);
+    return listed === -1 ? order.length + index : listed;
+  };
+
+  return columns
+    .map((column, index) => ({
+      ...column,
+      width: layout.widths?.[column.key] || getColumnWidth(column),
+      pinned: pinned.includes(column.key),
+      position: position(column, index),
+    }))
+    .filter((column) => !hidden.includes(column.key))
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || a.position - b.position)
+    .map(({ key, role, width, pinned: isPinned }) => ({ key, role, width, pinned: isPinned }));
+};
+
+// Every column's key in display order, hidden ones included; the starting point for reordering
+export const getLayoutOrder = (columns: ColumnDef[], layout: ColumnLayout = {}) =>
+  applyColumnLayout(columns, { ...layout, hidden: [] }).map((column) => column.key);
+
+// Check a layout from the API; returns a list of problems, empty when valid
+export const validateColumnLayout = (layout: unknown): string[] => {
+  if (!isObject(layout)) {
+    return ['Layout must be an object'];
+  }
+
+  const errors: string[] = [];
+  (['order', 'hidden', 'pinned'] as const).forEach((key) => {
+    if (layout[key] !== undefined && !isStringArray(layout[key])) {
+      errors.push(`"${key}" must be an array of column keys`);
+    }
+  });
+  if (layout.widths !== undefined) {
+    if (!isObject(layout.widths)) {
+      errors.push('"widths" must be an object of column key to pixels');
+    } else {
+      Object.entries(layout.widths).forEach(([key, width]) => {
+        if (typeof width !== 'number' || width < MIN_COLUMN_WIDTH || width > MAX_COLUMN_WIDTH) {
+          errors.push(`widths["${key}"] must be between ${MIN_COLUMN_WIDTH} and ${MAX_COLUMN_WIDTH}`);
+        }
+      });
+    }
+  }
+  return errors;
+};
+
+export const validateSavedViewInput = (input: unknown): string[] => {
+  if (!isObject(input)) {
+    return ['View must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (!isNonEmptyString(input.name)) {
+    errors.push('"name" is required');
+  }
+  if (typeof input.shared !== 'boolean') {
+    errors.push('"shared" must be true or false');
+  }
+  return [...errors, ...validateColumnLayout(input.layout)];
+};